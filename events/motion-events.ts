@@ -0,0 +1,86 @@
+// ─────────────────────────────────────────────────────────────
+// Motion events — hysteresis on the per-frame motion amount, with
+// a minimum duration so flickers don't end up in the log.
+// ─────────────────────────────────────────────────────────────
+
+export interface MotionEventSettings {
+    startThreshold: number; // Motion amount (0-1) that opens an event
+    stopThreshold: number;  // Amount below which an open event closes; ≤ startThreshold
+    minDuration: number;    // ms; shorter events are discarded
+}
+
+export interface EventLogSettings extends MotionEventSettings {
+    enabled: boolean;
+    preRoll: number; // ms of video kept before each event's clip
+}
+
+export interface MotionEvent {
+    id: number;
+    startTime: number;       // Epoch ms
+    endTime: number | null;  // null while the event is still open
+    peakIntensity: number;   // Highest motion amount seen during the event
+    thumbnail: string | null; // Data URL of the source at the event start
+    clip: Blob | null;        // Filled in once the clip has been muxed
+}
+
+export type MotionEventTransition =
+    | { type: 'start'; event: MotionEvent }
+    | { type: 'end'; event: MotionEvent }
+    | { type: 'discard'; event: MotionEvent };
+
+export class MotionEventDetector {
+    private active: MotionEvent | null = null;
+    private nextId = 1;
+
+    public update(amount: number, time: number, settings: MotionEventSettings): MotionEventTransition | null {
+        const active = this.active;
+
+        if (!active) {
+            if (amount < settings.startThreshold) return null;
+            this.active = {
+                id: this.nextId++,
+                startTime: time,
+                endTime: null,
+                peakIntensity: amount,
+                thumbnail: null,
+                clip: null,
+            };
+            return { type: 'start', event: this.active };
+        }
+
+        active.peakIntensity = Math.max(active.peakIntensity, amount);
+        if (amount >= Math.min(settings.stopThreshold, settings.startThreshold)) return null;
+
+        this.active = null;
+        const event = { ...active, endTime: time };
+        return time - event.startTime < settings.minDuration
+            ? { type: 'discard', event }
+            : { type: 'end', event };
+    }
+
+    /** Closes any open event without reporting it. */
+    public reset() {
+        this.active = null;
+    }
+}
+
+const iso = (time: number | null) => (time === null ? '' : new Date(time).toISOString());
+
+export const eventsToJson = (events: MotionEvent[]) =>
+    JSON.stringify(events.map(({ clip: _clip, ...event }) => ({
+        ...event,
+        startTime: iso(event.startTime),
+        endTime: iso(event.endTime),
+        durationSeconds: event.endTime === null ? null : (event.endTime - event.startTime) / 1000,
+    })), null, 2);
+
+export const eventsToCsv = (events: MotionEvent[]) => [
+    'id,start,end,duration_s,peak_intensity',
+    ...events.map((e) => [
+        e.id,
+        iso(e.startTime),
+        iso(e.endTime),
+        e.endTime === null ? '' : ((e.endTime - e.startTime) / 1000).toFixed(2),
+        e.peakIntensity.toFixed(4),
+    ].join(',')),
+].join('\n');
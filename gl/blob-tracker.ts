@@ -0,0 +1,168 @@
+// ─────────────────────────────────────────────────────────────
+// Blob tracking — connected components on a downsampled coverage
+// grid of the motion mask, associated across frames by IoU with a
+// nearest-centroid fallback so IDs stay stable.
+// ─────────────────────────────────────────────────────────────
+
+export interface Rect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/** Normalized to [0, 1] with the origin at the top-left of the frame. */
+export interface TrackedBlob {
+    id: number;
+    boundingBox: Rect;
+    centroid: { x: number; y: number };
+    /** Fraction of frame pixels covered by the blob. */
+    area: number;
+    /** Frames since the blob was first seen. */
+    age: number;
+}
+
+/** Coverage grid, row-major with row 0 at the top; values in [0, 1]. */
+export interface CoverageGrid {
+    data: Float32Array;
+    width: number;
+    height: number;
+}
+
+interface Track extends TrackedBlob {
+    missedFrames: number;
+}
+
+const CELL_ON = 0.25;       // Cell coverage needed to join a blob
+const MIN_IOU = 0.1;
+const MAX_CENTROID_DIST = 0.1;
+const MAX_MISSED_FRAMES = 5;
+
+const iou = (a: Rect, b: Rect) => {
+    const ix = Math.max(0, Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x));
+    const iy = Math.max(0, Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y));
+    const inter = ix * iy;
+    const union = a.width * a.height + b.width * b.height - inter;
+    return union > 0 ? inter / union : 0;
+};
+
+/** 8-connected components over cells with coverage ≥ CELL_ON. */
+export function labelBlobs(grid: CoverageGrid, minArea: number): Omit<TrackedBlob, 'id' | 'age'>[] {
+    const { data, width: gw, height: gh } = grid;
+    const labels = new Int32Array(gw * gh).fill(-1);
+    const stack: number[] = [];
+    const blobs: Omit<TrackedBlob, 'id' | 'age'>[] = [];
+    const cellCount = gw * gh;
+
+    for (let start = 0; start < cellCount; start++) {
+        if (labels[start] !== -1 || data[start] < CELL_ON) continue;
+
+        let minX = gw, minY = gh, maxX = -1, maxY = -1;
+        let coverage = 0, cx = 0, cy = 0;
+
+        labels[start] = blobs.length;
+        stack.push(start);
+        while (stack.length) {
+            const cell = stack.pop()!;
+            const x = cell % gw;
+            const y = (cell - x) / gw;
+            const c = data[cell];
+            coverage += c;
+            cx += c * (x + 0.5);
+            cy += c * (y + 0.5);
+            minX = Math.min(minX, x); maxX = Math.max(maxX, x);
+            minY = Math.min(minY, y); maxY = Math.max(maxY, y);
+
+            for (let dy = -1; dy <= 1; dy++) {
+                const ny = y + dy;
+                if (ny < 0 || ny >= gh) continue;
+                for (let dx = -1; dx <= 1; dx++) {
+                    const nx = x + dx;
+                    if (nx < 0 || nx >= gw) continue;
+                    const n = ny * gw + nx;
+                    if (labels[n] === -1 && data[n] >= CELL_ON) {
+                        labels[n] = blobs.length;
+                        stack.push(n);
+                    }
+                }
+            }
+        }
+
+        const area = coverage / cellCount;
+        if (area < minArea) continue;
+
+        blobs.push({
+            boundingBox: {
+                x: minX / gw,
+                y: minY / gh,
+                width: (maxX - minX + 1) / gw,
+                height: (maxY - minY + 1) / gh,
+            },
+            centroid: { x: cx / coverage / gw, y: cy / coverage / gh },
+            area,
+        });
+    }
+
+    return blobs;
+}
+
+export class BlobTracker {
+    private tracks: Track[] = [];
+    private nextId = 1;
+
+    /** Labels `grid`, associates the detections with existing tracks and returns the visible ones. */
+    public update(grid: CoverageGrid, minArea: number): TrackedBlob[] {
+        const detections = labelBlobs(grid, minArea);
+
+        // Greedy association: best IoU pairs first, centroid distance as a fallback score
+        const candidates: { track: number; det: number; score: number }[] = [];
+        this.tracks.forEach((track, ti) => {
+            detections.forEach((det, di) => {
+                const overlap = iou(track.boundingBox, det.boundingBox);
+                const dist = Math.hypot(track.centroid.x - det.centroid.x, track.centroid.y - det.centroid.y);
+                if (overlap >= MIN_IOU) {
+                    candidates.push({ track: ti, det: di, score: 1 + overlap });
+                } else if (dist <= MAX_CENTROID_DIST) {
+                    candidates.push({ track: ti, det: di, score: 1 - dist / MAX_CENTROID_DIST });
+                }
+            });
+        });
+        candidates.sort((a, b) => b.score - a.score);
+
+        const trackMatched = new Set<number>();
+        const detMatched = new Set<number>();
+        for (const { track, det } of candidates) {
+            if (trackMatched.has(track) || detMatched.has(det)) continue;
+            trackMatched.add(track);
+            detMatched.add(det);
+            const t = this.tracks[track];
+            Object.assign(t, detections[det]);
+            t.age++;
+            t.missedFrames = 0;
+        }
+
+        this.tracks.forEach((t, ti) => {
+            if (!trackMatched.has(ti)) t.missedFrames++;
+        });
+        this.tracks = this.tracks.filter((t) => t.missedFrames <= MAX_MISSED_FRAMES);
+
+        detections.forEach((det, di) => {
+            if (!detMatched.has(di)) {
+                this.tracks.push({ ...det, id: this.nextId++, age: 0, missedFrames: 0 });
+            }
+        });
+
+        return this.getBlobs();
+    }
+
+    public getBlobs(): TrackedBlob[] {
+        return this.tracks
+            .filter((t) => t.missedFrames === 0)
+            .map(({ missedFrames: _missed, ...blob }) => blob);
+    }
+
+    public reset() {
+        this.tracks = [];
+        this.nextId = 1;
+    }
+}
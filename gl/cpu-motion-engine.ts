@@ -0,0 +1,659 @@
+import {
+    MOTION_THRESHOLD,
+    RELIGHT_MOVING_FRACTION,
+    RELIGHT_ADAPTATION_RATE,
+    RELIGHT_FRAMES,
+    BACKGROUND_WARM_UP_FRAMES,
+    MIN_PROCESSING_RESOLUTION
+} from './motion-engine';
+import type { MotionControls, MotionStats } from './motion-engine';
+import type { ZoneMask } from './zone-mask';
+import { HOLE_FILL_SWEEPS, MAX_MORPH_RADIUS, MorphStep, morphSteps, openCloseSteps } from './morphology';
+import { BUILTIN_EFFECTS, effectParam } from './effects';
+
+// ─────────────────────────────────────────────────────────────
+// CPU reference implementation of the MotionEngine pipeline.
+// Mirrors the GLSL passes in shaders.ts texel-for-texel so the GL
+// output can be checked headlessly (no WebGL context required).
+// ─────────────────────────────────────────────────────────────
+
+/** Minimal RGBA8 frame shape; `ImageData` satisfies it. */
+export interface FrameData {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+const MIN_VARIANCE = 0.05; // Matches u_minVariance in MotionEngine
+const SHADOW_MIN_RATIO = 0.5; // Matches the bgSub shader constant
+const MAX_BLUR_RADIUS = 16; // Matches the blur shader loop
+const MAX_RESAMPLE_TAPS = 8; // Matches the resample shader loop
+
+const clamp01 = (x: number) => Math.min(Math.max(x, 0), 1);
+
+const smoothstep = (e0: number, e1: number, x: number) => {
+    const t = clamp01((x - e0) / (e1 - e0));
+    return t * t * (3 - 2 * t);
+};
+
+const mix = (a: number, b: number, t: number) => a * (1 - t) + b * t;
+
+const mix3 = (a: number[], b: number[], t: number) => [mix(a[0], b[0], t), mix(a[1], b[1], t), mix(a[2], b[2], t)];
+
+// Bilinear fetch with clamp-to-edge at (fx, fy) in texel units, from channel c of a w×h image with `stride` channels
+const bilinear = (data: ArrayLike<number>, w: number, h: number, stride: number, c: number, fx: number, fy: number) => {
+    fx = Math.min(Math.max(fx, 0), w - 1);
+    fy = Math.min(Math.max(fy, 0), h - 1);
+    const x0 = Math.floor(fx);
+    const y0 = Math.floor(fy);
+    const x1 = Math.min(x0 + 1, w - 1);
+    const y1 = Math.min(y0 + 1, h - 1);
+    const top = mix(data[(y0 * w + x0) * stride + c], data[(y0 * w + x1) * stride + c], fx - x0);
+    const bottom = mix(data[(y1 * w + x0) * stride + c], data[(y1 * w + x1) * stride + c], fx - x0);
+    return mix(top, bottom, fy - y0);
+};
+
+// Same stops as heatPalette() in effectPreludeSource
+const HEAT_STOPS = [
+    [0.0, 0.0, 0.15],
+    [0.0, 0.3, 1.0],
+    [0.0, 1.0, 0.6],
+    [1.0, 0.8, 0.0],
+    [1.0, 0.2, 0.05],
+    [1.0, 1.0, 0.9],
+];
+
+const heatPalette = (t: number) => {
+    t = clamp01(t);
+    const seg = Math.min(Math.floor(t / 0.2), 4);
+    return mix3(HEAT_STOPS[seg], HEAT_STOPS[seg + 1], (t - seg * 0.2) / 0.2);
+};
+
+export class CpuMotionEngine {
+    private width: number = 0;
+    private height: number = 0;
+    // Detection size: engine size × processingResolution
+    private procWidth: number = 0;
+    private procHeight: number = 0;
+    private processingScale = 1;
+
+    // Float32 equivalents of the RGBA32F ping-pong targets. Only the channels
+    // the shaders actually read are kept: mean.rgb and variance.r.
+    private mean: Float32Array = new Float32Array(0);
+    private variance: Float32Array = new Float32Array(0);
+    private mask: [Float32Array, Float32Array] = [new Float32Array(0), new Float32Array(0)];
+    private morphScratch: [Float32Array, Float32Array] = [new Float32Array(0), new Float32Array(0)];
+    private output: Uint8ClampedArray = new Uint8ClampedArray(0);
+    private trails: Float32Array = new Float32Array(0); // rgb of the RGBA32F accumulation buffer
+    private exposure: Float32Array = new Float32Array(0); // Long-exposure running mean of the mask
+    private exposureFrames = 0;
+    private resampled: Uint8ClampedArray = new Uint8ClampedArray(0); // RGBA8 like the GL target
+    private blurred: [Uint8ClampedArray, Uint8ClampedArray] = [new Uint8ClampedArray(0), new Uint8ClampedArray(0)]; // RGBA8 like the GL targets
+
+    private zone: Float32Array | null = null; // Zone weight at processing resolution
+    private zoneMask: ZoneMask | null = null;
+
+    private relightFramesLeft = 0;
+    private warmUpFramesLeft = 0;
+    private warmUpFrames = 0;
+    private backgroundFrozen = false;
+    private frameIndex = 0;
+    private isInitialized = false;
+
+    public init(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.updateProcessingSize();
+        this.allocate();
+        this.isInitialized = true;
+    }
+
+    public resize(width: number, height: number) {
+        if (this.width !== width || this.height !== height) {
+            this.width = width;
+            this.height = height;
+            this.updateProcessingSize();
+            this.allocate(); // Same as GL: model restarts from zero
+        }
+    }
+
+    /** Any size; sampled bilinearly at processing size, like the GL zone texture. */
+    public setZoneMask(mask: ZoneMask | null) {
+        this.zoneMask = mask;
+        this.resampleZone();
+    }
+
+    /** Same as MotionEngine.resetExposure. */
+    public resetExposure() {
+        this.exposure.fill(0);
+        this.exposureFrames = 0;
+    }
+
+    /** Same as MotionEngine.resetBackground. */
+    public resetBackground(warmUpFrames = BACKGROUND_WARM_UP_FRAMES) {
+        this.warmUpFrames = this.warmUpFramesLeft = Math.max(1, warmUpFrames);
+    }
+
+    /** Same as MotionEngine.initBackgroundFromFrame. */
+    public initBackgroundFromFrame() {
+        this.resetBackground(1);
+    }
+
+    /** Same as MotionEngine.clearBackground. */
+    public clearBackground() {
+        this.mean.fill(0);
+        this.variance.fill(0);
+        this.warmUpFramesLeft = 0;
+    }
+
+    /** Same as MotionEngine.setBackgroundFrozen. */
+    public setBackgroundFrozen(frozen: boolean) {
+        this.backgroundFrozen = frozen;
+    }
+
+    /** Post-morphology soft mask of the last rendered frame (row-major, top-down), at processing size. */
+    public getMask(): Float32Array {
+        return this.mask[0];
+    }
+
+    /** Same reduction as the GL stats chain, computed synchronously for the last frame. */
+    public getMotionStats(): MotionStats | null {
+        if (this.frameIndex === 0) return null;
+
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const mask = this.mask[0];
+        let movingCount = 0;
+        let maskSum = 0;
+        let xSum = 0;
+        let ySum = 0;
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                const m = mask[y * w + x];
+                // Texel centers, like the shader's uv
+                const u = (x + 0.5) / w;
+                const v = (y + 0.5) / h;
+                maskSum += m;
+                xSum += m * u;
+                ySum += m * v;
+                if (m >= MOTION_THRESHOLD) {
+                    movingCount++;
+                    minX = Math.min(minX, u);
+                    maxX = Math.max(maxX, u);
+                    minY = Math.min(minY, v);
+                    maxY = Math.max(maxY, v);
+                }
+            }
+        }
+
+        const total = w * h;
+        return {
+            frame: this.frameIndex - 1,
+            movingFraction: movingCount / total,
+            meanIntensity: maskSum / total,
+            centroid: maskSum > 0 ? { x: xSum / maskSum, y: ySum / maskSum } : null,
+            boundingBox: movingCount > 0 ? { x: minX, y: minY, width: maxX - minX, height: maxY - minY } : null,
+        };
+    }
+
+    /**
+     * Runs one frame through pre-blur → bgSub → morphology → output. `frame` must already
+     * be at the engine resolution (e.g. drawn into a canvas of that size).
+     */
+    public render(frame: FrameData, controls: MotionControls): FrameData {
+        if (!this.isInitialized) {
+            throw new Error('CpuMotionEngine not initialized');
+        }
+        if (frame.width !== this.width || frame.height !== this.height) {
+            throw new Error(`Frame size ${frame.width}x${frame.height} does not match engine size ${this.width}x${this.height}`);
+        }
+        if (controls.detectionMode === 'opticalFlow' || controls.effect === 'flow') {
+            throw new Error('Optical flow is not part of the CPU reference pipeline');
+        }
+        if (controls.detectionMode === 'frameDelay' || controls.effect === 'frameDelay') {
+            throw new Error('Frame delay is not part of the CPU reference pipeline');
+        }
+        if (controls.backgroundModel === 'mog') {
+            throw new Error('The mixture-of-Gaussians model is not part of the CPU reference pipeline');
+        }
+        if (!BUILTIN_EFFECTS.some((e) => e.name === controls.effect)) {
+            throw new Error(`Effect "${controls.effect}" is not part of the CPU reference pipeline`);
+        }
+
+        // Detection buffers are sized by the scale, so a new scale starts the model over
+        const scale = Math.min(Math.max(controls.processingResolution, MIN_PROCESSING_RESOLUTION), 1);
+        if (scale !== this.processingScale) {
+            this.processingScale = scale;
+            this.updateProcessingSize();
+            this.allocate();
+        }
+
+        const input = this.processingScale < 1 ? this.resample(frame.data) : frame.data;
+        const source = controls.noiseReduction > 0 ? this.preBlur(input, controls.noiseReduction) : input;
+        if (this.warmUpFramesLeft > 0) {
+            const seed = this.warmUpFramesLeft === this.warmUpFrames;
+            this.backgroundSubtraction(source, controls, seed ? 1 : RELIGHT_ADAPTATION_RATE, seed);
+            this.warmUpFramesLeft--;
+            this.mask[0].fill(0);
+        } else {
+            this.backgroundSubtraction(source, controls, this.backgroundFrozen ? 0 : this.updateRelight(controls));
+        }
+
+        const morphed = this.morphology(controls);
+        if (morphed !== this.mask[0]) this.mask[0].set(morphed);
+
+        const weight = 1 / (this.exposureFrames + 1);
+        for (let i = 0; i < this.exposure.length; i++) this.exposure[i] += (this.mask[0][i] - this.exposure[i]) * weight;
+        this.exposureFrames++;
+
+        this.outputPass(frame.data, controls);
+        this.frameIndex++;
+
+        return { data: this.output, width: this.width, height: this.height };
+    }
+
+    private updateProcessingSize() {
+        this.procWidth = Math.max(1, Math.round(this.width * this.processingScale));
+        this.procHeight = Math.max(1, Math.round(this.height * this.processingScale));
+    }
+
+    private allocate() {
+        const n = this.procWidth * this.procHeight;
+        const pixels = this.width * this.height;
+        this.mean = new Float32Array(n * 3);
+        this.variance = new Float32Array(n);
+        this.mask = [new Float32Array(n), new Float32Array(n)];
+        this.morphScratch = [new Float32Array(n), new Float32Array(n)];
+        this.output = new Uint8ClampedArray(pixels * 4);
+        this.trails = new Float32Array(pixels * 3);
+        this.exposure = new Float32Array(n);
+        this.exposureFrames = 0;
+        this.resampled = new Uint8ClampedArray(n * 4);
+        this.blurred = [new Uint8ClampedArray(n * 4), new Uint8ClampedArray(n * 4)];
+        this.resampleZone();
+    }
+
+    private resampleZone() {
+        const mask = this.zoneMask;
+        if (!mask) {
+            this.zone = null;
+            return;
+        }
+        const w = this.procWidth;
+        const h = this.procHeight;
+        this.zone = new Float32Array(w * h);
+        // Bilinear with clamp-to-edge, like the LINEAR zone texture
+        const texel = (sx: number, sy: number) => mask.data[
+            Math.min(Math.max(sy, 0), mask.height - 1) * mask.width + Math.min(Math.max(sx, 0), mask.width - 1)
+        ] / 255;
+        for (let y = 0; y < h; y++) {
+            const fy = ((y + 0.5) / h) * mask.height - 0.5;
+            const y0 = Math.floor(fy);
+            const ty = fy - y0;
+            for (let x = 0; x < w; x++) {
+                const fx = ((x + 0.5) / w) * mask.width - 0.5;
+                const x0 = Math.floor(fx);
+                const tx = fx - x0;
+                this.zone[y * w + x] = mix(
+                    mix(texel(x0, y0), texel(x0 + 1, y0), tx),
+                    mix(texel(x0, y0 + 1), texel(x0 + 1, y0 + 1), tx),
+                    ty,
+                );
+            }
+        }
+    }
+
+    // Same rule as MotionEngine, but on the previous frame's stats (the GL readback lags a little more)
+    private updateRelight(controls: MotionControls): number {
+        if (!controls.illuminationCompensation) {
+            this.relightFramesLeft = 0;
+            return 0;
+        }
+        const stats = this.getMotionStats();
+        if (stats && stats.movingFraction > RELIGHT_MOVING_FRACTION) this.relightFramesLeft = RELIGHT_FRAMES;
+        if (this.relightFramesLeft > 0) {
+            this.relightFramesLeft--;
+            return RELIGHT_ADAPTATION_RATE;
+        }
+        return 0;
+    }
+
+    // ── backgroundSubtractionFragmentSource ──
+    private backgroundSubtraction(src: Uint8ClampedArray, controls: MotionControls, relightRate: number, seed = false) {
+        const isColorMode = controls.detectionMode === 'color';
+        const threshold = controls.detectionThreshold / 10.0;
+        const mean = this.mean;
+        const variance = this.variance;
+        const mask = this.mask[0];
+        const n = this.procWidth * this.procHeight;
+
+        for (let i = 0; i < n; i++) {
+            const r = src[i * 4] / 255;
+            const g = src[i * 4 + 1] / 255;
+            const b = src[i * 4 + 2] / 255;
+            const mr = mean[i * 3];
+            const mg = mean[i * 3 + 1];
+            const mb = mean[i * 3 + 2];
+            const v = variance[i];
+
+            let dist: number;
+            if (isColorMode) {
+                dist = Math.hypot(r - mr, g - mg, b - mb);
+            } else {
+                const curLum = 0.299 * r + 0.587 * g + 0.114 * b;
+                dist = Math.abs(curLum - mr);
+            }
+            const clampedVar = Math.max(v, MIN_VARIANCE);
+
+            const edge = threshold * Math.sqrt(clampedVar);
+            let soft = smoothstep(edge * 0.6, edge * 1.4, dist);
+
+            const adaptationRate = this.backgroundFrozen ? 0 : controls.adaptationRate;
+            let alpha = Math.max(adaptationRate * (1 - soft), relightRate);
+
+            if (controls.shadowDetection && isColorMode) {
+                const ratio = (r * mr + g * mg + b * mb) / Math.max(mr * mr + mg * mg + mb * mb, 1e-6);
+                const chromaDist = Math.hypot(r - ratio * mr, g - ratio * mg, b - ratio * mb);
+                if (ratio >= SHADOW_MIN_RATIO && ratio < 1.0 && chromaDist < edge * 0.6) soft = 0;
+            }
+
+            const zone = this.zone ? this.zone[i] : 1;
+            if (controls.freezeOutsideZones) alpha *= zone;
+
+            if (seed) {
+                const curLum = 0.299 * r + 0.587 * g + 0.114 * b;
+                mean[i * 3] = mix(mr, isColorMode ? r : curLum, alpha);
+                mean[i * 3 + 1] = mix(mg, isColorMode ? g : curLum, alpha);
+                mean[i * 3 + 2] = mix(mb, isColorMode ? b : curLum, alpha);
+                variance[i] = mix(v, MIN_VARIANCE, alpha);
+            } else if (isColorMode) {
+                mean[i * 3] = mix(mr, r, alpha);
+                mean[i * 3 + 1] = mix(mg, g, alpha);
+                mean[i * 3 + 2] = mix(mb, b, alpha);
+                const lumDiff = (r + g + b) * 0.333 - (mr + mg + mb) * 0.333;
+                variance[i] = mix(v, lumDiff * lumDiff, alpha);
+            } else {
+                const curLum = 0.299 * r + 0.587 * g + 0.114 * b;
+                const newMean = mix(mr, curLum, alpha);
+                mean[i * 3] = newMean;
+                const d = curLum - newMean;
+                variance[i] = mix(v, d * d, alpha);
+            }
+
+            mask[i] = soft * zone;
+        }
+    }
+
+    // ── resampleFragmentSource: a grid of bilinear taps over each processing texel's footprint ──
+    private resample(src: Uint8ClampedArray): Uint8ClampedArray {
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const tapsX = Math.min(Math.max(Math.ceil(this.width / w), 1), MAX_RESAMPLE_TAPS);
+        const tapsY = Math.min(Math.max(Math.ceil(this.height / h), 1), MAX_RESAMPLE_TAPS);
+        const out = this.resampled;
+
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                for (let c = 0; c < 4; c++) {
+                    let sum = 0;
+                    for (let j = 0; j < tapsY; j++) {
+                        // Tap position in source texels, less the half texel to its center
+                        const fy = (y + (j + 0.5) / tapsY) * (this.height / h) - 0.5;
+                        for (let i = 0; i < tapsX; i++) {
+                            const fx = (x + (i + 0.5) / tapsX) * (this.width / w) - 0.5;
+                            sum += bilinear(src, this.width, this.height, 4, c, fx, fy);
+                        }
+                    }
+                    out[(y * w + x) * 4 + c] = sum / (tapsX * tapsY);
+                }
+            }
+        }
+        return out;
+    }
+
+    // ── gaussianBlurFragmentSource: horizontal into blurred[0], vertical into blurred[1] ──
+    private preBlur(src: Uint8ClampedArray, sigma: number): Uint8ClampedArray {
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const radius = Math.min(Math.ceil(sigma * 3), MAX_BLUR_RADIUS);
+        const weights = [1];
+        for (let i = 1; i <= radius; i++) weights.push(Math.exp(-(i * i) / (2 * sigma * sigma)));
+        const weightSum = weights.reduce((sum, wt, i) => sum + (i ? 2 * wt : wt), 0);
+
+        const pass = (input: Uint8ClampedArray, output: Uint8ClampedArray, dx: number, dy: number) => {
+            for (let y = 0; y < h; y++) {
+                for (let x = 0; x < w; x++) {
+                    for (let c = 0; c < 4; c++) {
+                        let sum = 0;
+                        for (let i = -radius; i <= radius; i++) {
+                            const xx = Math.min(Math.max(x + i * dx, 0), w - 1);
+                            const yy = Math.min(Math.max(y + i * dy, 0), h - 1);
+                            sum += weights[Math.abs(i)] * input[(yy * w + xx) * 4 + c];
+                        }
+                        output[(y * w + x) * 4 + c] = sum / weightSum;
+                    }
+                }
+            }
+        };
+
+        pass(src, this.blurred[0], 1, 0);
+        pass(this.blurred[0], this.blurred[1], 0, 1);
+        return this.blurred[1];
+    }
+
+    // ── MotionEngine.morphologyPass: same pass plan, raw mask in mask[0] ──
+    private morphology(controls: MotionControls): Float32Array {
+        const raw = this.mask[0];
+        const [a, b, c] = [this.mask[1], this.morphScratch[0], this.morphScratch[1]];
+
+        switch (controls.morphology) {
+            case 'open':
+            case 'close':
+                return this.runMorphSteps(openCloseSteps(controls.morphology, controls), raw, b, a);
+            case 'gradient': {
+                const dilated = this.runMorphSteps(morphSteps('dilate', controls), raw, b, a);
+                const eroded = this.runMorphSteps(morphSteps('erode', controls), raw, c, a);
+                return this.morphDifference(dilated, eroded, a);
+            }
+            case 'topHat': {
+                const opened = this.runMorphSteps(openCloseSteps('open', controls), raw, b, a);
+                return this.morphDifference(raw, opened, c);
+            }
+            case 'fillHoles':
+                return this.fillHoles(raw, a);
+            default:
+                return raw;
+        }
+    }
+
+    private runMorphSteps(steps: MorphStep[], input: Float32Array, output: Float32Array, scratch: Float32Array): Float32Array {
+        let source = input;
+        steps.forEach((step, i) => {
+            const target = (steps.length - 1 - i) % 2 === 0 ? output : scratch;
+            this.morphStep(source, target, step);
+            source = target;
+        });
+        return output;
+    }
+
+    // ── morphologyFragmentSource erode/dilate, clamp-to-edge ──
+    private morphStep(src: Float32Array, dst: Float32Array, step: MorphStep) {
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const r = Math.min(step.radius, MAX_MORPH_RADIUS);
+        const diskR2 = (r + 0.5) * (r + 0.5);
+        const pick = step.type === 'erode' ? Math.min : Math.max;
+        const fetch = (x: number, y: number) =>
+            src[Math.min(Math.max(y, 0), h - 1) * w + Math.min(Math.max(x, 0), w - 1)];
+
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                let val = src[y * w + x];
+                if (step.shape === 'line') {
+                    // Direction is in texture space, where v runs bottom-up
+                    const [dx, dy] = step.direction;
+                    for (let t = -r; t <= r; t++) val = pick(val, fetch(x + dx * t, y - dy * t));
+                } else {
+                    for (let j = -r; j <= r; j++) {
+                        for (let i = -r; i <= r; i++) {
+                            if (step.shape === 'disk' && i * i + j * j > diskR2) continue;
+                            if (step.shape === 'cross' && i !== 0 && j !== 0) continue;
+                            val = pick(val, fetch(x + i, y + j));
+                        }
+                    }
+                }
+                dst[y * w + x] = val;
+            }
+        }
+    }
+
+    private morphDifference(minuend: Float32Array, subtrahend: Float32Array, output: Float32Array): Float32Array {
+        for (let i = 0; i < output.length; i++) output[i] = Math.max(minuend[i] - subtrahend[i], 0);
+        return output;
+    }
+
+    // ── holeFillFragmentSource: each sweep spreads "outside" along whole runs of still pixels, scanned directly here ──
+    private fillHoles(input: Float32Array, output: Float32Array): Float32Array {
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const still = (i: number) => input[i] < MOTION_THRESHOLD;
+        const outside = new Uint8Array(w * h);
+        for (let x = 0; x < w; x++) outside[x] = outside[(h - 1) * w + x] = 1;
+        for (let y = 0; y < h; y++) outside[y * w] = outside[y * w + w - 1] = 1;
+
+        // Marks a line's runs of still pixels outside wherever one of their pixels is
+        const sweep = (start: number, stride: number, count: number) => {
+            let reach = 0;
+            for (let k = 0; k < count; k++) {
+                const i = start + k * stride;
+                reach = still(i) && (reach || outside[i]) ? 1 : 0;
+                outside[i] = reach;
+            }
+            reach = 0;
+            for (let k = count - 1; k >= 0; k--) {
+                const i = start + k * stride;
+                reach = still(i) && (reach || outside[i]) ? 1 : 0;
+                outside[i] = reach;
+            }
+        };
+        for (let s = 0; s < HOLE_FILL_SWEEPS; s++) {
+            if (s % 2 === 0) for (let y = 0; y < h; y++) sweep(y * w, 1, w);
+            else for (let x = 0; x < w; x++) sweep(x, w, h);
+        }
+
+        for (let i = 0; i < output.length; i++) output[i] = still(i) && !outside[i] ? 1 : input[i];
+        return output;
+    }
+
+    // ── BUILTIN_EFFECTS snippets + the accumulate/present passes of MotionEngine.render ──
+    private outputPass(video: Uint8ClampedArray, controls: MotionControls) {
+        const w = this.width;
+        const h = this.height;
+        const rawMask = this.mask[0];
+        const out = this.output;
+        const effect = BUILTIN_EFFECTS.find((e) => e.name === controls.effect)!;
+        const param = (name: string) => effectParam(effect, effect.uniforms.find((u) => u.name === name)!, controls.effectParams);
+
+        // Texture-space fetches; v runs bottom-up (video is uploaded with UNPACK_FLIP_Y), rows here run top-down.
+        // The mask and exposure are at processing size, LINEAR/CLAMP_TO_EDGE like their textures.
+        const pw = this.procWidth;
+        const ph = this.procHeight;
+        const sampleMask = (u: number, v: number) => bilinear(rawMask, pw, ph, 1, 0, u * pw - 0.5, (1 - v) * ph - 0.5);
+        const sampleExposure = (u: number, v: number) => bilinear(this.exposure, pw, ph, 1, 0, u * pw - 0.5, (1 - v) * ph - 0.5);
+        // The background model is NEAREST
+        const modelTexel = (u: number, v: number) =>
+            Math.min(Math.floor((1 - v) * ph), ph - 1) * pw + Math.min(Math.floor(u * pw), pw - 1);
+        const sampleVideo = (u: number, v: number, c: number) => bilinear(video, w, h, 4, c, u * w - 0.5, (1 - v) * h - 0.5) / 255;
+
+        const edgeGlow = (u: number, v: number, mask: number, radius: number) => {
+            const px = radius / w;
+            const py = radius / h;
+            const sum =
+                sampleMask(u - px, v) + sampleMask(u + px, v) +
+                sampleMask(u, v - py) + sampleMask(u, v + py) +
+                sampleMask(u - px, v - py) + sampleMask(u + px, v - py) +
+                sampleMask(u - px, v + py) + sampleMask(u + px, v + py);
+            return smoothstep(0.0, 0.5, sum / 8.0) * (1.0 - mask * 0.5);
+        };
+
+        const isPersistence = !!effect.persistence;
+        const decay = clamp01(controls.persistence);
+        const trails = this.trails;
+        if (!isPersistence) trails.fill(0); // GL frees the buffer, so trails restart from black
+
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                const i = y * w + x;
+                const u = (x + 0.5) / w;
+                const v = 1 - (y + 0.5) / h;
+                const videoRgb = [video[i * 4] / 255, video[i * 4 + 1] / 255, video[i * 4 + 2] / 255];
+                let mask = sampleMask(u, v);
+                if (controls.invert) mask = 1.0 - mask;
+
+                let result = [0, 0, 0];
+
+                if (controls.effect === 'classic') {
+                    result = videoRgb.map((c) => c * mask);
+                } else if (controls.effect === 'colorBurn') {
+                    const edgeColor = mix3([0.0, 0.95, 0.85], [0.6, 0.1, 0.95], v * 0.8 + 0.1);
+                    const glow = edgeGlow(u, v, mask, 2.0);
+                    const glowStrength = param('u_glowStrength') as number;
+                    const vig = 1.0 - smoothstep(0.3, 0.9, Math.hypot(u - 0.5, v - 0.5) * 1.2);
+                    const vigScale = param('u_vignette') ? mix(0.7, 1.0, vig) : 1.0;
+                    result = videoRgb.map((c, k) => (c * mask * 0.85 + edgeColor[k] * glow * glowStrength) * vigScale);
+                } else if (controls.effect === 'electricTrails') {
+                    const trailColor = param('u_trailColor') as number[];
+                    const glowStrength = param('u_glowStrength') as number;
+                    const core = mix3(trailColor, [1.0, 0.9, 0.7], mask * mask).map((c) => c * mask);
+                    const glow = edgeGlow(u, v, mask, 3.0);
+                    result = core.map((c, k) => c + trailColor[k] * glow * glowStrength);
+                } else if (controls.effect === 'heatmap') {
+                    const total = sampleExposure(u, v) * (param('u_gain') as number);
+                    const glow = edgeGlow(u, v, mask, 2.5);
+                    const glowStrength = param('u_glowStrength') as number;
+                    const heat = heatPalette(total).map((c, k) => c + [1.0, 0.5, 0.1][k] * glow * glowStrength);
+                    result = mix3([0.02, 0.01, 0.05], heat, smoothstep(0.0, 0.05, Math.max(total, mask)));
+                } else if (controls.effect === 'chromatic') {
+                    const shift = mask * (param('u_shift') as number);
+                    const dx = u - 0.5 + 0.001;
+                    const dy = v - 0.5 + 0.001;
+                    const len = Math.hypot(dx, dy);
+                    const dirX = dx / len;
+                    const dirY = dy / len;
+                    const aberrated = [
+                        sampleVideo(u + dirX * shift, v + dirY * shift, 0),
+                        videoRgb[1],
+                        sampleVideo(u - dirX * shift, v - dirY * shift, 2),
+                    ];
+                    const scanline = param('u_scanlines') ? Math.sin(v * h * 1.5) * 0.5 + 0.5 : 0;
+                    result = mix3(videoRgb, aberrated, smoothstep(0.05, 0.3, mask)).map((c) => c - 0.03 * scanline * mask);
+                } else if (controls.effect === 'backgroundMean') {
+                    const texel = modelTexel(u, v);
+                    const mean = this.mean.subarray(texel * 3, texel * 3 + 3);
+                    result = controls.detectionMode === 'color' ? Array.from(mean) : [mean[0], mean[0], mean[0]];
+                } else if (controls.effect === 'backgroundVariance') {
+                    result = heatPalette(Math.sqrt(Math.max(this.variance[modelTexel(u, v)], 0)) * (param('u_gain') as number));
+                }
+
+                // Persistence effects fold the unclamped frame into the float trail buffer, presented opaque
+                let alpha = effect.opaque ? 1 : mask;
+                if (isPersistence) {
+                    result = result.map((c, k) => {
+                        const previous = trails[i * 3 + k] * decay;
+                        const accumulated = controls.accumulationMode === 'additive' ? previous + c : Math.max(previous, c);
+                        trails[i * 3 + k] = accumulated;
+                        return accumulated;
+                    });
+                    alpha = 1;
+                }
+
+                out[i * 4] = Math.round(clamp01(result[0]) * 255);
+                out[i * 4 + 1] = Math.round(clamp01(result[1]) * 255);
+                out[i * 4 + 2] = Math.round(clamp01(result[2]) * 255);
+                out[i * 4 + 3] = Math.round(clamp01(alpha) * 255);
+            }
+        }
+    }
+}
@@ -0,0 +1,265 @@
+import { effectPreludeSource, effectMainSource } from './shaders';
+
+// ─────────────────────────────────────────────────────────────
+// Output effects — each one is a GLSL snippet plus a uniform
+// schema. The engine compiles one program per registered effect,
+// the sidebar builds its controls from the schema.
+// ─────────────────────────────────────────────────────────────
+
+export type EffectUniformValue = number | boolean | [number, number, number];
+
+export type EffectUniform = {
+    name: string; // GLSL identifier, declared automatically
+    label: string;
+} & (
+    | { type: 'float' | 'int'; min: number; max: number; step?: number; default: number }
+    | { type: 'bool'; default: boolean }
+    | { type: 'color'; default: [number, number, number] } // vec3, components in [0, 1]
+);
+
+export interface MotionEffect {
+    name: string; // Unique key, stored in MotionControls.effect
+    label: string;
+    /** Defines `vec3 effect(vec4 video, float mask)`; see effectPreludeSource for what is in scope. */
+    source: string;
+    uniforms: EffectUniform[];
+    /** Accumulates output into a decaying trail buffer (MotionControls.persistence / accumulationMode). */
+    persistence?: boolean;
+    /** Output is a complete image shown at full alpha, rather than faded out by the mask. */
+    opaque?: boolean;
+    /** Optional engine textures the snippet samples; they are only computed when some effect asks. */
+    inputs?: ('flow' | 'delayed')[];
+}
+
+/** Per-effect uniform values, keyed by effect name then uniform name. Missing entries use the default. */
+export type EffectParams = Record<string, Record<string, EffectUniformValue>>;
+
+const GLSL_TYPES = { float: 'float', int: 'int', bool: 'bool', color: 'vec3' } as const;
+
+export const buildEffectFragmentSource = (effect: MotionEffect) => [
+    effectPreludeSource,
+    ...effect.uniforms.map((u) => `uniform ${GLSL_TYPES[u.type]} ${u.name};`),
+    effect.source,
+    effectMainSource,
+].join('\n');
+
+/** A compiler message; `line` is 1-based within `MotionEffect.source`, null when it points elsewhere. */
+export interface EffectDiagnostic {
+    severity: 'error' | 'warning';
+    line: number | null;
+    message: string;
+}
+
+// "ERROR: 0:42: 'foo' : undeclared identifier"
+const INFO_LOG_ENTRY = /^(ERROR|WARNING):\s*\d+:(\d+):\s*(.*)$/;
+const INFO_LOG_SUMMARY = /^ERROR:\s*\d+ compilation errors?/;
+
+/** Maps a shader info log for `buildEffectFragmentSource(effect)` back onto the effect's own source lines. */
+export function parseEffectInfoLog(log: string, effect: MotionEffect): EffectDiagnostic[] {
+    // The prelude and one declaration per uniform come before the snippet
+    const offset = effectPreludeSource.split('\n').length + effect.uniforms.length;
+    const sourceLines = effect.source.split('\n').length;
+
+    return log.split('\n')
+        .map((entry) => entry.replace(/\0/g, '').trim())
+        .filter((entry) => entry && !INFO_LOG_SUMMARY.test(entry))
+        .map((entry): EffectDiagnostic => {
+            const match = INFO_LOG_ENTRY.exec(entry);
+            if (!match) return { severity: 'error', line: null, message: entry };
+            const line = Number(match[2]) - offset;
+            return {
+                severity: match[1] === 'WARNING' ? 'warning' : 'error',
+                line: line >= 1 && line <= sourceLines ? line : null,
+                message: match[3],
+            };
+        });
+}
+
+export const effectParam = (effect: MotionEffect, uniform: EffectUniform, params: EffectParams): EffectUniformValue =>
+    params[effect.name]?.[uniform.name] ?? uniform.default;
+
+export const isEffectUniformValue = (value: unknown): value is EffectUniformValue =>
+    typeof value === 'number' || typeof value === 'boolean'
+    || (Array.isArray(value) && value.length === 3 && value.every((c) => typeof c === 'number'));
+
+export const BUILTIN_EFFECTS: MotionEffect[] = [
+    {
+        // Pure motion extraction (video colors on black)
+        name: 'classic',
+        label: 'Classic',
+        uniforms: [],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  return video.rgb * mask;
+}`,
+    },
+    {
+        // Neon edge glow + video composite
+        name: 'colorBurn',
+        label: 'Color Burn',
+        uniforms: [
+            { name: 'u_glowStrength', label: 'Glow', type: 'float', min: 0, max: 4, step: 0.1, default: 1.5 },
+            { name: 'u_vignette', label: 'Vignette', type: 'bool', default: true },
+        ],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  vec3 neonCyan   = vec3(0.0, 0.95, 0.85);
+  vec3 neonPurple = vec3(0.6, 0.1, 0.95);
+
+  // Edge detection from mask gradient
+  float glow = edgeGlow(mask, 2.0);
+
+  // Mix cyan/purple based on vertical position for visual interest
+  vec3 edgeColor = mix(neonCyan, neonPurple, v_texCoord.y * 0.8 + 0.1);
+
+  // Compose: dark background + video in motion areas + neon edge glow
+  vec3 base = video.rgb * mask * 0.85;
+  vec3 glowLayer = edgeColor * glow * u_glowStrength;
+
+  vec3 result = base + glowLayer;
+
+  // Subtle vignette for cinematic feel
+  if (u_vignette) {
+    float vig = 1.0 - smoothstep(0.3, 0.9, length(v_texCoord - 0.5) * 1.2);
+    result *= mix(0.7, 1.0, vig);
+  }
+  return result;
+}`,
+    },
+    {
+        // Persistence + glow (blending handled by engine)
+        name: 'electricTrails',
+        label: 'Electric Trails',
+        persistence: true,
+        uniforms: [
+            { name: 'u_trailColor', label: 'Trail Color', type: 'color', default: [0.1, 0.6, 1.0] },
+            { name: 'u_glowStrength', label: 'Glow', type: 'float', min: 0, max: 2, step: 0.1, default: 0.8 },
+        ],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  vec3 hotColor = vec3(1.0, 0.9, 0.7); // White-hot core
+
+  // Core: trail color where mask is strong
+  vec3 core = mix(u_trailColor, hotColor, mask * mask) * mask;
+
+  // Outer glow
+  float glow = edgeGlow(mask, 3.0);
+  vec3 glowColor = u_trailColor * glow * u_glowStrength;
+
+  return core + glowColor;
+}`,
+    },
+    {
+        // Long-exposure heat: how often each pixel moved since the last reset
+        name: 'heatmap',
+        label: 'Motion Heatmap',
+        opaque: true,
+        uniforms: [
+            { name: 'u_gain', label: 'Gain', type: 'float', min: 1, max: 20, step: 0.5, default: 4 },
+            { name: 'u_glowStrength', label: 'Glow', type: 'float', min: 0, max: 2, step: 0.1, default: 0.4 },
+        ],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  // Fraction of frames in motion; at gain 4 a pixel moving a quarter of the time is white-hot
+  float total = exposureAt(v_texCoord) * u_gain;
+  vec3 heat = heatPalette(total);
+
+  // Current motion glows on top of the history
+  float glow = edgeGlow(mask, 2.5);
+  heat += vec3(1.0, 0.5, 0.1) * glow * u_glowStrength;
+
+  // Darken background, keep heat vivid
+  float bgDim = smoothstep(0.0, 0.05, max(total, mask));
+  return mix(vec3(0.02, 0.01, 0.05), heat, bgDim);
+}`,
+    },
+    {
+        // RGB channel split on motion
+        name: 'chromatic',
+        label: 'Chromatic Aberration',
+        uniforms: [
+            { name: 'u_shift', label: 'Shift', type: 'float', min: 0, max: 0.05, step: 0.001, default: 0.015 },
+            { name: 'u_scanlines', label: 'Scanlines', type: 'bool', default: true },
+        ],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  // Shift amount scales with motion intensity
+  float shift = mask * u_shift;
+
+  // Directional shift based on position relative to center
+  vec2 dir = normalize(v_texCoord - 0.5 + 0.001);
+
+  float r = texture(u_video, v_texCoord + dir * shift).r;
+  float g = video.g;
+  float b = texture(u_video, v_texCoord - dir * shift).b;
+
+  vec3 aberrated = vec3(r, g, b);
+
+  // Blend: show full video with aberration overlay in motion areas
+  vec3 result = mix(video.rgb, aberrated, smoothstep(0.05, 0.3, mask));
+
+  // Subtle scanline effect in motion areas for style
+  if (u_scanlines) {
+    float scanline = sin(v_texCoord.y * u_resolution.y * 1.5) * 0.5 + 0.5;
+    result -= vec3(0.03) * scanline * mask;
+  }
+  return result;
+}`,
+    },
+    {
+        // Direction as hue, magnitude as brightness
+        name: 'flow',
+        label: 'Flow Direction',
+        inputs: ['flow'],
+        uniforms: [],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  vec3 flow = texture(u_flow, v_texCoord).xyz;
+  float hue = atan(flow.y, flow.x) / 6.28318530718 + 0.5;
+  float value = clamp(flow.z / u_flowScale, 0.0, 1.0);
+  vec3 result = hsv2rgb(vec3(hue, 1.0, value));
+  return u_invert ? vec3(1.0) - result : result;
+}`,
+    },
+    {
+        // Current frame over an inverted, partly transparent past frame
+        name: 'frameDelay',
+        label: 'Time Offset Inversion',
+        inputs: ['delayed'],
+        uniforms: [
+            { name: 'u_pastWeight', label: 'Past Frame Weight', type: 'float', min: 0, max: 1, step: 0.05, default: 0.5 },
+        ],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  vec3 delayed = texture(u_delayed, v_texCoord).rgb;
+  // At the default weight static areas cancel to mid-gray; anything that moved keeps its edges
+  vec3 result = mix(video.rgb, vec3(1.0) - delayed, u_pastWeight);
+  return u_invert ? vec3(1.0) - result : result;
+}`,
+    },
+    {
+        // Debug view of what the single-Gaussian model thinks the empty scene looks like
+        name: 'backgroundMean',
+        label: 'Background Mean (debug)',
+        opaque: true,
+        uniforms: [],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  return backgroundMeanAt(v_texCoord);
+}`,
+    },
+    {
+        // Debug view of the model's noise estimate; bright areas need a bigger change to count as motion
+        name: 'backgroundVariance',
+        label: 'Background Variance (debug)',
+        opaque: true,
+        uniforms: [
+            { name: 'u_gain', label: 'Gain', type: 'float', min: 1, max: 50, step: 1, default: 10 },
+        ],
+        source: `
+vec3 effect(vec4 video, float mask) {
+  float sigma = sqrt(max(backgroundVarianceAt(v_texCoord), 0.0));
+  return heatPalette(sigma * u_gain);
+}`,
+    },
+];
@@ -0,0 +1,127 @@
+// ─────────────────────────────────────────────────────────────
+// Program wrapper — links a program with the quad attributes at
+// fixed locations, caches every active uniform's location and
+// type, and skips uniform calls whose value hasn't changed.
+// ─────────────────────────────────────────────────────────────
+
+export type UniformValue = number | boolean | readonly number[];
+
+/** Attribute locations shared by every program, so one VAO serves them all. */
+export const QUAD_ATTRIBUTES = { a_position: 0, a_texCoord: 1 } as const;
+
+interface UniformInfo {
+    location: WebGLUniformLocation;
+    type: number;
+    value: UniformValue | null; // Last value set, null until the first set
+}
+
+const sameValue = (a: UniformValue | null, b: UniformValue) => {
+    if (a === null) return false;
+    if (typeof a !== 'object' || typeof b !== 'object') return a === b;
+    return a.length === b.length && a.every((v, i) => v === b[i]);
+};
+
+export class GLProgram {
+    public readonly program: WebGLProgram;
+    private uniforms = new Map<string, UniformInfo>();
+    private attributes = new Map<string, number>();
+
+    /** Compiles and links; throws with the GLSL info log on failure. */
+    constructor(private gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) {
+        const vs = compileShader(gl, gl.VERTEX_SHADER, vertexSource);
+        let fs: WebGLShader;
+        try {
+            fs = compileShader(gl, gl.FRAGMENT_SHADER, fragmentSource);
+        } catch (e) {
+            gl.deleteShader(vs);
+            throw e;
+        }
+        const program = gl.createProgram()!;
+        gl.attachShader(program, vs);
+        gl.attachShader(program, fs);
+        Object.entries(QUAD_ATTRIBUTES).forEach(([name, location]) => gl.bindAttribLocation(program, location, name));
+        gl.linkProgram(program);
+        // Flagged for deletion, freed once the program goes
+        gl.deleteShader(vs);
+        gl.deleteShader(fs);
+        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
+            const log = gl.getProgramInfoLog(program)!;
+            gl.deleteProgram(program);
+            throw new Error(log);
+        }
+        this.program = program;
+
+        const uniformCount: number = gl.getProgramParameter(program, gl.ACTIVE_UNIFORMS);
+        for (let i = 0; i < uniformCount; i++) {
+            const info = gl.getActiveUniform(program, i);
+            const location = info && gl.getUniformLocation(program, info.name);
+            if (!info || !location) continue;
+            // Arrays are reported as "name[0]"; setting "name" sets the whole array
+            this.uniforms.set(info.name.replace(/\[0\]$/, ''), { location, type: info.type, value: null });
+        }
+        const attributeCount: number = gl.getProgramParameter(program, gl.ACTIVE_ATTRIBUTES);
+        for (let i = 0; i < attributeCount; i++) {
+            const info = gl.getActiveAttrib(program, i);
+            if (info) this.attributes.set(info.name, gl.getAttribLocation(program, info.name));
+        }
+    }
+
+    public use() {
+        this.gl.useProgram(this.program);
+    }
+
+    /** Location of an active attribute, -1 if the shader doesn't use it. */
+    public attribute(name: string): number {
+        return this.attributes.get(name) ?? -1;
+    }
+
+    public hasUniform(name: string): boolean {
+        return this.uniforms.has(name);
+    }
+
+    /**
+     * Sets a uniform of the program in use, picking the call from its GLSL
+     * type. Uniforms the compiler optimized out are ignored, like a null
+     * location would be.
+     */
+    public set(name: string, value: UniformValue) {
+        const uniform = this.uniforms.get(name);
+        if (!uniform || sameValue(uniform.value, value)) return;
+        uniform.value = typeof value === 'object' ? [...value] : value;
+
+        const gl = this.gl;
+        const { location } = uniform;
+        const v = typeof value === 'object' ? value : [Number(value)];
+        switch (uniform.type) {
+            case gl.FLOAT: gl.uniform1fv(location, v); break;
+            case gl.FLOAT_VEC2: gl.uniform2fv(location, v); break;
+            case gl.FLOAT_VEC3: gl.uniform3fv(location, v); break;
+            case gl.FLOAT_VEC4: gl.uniform4fv(location, v); break;
+            case gl.INT_VEC2: gl.uniform2iv(location, v); break;
+            case gl.INT_VEC3: gl.uniform3iv(location, v); break;
+            case gl.INT_VEC4: gl.uniform4iv(location, v); break;
+            default: gl.uniform1iv(location, v); // int, bool, samplers
+        }
+    }
+
+    public setAll(values: Record<string, UniformValue>) {
+        Object.entries(values).forEach(([name, value]) => this.set(name, value));
+    }
+
+    public dispose() {
+        this.gl.deleteProgram(this.program);
+        this.uniforms.clear();
+    }
+}
+
+function compileShader(gl: WebGL2RenderingContext, type: number, source: string): WebGLShader {
+    const shader = gl.createShader(type)!;
+    gl.shaderSource(shader, source);
+    gl.compileShader(shader);
+    if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
+        const log = gl.getShaderInfoLog(shader)!;
+        gl.deleteShader(shader);
+        throw new Error(log);
+    }
+    return shader;
+}
@@ -0,0 +1,71 @@
+import type { MotionControls } from './motion-engine';
+
+// ─────────────────────────────────────────────────────────────
+// Morphology planning — expands the morphology controls into the
+// elementary erode/dilate passes both engines run. Large squares
+// and disks are decomposed into 1D line passes.
+// ─────────────────────────────────────────────────────────────
+
+/** Largest structuring-element radius, matches the morphology shader. */
+export const MAX_MORPH_RADIUS = 8;
+/** Most times the structuring element is applied per erode/dilate. */
+export const MAX_MORPH_ITERATIONS = 4;
+// Above this radius squares and disks run as line passes
+const SEPARABLE_RADIUS = 3;
+
+/**
+ * Row then column sweeps of the hole fill, alternating. Each sweep spreads
+ * "outside" (connected to the frame border through still pixels) along whole
+ * runs of still pixels, so a gap is kept open when some path to it from the
+ * border has at most this many straight legs; deeper pockets are filled.
+ */
+export const HOLE_FILL_SWEEPS = 4;
+
+export type MorphType = 'erode' | 'dilate';
+
+export interface MorphStep {
+    type: MorphType;
+    shape: 'square' | 'disk' | 'cross' | 'line';
+    radius: number;
+    /** Texel step along the line, only for the 'line' shape. */
+    direction: [number, number];
+}
+
+const line = (type: MorphType, radius: number, direction: [number, number]): MorphStep =>
+    ({ type, shape: 'line', radius, direction });
+
+/** One application of the structuring element. */
+const structuringSteps = (type: MorphType, controls: MotionControls): MorphStep[] => {
+    const radius = Math.min(Math.max(Math.round(controls.morphologyRadius), 1), MAX_MORPH_RADIUS);
+
+    if (radius > SEPARABLE_RADIUS && controls.morphologyShape === 'square') {
+        return [line(type, radius, [1, 0]), line(type, radius, [0, 1])];
+    }
+    if (radius > SEPARABLE_RADIUS && controls.morphologyShape === 'disk') {
+        // Regular octagon as the Minkowski sum of axis and diagonal segments
+        const axis = Math.round(radius * (Math.SQRT2 - 1));
+        const diagonal = Math.round(radius * (1 - Math.SQRT1_2));
+        return [
+            line(type, axis, [1, 0]),
+            line(type, axis, [0, 1]),
+            line(type, diagonal, [1, 1]),
+            line(type, diagonal, [1, -1]),
+        ];
+    }
+
+    return [{ type, shape: controls.morphologyShape, radius, direction: [0, 0] }];
+};
+
+/** Erosion or dilation by the configured element, repeated morphologyIterations times. */
+export function morphSteps(type: MorphType, controls: MotionControls): MorphStep[] {
+    const iterations = Math.min(Math.max(Math.round(controls.morphologyIterations), 1), MAX_MORPH_ITERATIONS);
+    const steps = structuringSteps(type, controls);
+    return Array.from({ length: iterations }, () => steps).flat();
+}
+
+/** Open = erode → dilate, close = dilate → erode. */
+export function openCloseSteps(kind: 'open' | 'close', controls: MotionControls): MorphStep[] {
+    const erode = morphSteps('erode', controls);
+    const dilate = morphSteps('dilate', controls);
+    return kind === 'open' ? [...erode, ...dilate] : [...dilate, ...erode];
+}
@@ -1,66 +1,389 @@
 
 import {
     vertexShaderSource,
+    resampleFragmentSource,
+    gaussianBlurFragmentSource,
     backgroundSubtractionFragmentSource,
     morphologyFragmentSource,
-    outputFragmentSource
+    flowGradientFragmentSource,
+    opticalFlowFragmentSource,
+    frameDelayFragmentSource,
+    mogFragmentSource,
+    mogMaskFragmentSource,
+    holeFillFragmentSource,
+    statsReductionFragmentSource,
+    accumulateFragmentSource,
+    presentFragmentSource,
+    exposureFragmentSource,
+    exposureColorFragmentSource
 } from './shaders';
+import { BlobTracker, TrackedBlob } from './blob-tracker';
+import { PassTimer, PassTimings } from './pass-timer';
+import { GLProgram, QUAD_ATTRIBUTES, UniformValue } from './gl-program';
+import { CustomPass, DrawPass, Pass, PassGraph, PingPong, drawPass, executePassGraph, pingPong } from './pass-graph';
+import { ZoneMask } from './zone-mask';
+import type { MotionPipeline } from './motion-pipeline';
+import { HOLE_FILL_SWEEPS, MorphStep, morphSteps, openCloseSteps } from './morphology';
+import {
+    MotionEffect,
+    EffectParams,
+    EffectDiagnostic,
+    BUILTIN_EFFECTS,
+    buildEffectFragmentSource,
+    parseEffectInfoLog,
+    effectParam
+} from './effects';
 
 export interface MotionControls {
-    detectionMode: 'color' | 'luminance';
+    detectionMode: 'color' | 'luminance' | 'opticalFlow' | 'frameDelay';
     detectionThreshold: number;
-    processingResolution: number;
-    noiseReduction: number; // Handled via CSS blur or separate pass? CSS is faster/easier for pre-blur.
+    processingResolution: number; // Detection runs at this fraction of the engine size (0.1-1)
+    noiseReduction: number; // Gaussian pre-blur σ in processing pixels, 0 = off
     adaptationRate: number;
-    morphology: 'none' | 'open' | 'close';
-    effect: 'classic' | 'colorBurn' | 'electricTrails' | 'heatmap' | 'chromatic';
+    morphology: 'none' | 'open' | 'close' | 'gradient' | 'topHat' | 'fillHoles';
+    morphologyShape: 'square' | 'disk' | 'cross'; // Structuring element
+    morphologyRadius: number; // 1 - MAX_MORPH_RADIUS
+    morphologyIterations: number; // Erode/dilate repeats (1 - MAX_MORPH_ITERATIONS)
+    effect: string; // Name of a registered MotionEffect; unknown names fall back to the first one
+    effectParams: EffectParams; // Uniform values per effect, defaults where missing
     invert: boolean;
-    persistence: number;
+    persistence: number; // Fraction of the trail buffer kept per frame, for persistence effects
+    accumulationMode: 'additive' | 'max'; // How each frame is folded into the trail buffer
+    blobTracking: boolean;
+    blobMinArea: number; // Fraction of the frame a blob must cover
+    freezeOutsideZones: boolean; // Stop background adaptation where zones disable detection
+    frameOffset: number; // Frames between current and delayed frame (1 - MAX_FRAME_OFFSET)
+    frameOffsetTaps: number; // Past frames blended, evenly spaced up to frameOffset (1-4)
+    backgroundModel: 'single' | 'mog'; // One running Gaussian, or a mixture of Gaussians per pixel
+    shadowDetection: boolean; // Shadows (darker, same hue) don't count as motion
+    illuminationCompensation: boolean; // Re-adapt quickly when most of the frame changes at once
+}
+
+/**
+ * A frame to process: the video element itself on the main thread, or a
+ * WebCodecs frame in a worker, which has no media elements.
+ */
+export type FrameSource = HTMLVideoElement | VideoFrame;
+
+/** Size of the decoded frame, which follows the source, not the canvas. */
+export const frameSize = (frame: FrameSource) => ('videoWidth' in frame
+    ? { width: frame.videoWidth, height: frame.videoHeight }
+    : { width: frame.displayWidth, height: frame.displayHeight });
+
+/**
+ * Per-frame summary of the post-morphology mask. Coordinates are normalized
+ * to [0, 1] with the origin at the top-left of the frame.
+ */
+export interface MotionStats {
+    frame: number;
+    /** Fraction of pixels whose mask is at or above MOTION_THRESHOLD. */
+    movingFraction: number;
+    /** Mean soft-mask value over the whole frame. */
+    meanIntensity: number;
+    /** Mask-weighted centroid, null when the mask is empty. */
+    centroid: { x: number; y: number } | null;
+    /** Bounds of the moving pixels, null when none are moving. */
+    boundingBox: { x: number; y: number; width: number; height: number } | null;
 }
 
-export class MotionEngine {
+/** Mask value above which a pixel counts as "moving" for stats. */
+export const MOTION_THRESHOLD = 0.5;
+
+const FLOW_WINDOW_RADIUS = 3;  // 7×7 Lucas–Kanade window
+const FLOW_MIN_EIGEN = 0.001;  // Structure-tensor eigenvalue below which flow is unreliable
+const FLOW_DISPLAY_SCALE = 4.0; // px/frame at full brightness in the flow effect
+
+/** Depth of the frame-history ring; bounds MotionControls.frameOffset. */
+export const MAX_FRAME_OFFSET = 30;
+const MAX_FRAME_TAPS = 4; // Matches u_delayed0..3
+
+/** Moving fraction above which a frame is treated as a global illumination change. */
+export const RELIGHT_MOVING_FRACTION = 0.6;
+/** Adaptation rate forced on every pixel while relighting. */
+export const RELIGHT_ADAPTATION_RATE = 0.2;
+/** Frames the boost lasts after the last global change was seen. */
+export const RELIGHT_FRAMES = 20;
+/** Frames a reset background model learns at the relight rate with motion hidden. */
+export const BACKGROUND_WARM_UP_FRAMES = 10;
+
+// Float background snapshots: a Uint32 header, then mean and variance as RGBA32F, rows bottom-up
+const BACKGROUND_MAGIC = 0x4742584d; // 'MXBG' read little-endian
+const BACKGROUND_VERSION = 1;
+const BACKGROUND_HEADER_WORDS = 5; // magic, version, width, height, flags
+const BACKGROUND_FLAG_LUMA = 1; // Only mean.r is meaningful (luminance detection)
+
+// Inverse of packUnit16 in the shaders, for byte pairs read back as [0, 1] floats
+const unpackUnit16 = (hi: number, lo: number) => (Math.round(hi * 255) * 256 + Math.round(lo * 255)) / 65535;
+
+const FRAMEBUFFER_STATUS: Record<number, string> = {
+    [WebGL2RenderingContext.FRAMEBUFFER_INCOMPLETE_ATTACHMENT]: 'incomplete attachment',
+    [WebGL2RenderingContext.FRAMEBUFFER_INCOMPLETE_MISSING_ATTACHMENT]: 'missing attachment',
+    [WebGL2RenderingContext.FRAMEBUFFER_INCOMPLETE_DIMENSIONS]: 'mismatched attachment sizes',
+    [WebGL2RenderingContext.FRAMEBUFFER_UNSUPPORTED]: 'unsupported attachment format',
+    [WebGL2RenderingContext.FRAMEBUFFER_INCOMPLETE_MULTISAMPLE]: 'mismatched multisampling',
+};
+
+const STATS_BLOCK = 4; // Texels reduced per axis per pass, matches the shader loop
+
+/** Lowest MotionControls.processingResolution honored. */
+export const MIN_PROCESSING_RESOLUTION = 0.1;
+const MAX_BLUR_RADIUS = 16; // Taps per side, matches the blur shader loop
+/** Highest MotionControls.noiseReduction; 3σ still fits in MAX_BLUR_RADIUS taps. */
+export const MAX_NOISE_REDUCTION = 5;
+
+/**
+ * Precision of the engine's render targets, best first. Half floats keep every
+ * feature; RGBA8 packs the background model and exposure into byte pairs and
+ * has no optical flow or mixture model (those fall back to background
+ * subtraction with a single Gaussian).
+ */
+export type RenderTargetFormat = 'rgba32f' | 'rgba16f' | 'rgba8';
+
+/**
+ * Most frames the long-exposure mean weighs equally; past that it decays like a
+ * moving average. A 1/(n + 1) step shrinks below half a unit in the last place
+ * after a few thousand frames at 16 bits, and the mean would stop moving.
+ */
+const EXPOSURE_WINDOW: Record<RenderTargetFormat, number> = { rgba32f: Infinity, rgba16f: 256, rgba8: 1024 };
+
+// Mask texture plus the framebuffer that renders into it
+interface MorphTarget {
+    tex: WebGLTexture;
+    fbo: WebGLFramebuffer;
+}
+
+// Texture the detection passes read the current frame from
+interface DetectionSource {
+    texture: WebGLTexture;
+    fbo: WebGLFramebuffer; // Blit source for the frame history
+    width: number;
+    height: number;
+}
+
+export class MotionEngine implements MotionPipeline {
     private gl: WebGL2RenderingContext;
     private width: number = 0;
     private height: number = 0;
+    // Detection size: engine size × processingResolution
+    private procWidth: number = 0;
+    private procHeight: number = 0;
+    private processingScale = 1;
+    private floatLinear = false; // RGBA32F targets can be upsampled with LINEAR filtering
+    private targetFormat: RenderTargetFormat = 'rgba32f';
+    private contextLost = false;
 
     private programs: {
-        bgSub: WebGLProgram;
-        morph: WebGLProgram;
-        output: WebGLProgram;
+        resample: GLProgram;
+        blur: GLProgram;
+        bgSub: GLProgram;
+        morph: GLProgram;
+        holeFill: GLProgram;
+        flowGradient: GLProgram;
+        flow: GLProgram;
+        frameDelay: GLProgram;
+        mog: GLProgram;
+        mogMask: GLProgram;
+        stats: GLProgram;
+        accumulate: GLProgram;
+        present: GLProgram;
+        exposure: GLProgram;
+        exposureColor: GLProgram;
     } | null = null;
 
+    // Output programs, one per registered effect
+    private effects = new Map<string, { effect: MotionEffect; program: GLProgram }>();
+
+    // Everything but video and zone is at processing size
     private textures: {
         video: WebGLTexture;
+        zone: WebGLTexture; // R8 detection-zone weight, 1×1 white when no zones
+        resampled: WebGLTexture; // RGBA8 box-filtered video, while processing is downscaled
+        blurred: [WebGLTexture, WebGLTexture]; // RGBA8 pre-blur: horizontal pass, then final
         mean: [WebGLTexture, WebGLTexture]; // Ping-pong
         variance: [WebGLTexture, WebGLTexture]; // Ping-pong
         mask: [WebGLTexture, WebGLTexture]; // Ping-pong for morphology
+        morphScratch: [WebGLTexture, WebGLTexture]; // Extra intermediates for gradient / top-hat / hole fill
+        gray: [WebGLTexture, WebGLTexture]; // Ping-pong luminance, previous frame for optical flow
+        gradients: WebGLTexture; // (Ix, Iy, It)
+        flow: WebGLTexture; // (vx, vy, magnitude) in px/frame
+        delayed: WebGLTexture; // Blend of past frames for the frameDelay mode/effect
+        exposure: [WebGLTexture, WebGLTexture]; // Ping-pong long-exposure mask mean
     } | null = null;
 
     private framebuffers: {
+        video: WebGLFramebuffer; // Wraps textures.video as a blit source
+        resample: WebGLFramebuffer;
+        blur: [WebGLFramebuffer, WebGLFramebuffer]; // blurred[i]
         bgSub: [WebGLFramebuffer, WebGLFramebuffer]; // Ping-pong
         morph: [WebGLFramebuffer, WebGLFramebuffer]; // Ping-pong
+        morphScratch: [WebGLFramebuffer, WebGLFramebuffer];
+        flowGradient: [WebGLFramebuffer, WebGLFramebuffer]; // gradients + gray[i]
+        flow: [WebGLFramebuffer, WebGLFramebuffer]; // flow + mask[i]
+        frameDelay: [WebGLFramebuffer, WebGLFramebuffer]; // delayed + mask[i]
+        exposure: [WebGLFramebuffer, WebGLFramebuffer]; // exposure[i]
     } | null = null;
 
+    // Stats reduction chain, one level per pass, last level is 1×1
+    private statsLevels: {
+        width: number;
+        height: number;
+        sums: WebGLTexture;
+        bounds: WebGLTexture;
+        fbo: WebGLFramebuffer;
+    }[] = [];
+
     private buffers: {
         quad: WebGLBuffer;
+        quadVao: WebGLVertexArrayObject; // Quad attributes at QUAD_ATTRIBUTES, shared by every program
+        statsReadback: WebGLBuffer; // PBO, read asynchronously behind a fence
+    } | null = null;
+
+    private pendingStats: { sync: WebGLSync; frame: number; pixels: number; sumScale: number } | null = null;
+    private latestStats: MotionStats | null = null;
+
+    // Blobs are labeled on the CPU from the first (¼-res) stats level
+    private blobTracker = new BlobTracker();
+    private blobReadback: WebGLBuffer | null = null;
+    private pendingBlobGrid: { sync: WebGLSync; width: number; height: number; minArea: number } | null = null;
+
+    private zoneMask: ZoneMask | null = null;
+
+    // Ring of past detection frames (RGBA8 at processing size), allocated on first use
+    private frameHistory: {
+        slots: WebGLTexture[];
+        fbos: WebGLFramebuffer[];
+        head: number; // Slot holding the newest frame
+        count: number; // Valid frames, saturates at slots.length
     } | null = null;
 
+    // Mixture-of-Gaussians model, allocated while backgroundModel is 'mog'
+    private mogModel: {
+        textures: [WebGLTexture[], WebGLTexture[]]; // Ping-pong sets of (model0, model1, model2, modelVar)
+        fbos: [WebGLFramebuffer, WebGLFramebuffer];
+        frameCount: number;
+    } | null = null;
+
+    // Trail buffers at canvas size, allocated while a persistence effect is shown
+    private accumulation: {
+        frame: WebGLTexture; // This frame's effect output
+        frameFbo: WebGLFramebuffer;
+        textures: [WebGLTexture, WebGLTexture]; // Ping-pong
+        fbos: [WebGLFramebuffer, WebGLFramebuffer];
+        index: number; // Slot holding the latest accumulation
+    } | null = null;
+
+    private exposureFrames = 0; // Frames averaged into textures.exposure since the last reset
+
+    private relightFramesLeft = 0;
+    private warmUpFramesLeft = 0; // Set by resetBackground; the first of them seeds the model outright
+    private warmUpFrames = 0;
+    private singleModelCurrent = true; // False while the single Gaussian is skipped (flow, frame delay, MOG)
+    private backgroundFrozen = false;
+    private backgroundIsLuma = true; // Detection mode of the last frame: mean holds luminance in .r only
+    private relightCheckedFrame = -1;
+
     private pingPongIndex = 0;
+    private frameIndex = 0;
     private isInitialized = false;
 
-    constructor(canvas: HTMLCanvasElement) {
+    private timer: PassTimer;
+    private videoTextureBytes = 0; // Size of the last uploaded frame, which follows the video, not the canvas
+
+    /** `canvas` may be an OffscreenCanvas when the engine runs in a worker. */
+    constructor(private canvas: HTMLCanvasElement | OffscreenCanvas) {
         const gl = canvas.getContext('webgl2', {
             premultipliedAlpha: false,
-            preserveDrawingBuffer: true // Needed for trails? Or just manual management.
+            preserveDrawingBuffer: false // Trails live in the accumulation buffer
         });
         if (!gl) {
             throw new Error('WebGL 2 not supported');
         }
         this.gl = gl;
+        this.detectCapabilities();
+        this.timer = new PassTimer(gl);
+
+        canvas.addEventListener('webglcontextlost', this.handleContextLost);
+        canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
+
+        BUILTIN_EFFECTS.forEach((effect) => this.registerEffect(effect));
+    }
+
+    /**
+     * Compiles `effect` into its own output program, replacing any effect of
+     * the same name. Throws with the GLSL info log if it does not compile.
+     */
+    public registerEffect(effect: MotionEffect) {
+        if (this.contextLost) throw new Error('WebGL context lost; effects can be compiled again once it is restored');
+        const program = new GLProgram(this.gl, vertexShaderSource, buildEffectFragmentSource(effect));
+        this.effects.get(effect.name)?.program.dispose();
+        this.effects.set(effect.name, { effect, program });
+    }
+
+    /**
+     * Like registerEffect, but reports compile errors instead of throwing so
+     * the live editor can show them; the previous program stays in place.
+     */
+    public compileEffect(effect: MotionEffect): EffectDiagnostic[] {
+        try {
+            this.registerEffect(effect);
+            return [];
+        } catch (e) {
+            return parseEffectInfoLog(e instanceof Error ? e.message : String(e), effect);
+        }
+    }
 
-        // Enable floating point textures for precision
-        gl.getExtension('EXT_color_buffer_float');
-        gl.getExtension('OES_texture_float_linear'); // Optional but good
+    public unregisterEffect(name: string) {
+        const entry = this.effects.get(name);
+        if (!entry) return;
+        entry.program.dispose();
+        this.effects.delete(name);
+    }
+
+    /** Registered effects in registration order. */
+    public getEffects(): MotionEffect[] {
+        return [...this.effects.values()].map(({ effect }) => effect);
+    }
+
+    /** Render target precision picked for this GPU. */
+    public getRenderTargetFormat(): RenderTargetFormat {
+        return this.targetFormat;
+    }
+
+    /** True from a context loss until the rebuild after the restore succeeds. */
+    public isContextLost(): boolean {
+        return this.contextLost;
+    }
+
+    /** True once init has built the GPU resources, until they are lost or disposed; render is a no-op otherwise. */
+    public isReady(): boolean {
+        return this.isInitialized;
+    }
+
+    /** Times each render stage while on; off by default since the queries cost a little. */
+    public setProfiling(enabled: boolean) {
+        this.timer.setEnabled(enabled);
+    }
+
+    /** Per-stage timings over recent frames while profiling; null until the first result. */
+    public getPassTimings(): PassTimings | null {
+        return this.timer.isEnabled() ? this.timer.getTimings() : null;
+    }
+
+    /** Bytes of texture storage the engine holds right now (estimated from sizes and formats). */
+    public getTextureMemory(): number {
+        if (!this.textures) return 0;
+        const texel = { rgba32f: 16, rgba16f: 8, rgba8: 4 }[this.targetFormat];
+        const proc = this.procWidth * this.procHeight;
+        // mean, variance, mask, morphScratch, gray and exposure ping-pong; gradients, flow, delayed
+        let bytes = (6 * 2 + 3) * proc * texel;
+        bytes += 3 * proc * 4; // Resample and pre-blur, RGBA8
+        bytes += this.videoTextureBytes;
+        bytes += this.zoneMask ? this.zoneMask.width * this.zoneMask.height : 1; // R8
+        this.statsLevels.forEach((level) => { bytes += 2 * level.width * level.height * texel; });
+        if (this.frameHistory) bytes += this.frameHistory.slots.length * proc * 4;
+        if (this.mogModel) bytes += this.mogModel.textures.flat().length * proc * texel;
+        if (this.accumulation) bytes += 3 * this.width * this.height * texel;
+        return bytes;
     }
 
     public getGPUInfo(): string {
@@ -71,9 +394,262 @@ export class MotionEngine {
         return this.gl.getParameter(this.gl.RENDERER);
     }
 
+    /**
+     * Latest resolved stats. Readback is asynchronous, so this usually lags
+     * the displayed frame by one or two frames; null until the first result.
+     */
+    public getMotionStats(): MotionStats | null {
+        this.pollStatsReadback();
+        return this.latestStats;
+    }
+
+    /** Tracked blobs as of the latest resolved grid readback; empty while tracking is off. */
+    public getBlobs(): TrackedBlob[] {
+        this.pollBlobReadback();
+        return this.blobTracker.getBlobs();
+    }
+
+    /** Rasterized include/exclude zones (see rasterizeZones); null disables zoning. */
+    public setZoneMask(mask: ZoneMask | null) {
+        this.zoneMask = mask;
+        if (this.textures) this.uploadZoneMask();
+    }
+
+    /** Clears the long-exposure heatmap; the average restarts from the next frame. */
+    public resetExposure() {
+        const textures = this.textures;
+        if (!textures) return;
+        const gl = this.gl;
+        this.framebuffers!.exposure.forEach((fbo) => {
+            gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+            gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 0]);
+        });
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        this.exposureFrames = 0;
+    }
+
+    /** Frames averaged into the long-exposure heatmap since the last reset. */
+    public getExposureFrames(): number {
+        return this.exposureFrames;
+    }
+
+    /**
+     * Renders the long-exposure heatmap at processing size as a PNG,
+     * normalized so the pixel that moved most is white-hot.
+     */
+    public async exportExposurePNG(): Promise<Blob> {
+        if (!this.isInitialized) throw new Error('MotionEngine not initialized');
+        const gl = this.gl;
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const exposure = this.textures!.exposure[this.pingPongIndex];
+        const packed = this.targetFormat === 'rgba8';
+
+        // Peak fraction for normalization (one-off synchronous readback)
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.exposure[this.pingPongIndex]);
+        const fractions = this.readPixelsFloat(w, h);
+        let peak = 0;
+        for (let i = 0; i < fractions.length; i += 4) {
+            peak = Math.max(peak, packed ? unpackUnit16(fractions[i], fractions[i + 1]) : fractions[i]);
+        }
+
+        const target = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, target);
+        gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, w, h);
+        const fbo = gl.createFramebuffer()!;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, target, 0);
+
+        const program = this.programs!.exposureColor;
+        program.use();
+        gl.bindVertexArray(this.buffers!.quadVao);
+        drawPass(gl, {
+            name: 'exposure color',
+            program,
+            target: fbo,
+            size: { width: w, height: h },
+            inputs: { u_exposure: exposure },
+            uniforms: { u_scale: peak > 0 ? 1 / peak : 0, u_packedTargets: packed },
+        });
+        gl.bindVertexArray(null);
+
+        const pixels = new Uint8ClampedArray(w * h * 4);
+        gl.readPixels(0, 0, w, h, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.deleteFramebuffer(fbo);
+        gl.deleteTexture(target);
+
+        // Texture rows run bottom-up
+        const image = new ImageData(w, h);
+        const rowBytes = w * 4;
+        for (let y = 0; y < h; y++) {
+            image.data.set(pixels.subarray((h - 1 - y) * rowBytes, (h - y) * rowBytes), y * rowBytes);
+        }
+        const canvas = new OffscreenCanvas(w, h);
+        canvas.getContext('2d')!.putImageData(image, 0, 0);
+        return canvas.convertToBlob({ type: 'image/png' });
+    }
+
+    /**
+     * Re-learns the background from the next frame, e.g. after a seek. Motion
+     * is hidden for `warmUpFrames` while the model settles on the new scene.
+     */
+    public resetBackground(warmUpFrames = BACKGROUND_WARM_UP_FRAMES) {
+        this.warmUpFrames = this.warmUpFramesLeft = Math.max(1, warmUpFrames);
+        if (this.mogModel) this.mogModel.frameCount = 0;
+        if (this.frameHistory) this.frameHistory.count = 0;
+    }
+
+    /** Seeds the background model from the next frame rendered. */
+    public initBackgroundFromFrame() {
+        this.resetBackground(1);
+    }
+
+    /** Zeroes the background model as on startup; everything reads as motion until it adapts. */
+    public clearBackground() {
+        if (!this.textures) return;
+        const gl = this.gl;
+        this.framebuffers!.bgSub.forEach((fbo) => {
+            gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+            gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 0]); // mean
+            gl.clearBufferfv(gl.COLOR, 1, [0, 0, 0, 0]); // variance
+        });
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        this.releaseMogModel();
+        this.warmUpFramesLeft = 0;
+    }
+
+    /** Stops the background from adapting; resets and warm-ups still apply. */
+    public setBackgroundFrozen(frozen: boolean) {
+        this.backgroundFrozen = frozen;
+    }
+
+    public isBackgroundFrozen(): boolean {
+        return this.backgroundFrozen;
+    }
+
+    /**
+     * Snapshots the single-Gaussian background model. 'png' is the mean as an
+     * image; 'float' keeps mean and variance exactly, for importBackground.
+     */
+    public async exportBackground(format: 'png' | 'float'): Promise<Blob> {
+        if (!this.isInitialized) throw new Error('MotionEngine not initialized');
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const { mean, variance } = this.readBackgroundModel();
+
+        if (format === 'float') {
+            const header = new Uint32Array([
+                BACKGROUND_MAGIC, BACKGROUND_VERSION, w, h, this.backgroundIsLuma ? BACKGROUND_FLAG_LUMA : 0,
+            ]);
+            return new Blob([header, mean, variance], { type: 'application/octet-stream' });
+        }
+
+        // Texture rows run bottom-up
+        const image = new ImageData(w, h);
+        for (let y = 0; y < h; y++) {
+            for (let x = 0; x < w; x++) {
+                const src = ((h - 1 - y) * w + x) * 4;
+                const dst = (y * w + x) * 4;
+                for (let c = 0; c < 3; c++) {
+                    image.data[dst + c] = Math.round(mean[this.backgroundIsLuma ? src : src + c] * 255);
+                }
+                image.data[dst + 3] = 255;
+            }
+        }
+        const canvas = new OffscreenCanvas(w, h);
+        canvas.getContext('2d')!.putImageData(image, 0, 0);
+        return canvas.convertToBlob({ type: 'image/png' });
+    }
+
+    /**
+     * Loads a snapshot from exportBackground, or any image as the mean (scaled
+     * to the processing size, variance starting at the floor). Float snapshots
+     * must match the processing size.
+     */
+    public async importBackground(blob: Blob): Promise<void> {
+        if (!this.isInitialized) throw new Error('MotionEngine not initialized');
+        const w = this.procWidth;
+        const h = this.procHeight;
+        const buffer = await blob.arrayBuffer();
+        const header = buffer.byteLength >= BACKGROUND_HEADER_WORDS * 4
+            ? new Uint32Array(buffer, 0, BACKGROUND_HEADER_WORDS)
+            : null;
+
+        let mean: Float32Array;
+        let variance: Float32Array;
+        if (header?.[0] === BACKGROUND_MAGIC) {
+            const [, version, width, height] = header;
+            if (version !== BACKGROUND_VERSION) throw new Error(`Unsupported background snapshot version ${version}`);
+            if (width !== w || height !== h) {
+                throw new Error(`Background is ${width}×${height} but detection runs at ${w}×${h}`);
+            }
+            const texels = w * h * 4;
+            if (buffer.byteLength !== (BACKGROUND_HEADER_WORDS + texels * 2) * 4) throw new Error('Background snapshot is truncated');
+            mean = new Float32Array(buffer, BACKGROUND_HEADER_WORDS * 4, texels);
+            variance = new Float32Array(buffer, (BACKGROUND_HEADER_WORDS + texels) * 4, texels);
+        } else {
+            const bitmap = await createImageBitmap(blob);
+            const canvas = new OffscreenCanvas(w, h);
+            const ctx = canvas.getContext('2d')!;
+            ctx.drawImage(bitmap, 0, 0, w, h);
+            bitmap.close();
+            const pixels = ctx.getImageData(0, 0, w, h).data;
+
+            // Same layout the bgSub pass writes: luminance in .r, or rgb in color mode
+            mean = new Float32Array(w * h * 4);
+            variance = new Float32Array(w * h * 4);
+            for (let y = 0; y < h; y++) {
+                for (let x = 0; x < w; x++) {
+                    const src = ((h - 1 - y) * w + x) * 4;
+                    const dst = (y * w + x) * 4;
+                    const [r, g, b] = [pixels[src] / 255, pixels[src + 1] / 255, pixels[src + 2] / 255];
+                    mean.set(this.backgroundIsLuma ? [0.299 * r + 0.587 * g + 0.114 * b, 0, 0, 1] : [r, g, b, 1], dst);
+                    variance[dst + 3] = 1;
+                }
+            }
+        }
+
+        const gl = this.gl;
+        const textures = this.textures!;
+        let meanData: ArrayBufferView = mean;
+        let varianceData: ArrayBufferView = variance;
+        let type: number = gl.FLOAT; // Also accepted by RGBA16F
+        if (this.targetFormat === 'rgba8') {
+            // Same split as the bgSub shader: high bytes of (mean.rgb, variance) in mean, low bytes in variance
+            const hi = new Uint8Array(w * h * 4);
+            const lo = new Uint8Array(w * h * 4);
+            for (let i = 0; i < w * h; i++) {
+                [mean[i * 4], mean[i * 4 + 1], mean[i * 4 + 2], variance[i * 4]].forEach((v, c) => {
+                    const q = Math.round(Math.min(Math.max(v, 0), 1) * 65535);
+                    hi[i * 4 + c] = q >> 8;
+                    lo[i * 4 + c] = q & 0xff;
+                });
+            }
+            meanData = hi;
+            varianceData = lo;
+            type = gl.UNSIGNED_BYTE;
+        }
+        [0, 1].forEach((i) => {
+            gl.bindTexture(gl.TEXTURE_2D, textures.mean[i]);
+            gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, w, h, gl.RGBA, type, meanData);
+            gl.bindTexture(gl.TEXTURE_2D, textures.variance[i]);
+            gl.texSubImage2D(gl.TEXTURE_2D, 0, 0, 0, w, h, gl.RGBA, type, varianceData);
+        });
+        // A loaded model is used as-is, not re-seeded
+        this.warmUpFramesLeft = 0;
+    }
+
+    /** True while a global illumination change is being absorbed into the model. */
+    public isRelighting(): boolean {
+        return this.relightFramesLeft > 0;
+    }
+
     public init(width: number, height: number) {
         this.width = width;
         this.height = height;
+        this.updateProcessingSize();
+        if (this.contextLost) return; // Built once the context is restored
 
         this.createPrograms();
         this.createBuffers();
@@ -86,183 +662,1039 @@ export class MotionEngine {
         if (this.width !== width || this.height !== height) {
             this.width = width;
             this.height = height;
-            this.createTexturesAndFBOs(); // Recreate textures
+            this.updateProcessingSize();
+            if (this.isInitialized) this.createTexturesAndFBOs(); // Recreate textures
         }
     }
 
-    public render(video: HTMLVideoElement, controls: MotionControls) {
-        if (!this.isInitialized) return;
+    /** Frees every GL resource and loses the context; the engine cannot be used afterwards. */
+    public dispose() {
+        const gl = this.gl;
+        this.isInitialized = false;
+        this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+        this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+
+        if (this.pendingStats) {
+            gl.deleteSync(this.pendingStats.sync);
+            this.pendingStats = null;
+        }
+        this.discardBlobReadback();
+        this.timer.dispose();
+        this.releaseTexturesAndFBOs();
+        this.releaseFrameHistory();
+        this.releaseMogModel();
+        this.releaseAccumulation();
+
+        if (this.programs) {
+            Object.values(this.programs).forEach((program) => program.dispose());
+            this.programs = null;
+        }
+        this.effects.forEach(({ program }) => program.dispose());
+        this.effects.clear();
+        if (this.buffers) {
+            gl.deleteVertexArray(this.buffers.quadVao);
+            gl.deleteBuffer(this.buffers.quad);
+            gl.deleteBuffer(this.buffers.statsReadback);
+            this.buffers = null;
+        }
+        if (this.blobReadback) {
+            gl.deleteBuffer(this.blobReadback);
+            this.blobReadback = null;
+        }
+
+        // Browsers cap live WebGL contexts, so give this one back now rather than at GC
+        gl.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+
+    // Browser dropped the context (GPU reset, driver update, too many contexts); every handle is now dead
+    private handleContextLost = (e: Event) => {
+        e.preventDefault(); // Without this the browser never restores it
+        console.warn('WebGL context lost; waiting for restore');
+        this.contextLost = true;
+        this.isInitialized = false;
+
+        this.programs = null;
+        this.textures = null;
+        this.framebuffers = null;
+        this.statsLevels = [];
+        this.buffers = null;
+        this.pendingStats = null;
+        this.blobReadback = null;
+        this.pendingBlobGrid = null;
+        this.blobTracker.reset();
+        this.frameHistory = null;
+        this.mogModel = null;
+        this.accumulation = null;
+        this.exposureFrames = 0;
+        this.pingPongIndex = 0;
+        this.timer.reset();
+    };
+
+    private handleContextRestored = () => {
+        this.contextLost = false;
+        try {
+            this.detectCapabilities();
+            // Extension objects belong to the old context
+            const profiling = this.timer.isEnabled();
+            this.timer = new PassTimer(this.gl);
+            this.timer.setEnabled(profiling);
+            this.effects.forEach(({ effect }, name) => {
+                try {
+                    this.registerEffect(effect);
+                } catch (e) {
+                    console.warn(`Dropping effect "${name}" that no longer compiles:`, e);
+                    this.effects.delete(name);
+                }
+            });
+            if (this.width > 0 && this.height > 0) {
+                this.createPrograms();
+                this.createBuffers();
+                this.createTexturesAndFBOs();
+                this.isInitialized = true;
+                this.resetBackground();
+            }
+            console.info('WebGL context restored');
+        } catch (e) {
+            this.contextLost = true;
+            this.isInitialized = false;
+            console.error('Could not rebuild after WebGL context restore:', e);
+        }
+    };
 
+    // Picks the most precise color-renderable format; called again after a restore since the GPU may differ
+    private detectCapabilities() {
         const gl = this.gl;
-        const idx = this.pingPongIndex;
-        const nextIdx = (idx + 1) % 2;
+        const hasFloat = !!gl.getExtension('EXT_color_buffer_float');
+        const hasHalfFloat = !!gl.getExtension('EXT_color_buffer_half_float');
+        // Optional; without it RGBA32F masks are upsampled with NEAREST
+        this.floatLinear = !!gl.getExtension('OES_texture_float_linear');
+
+        if (hasFloat && this.isRenderable(gl.RGBA32F, gl.FLOAT)) {
+            this.targetFormat = 'rgba32f';
+        } else if ((hasFloat || hasHalfFloat) && this.isRenderable(gl.RGBA16F, gl.HALF_FLOAT)) {
+            this.targetFormat = 'rgba16f';
+        } else {
+            this.targetFormat = 'rgba8';
+        }
+        if (this.targetFormat !== 'rgba32f') {
+            console.warn(`RGBA32F render targets unavailable, using ${this.targetFormat.toUpperCase()}`);
+        }
+    }
 
-        gl.viewport(0, 0, this.width, this.height);
+    private isRenderable(internalFormat: number, type: number): boolean {
+        const gl = this.gl;
+        const tex = gl.createTexture();
+        const fbo = gl.createFramebuffer();
+        gl.bindTexture(gl.TEXTURE_2D, tex);
+        gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, 4, 4, 0, gl.RGBA, type, null);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+        gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, tex, 0);
+        const complete = gl.checkFramebufferStatus(gl.FRAMEBUFFER) === gl.FRAMEBUFFER_COMPLETE;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+        gl.deleteFramebuffer(fbo);
+        gl.deleteTexture(tex);
+        return complete;
+    }
+
+    // Intermediate texture in the detected render target format
+    private createRenderTarget(width: number, height: number, filter: number): WebGLTexture {
+        const gl = this.gl;
+        const [internalFormat, type] = {
+            rgba32f: [gl.RGBA32F, gl.FLOAT],
+            rgba16f: [gl.RGBA16F, gl.HALF_FLOAT],
+            rgba8: [gl.RGBA8, gl.UNSIGNED_BYTE],
+        }[this.targetFormat];
+        const tex = gl.createTexture()!;
+        gl.bindTexture(gl.TEXTURE_2D, tex);
+        gl.texImage2D(gl.TEXTURE_2D, 0, internalFormat, width, height, 0, gl.RGBA, type, null);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+        return tex;
+    }
+
+    // Throws if the bound framebuffer can't be rendered to, naming the pass and target format
+    private checkFramebuffer(name: string) {
+        const gl = this.gl;
+        const status = gl.checkFramebufferStatus(gl.FRAMEBUFFER);
+        if (status === gl.FRAMEBUFFER_COMPLETE) return;
+        const reason = FRAMEBUFFER_STATUS[status] ?? `status 0x${status.toString(16)}`;
+        throw new Error(`${name} framebuffer is incomplete (${reason}) with ${this.targetFormat.toUpperCase()} targets`);
+    }
+
+    private updateProcessingSize() {
+        this.procWidth = Math.max(1, Math.round(this.width * this.processingScale));
+        this.procHeight = Math.max(1, Math.round(this.height * this.processingScale));
+    }
+
+    public render(video: FrameSource, controls: MotionControls) {
+        if (!this.isInitialized) return;
+
+        // Detection textures are sized by the scale, so a new scale starts the model over
+        const scale = Math.min(Math.max(controls.processingResolution, MIN_PROCESSING_RESOLUTION), 1);
+        if (scale !== this.processingScale) {
+            this.processingScale = scale;
+            this.updateProcessingSize();
+            this.createTexturesAndFBOs();
+        }
+
+        const frame = pingPong(this.pingPongIndex);
+        executePassGraph(this.gl, this.buildPassGraph(video, controls, frame), this.buffers!.quadVao, this.timer);
+
+        // Cleanup / Swap
+        this.pingPongIndex = (this.pingPongIndex + 1) % 2;
+        this.frameIndex++;
+    }
+
+    /**
+     * Describes this frame. Resources that only some settings need (MOG model,
+     * frame history, trail buffer) are allocated or released here, and
+     * per-frame counters advance as their passes are added.
+     */
+    private buildPassGraph(video: FrameSource, controls: MotionControls, frame: PingPong): PassGraph {
+        const textures = this.textures!;
+        const { effect, program: outputProgram } = this.resolveEffect(controls.effect);
 
         // 1. Update Video Texture (flip Y to match WebGL coordinate system)
-        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 1);
-        gl.activeTexture(gl.TEXTURE0);
-        gl.bindTexture(gl.TEXTURE_2D, this.textures!.video);
-        gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, video);
-        gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0); // Reset for internal textures
+        const upload: CustomPass = {
+            name: 'video upload',
+            run: () => {
+                const gl = this.gl;
+                gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 1);
+                gl.activeTexture(gl.TEXTURE0);
+                gl.bindTexture(gl.TEXTURE_2D, textures.video);
+                gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, video);
+                gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0); // Reset for internal textures
+            },
+        };
+        const { width: videoWidth, height: videoHeight } = frameSize(video);
+        this.videoTextureBytes = videoWidth * videoHeight * 4;
 
-        // 2. Background Subtraction Pass
-        gl.useProgram(this.programs!.bgSub);
-        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.bgSub[nextIdx]);
+        // 2. Detection Passes — write the raw mask into mask[write]
+        const { source, passes: detection } = this.preBlurPasses(video, controls);
+        // RGBA8 targets can't hold signed gradients or the mixture, see RenderTargetFormat
+        const hasFloatTargets = this.targetFormat !== 'rgba8';
+        const isFlowMode = controls.detectionMode === 'opticalFlow' && hasFloatTargets;
+        const isDelayMode = controls.detectionMode === 'frameDelay';
+        const useMog = controls.backgroundModel === 'mog' && hasFloatTargets;
+        // Frames without the update still flip the ping-pong, so the two halves of the model disagree by then
+        const updatesSingleModel = !isFlowMode && !isDelayMode && !useMog;
+        if (updatesSingleModel && !this.singleModelCurrent) this.resetBackground();
+        this.singleModelCurrent = updatesSingleModel;
+        const relightRate = this.warmUpFramesLeft > 0
+            ? this.warmUpRate()
+            : this.backgroundFrozen ? 0 : this.updateRelight(controls);
+        this.backgroundIsLuma = controls.detectionMode !== 'color';
+        if (!isFlowMode && !isDelayMode) {
+            detection.push(...(useMog
+                ? this.mogPasses(source.texture, frame, controls, relightRate)
+                : [this.backgroundSubtractionPass(source.texture, frame, controls, relightRate)]));
+        }
+        if (!useMog && this.mogModel) {
+            this.releaseMogModel();
+        }
+        if (isFlowMode || (hasFloatTargets && effect.inputs?.includes('flow'))) {
+            detection.push(...this.opticalFlowPasses(source.texture, frame, controls, isFlowMode));
+        }
+        if (isDelayMode || effect.inputs?.includes('delayed')) {
+            detection.push(this.pushFrameHistory(source));
+            detection.push(this.frameDelayPass(source.texture, frame, controls, isDelayMode));
+        } else if (this.frameHistory) {
+            this.releaseFrameHistory();
+        }
+        if (this.warmUpFramesLeft > 0) {
+            this.warmUpFramesLeft--;
+            const fbo = frame.write(this.framebuffers!.morph);
+            detection.push({
+                name: 'warm-up clear',
+                run: () => {
+                    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, fbo);
+                    this.gl.clearBufferfv(this.gl.COLOR, 0, [0, 0, 0, 1]);
+                },
+            });
+        }
 
-        // Inputs
-        gl.activeTexture(gl.TEXTURE0);
-        gl.bindTexture(gl.TEXTURE_2D, this.textures!.video);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.bgSub, 'u_image'), 0);
+        // 3. Morphology Passes (Optional) — the result may land in a scratch mask
+        const morphology = this.morphologyPasses(frame, controls);
+        const maskTex = morphology.output;
 
-        gl.activeTexture(gl.TEXTURE1);
-        gl.bindTexture(gl.TEXTURE_2D, this.textures!.mean[idx]);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.bgSub, 'u_backgroundMean'), 1);
+        // 4. Motion Stats Reduction (reads the post-morphology mask)
+        const stats = [...this.motionStatsPasses(maskTex), this.exposurePass(maskTex, frame)];
+        if (controls.blobTracking) {
+            stats.push({ name: 'blob grid readback', run: () => this.readBlobGrid(controls.blobMinArea) });
+        } else if (this.pendingBlobGrid || this.blobTracker.getBlobs().length) {
+            this.discardBlobReadback();
+        }
 
-        gl.activeTexture(gl.TEXTURE2);
-        gl.bindTexture(gl.TEXTURE_2D, this.textures!.variance[idx]);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.bgSub, 'u_backgroundVariance'), 2);
+        // 5. Final Display Pass — upsamples the processing-size textures to the canvas.
+        // Persistence effects render offscreen and reach the screen through the trail buffer.
+        const isPersistence = !!effect.persistence;
+        if (isPersistence) {
+            this.allocateAccumulation();
+        } else if (this.accumulation) {
+            this.releaseAccumulation();
+        }
+        const output: Pass[] = [{
+            name: `effect ${effect.name}`,
+            program: outputProgram,
+            target: isPersistence ? this.accumulation!.frameFbo : null,
+            size: { width: this.width, height: this.height },
+            inputs: {
+                u_video: textures.video,
+                u_mask: maskTex,
+                u_flow: textures.flow,
+                u_delayed: textures.delayed,
+                u_exposure: frame.write(textures.exposure),
+                u_backgroundMean: frame.write(textures.mean),
+                u_backgroundVariance: frame.write(textures.variance),
+            },
+            uniforms: {
+                // Flow is measured in processing pixels
+                u_flowScale: FLOW_DISPLAY_SCALE * this.processingScale,
+                u_invert: controls.invert,
+                u_resolution: [this.width, this.height],
+                u_exposureFrames: this.exposureFrames,
+                u_backgroundLuma: this.backgroundIsLuma,
+                u_opaque: !!effect.opaque,
+                u_packedTargets: !hasFloatTargets,
+                ...this.effectUniforms(effect, controls.effectParams),
+            },
+        }];
+        if (isPersistence) {
+            output.push(...this.accumulatePasses(controls));
+        }
 
-        gl.uniform1f(gl.getUniformLocation(this.programs!.bgSub, 'u_adaptationRate'), controls.adaptationRate);
-        // UI threshold (1-50) → shader threshold (0.1-5.0)
-        gl.uniform1f(gl.getUniformLocation(this.programs!.bgSub, 'u_threshold'), controls.detectionThreshold / 10.0);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.bgSub, 'u_isColorMode'), controls.detectionMode === 'color' ? 1 : 0);
-        gl.uniform1f(gl.getUniformLocation(this.programs!.bgSub, 'u_minVariance'), 0.05); // Simplified min variance
+        return [
+            { stage: 'upload', passes: [upload] },
+            { stage: 'detection', passes: detection },
+            { stage: 'morphology', passes: morphology.passes },
+            { stage: 'stats', passes: stats },
+            { stage: 'output', passes: output },
+        ];
+    }
 
-        // Draw Quad
-        this.drawQuad();
+    // Folds the post-morphology mask into the running mean in exposure[write]
+    private exposurePass(maskTex: WebGLTexture, frame: PingPong): DrawPass {
+        const textures = this.textures!;
+        const pass: DrawPass = {
+            name: 'exposure',
+            program: this.programs!.exposure,
+            target: frame.write(this.framebuffers!.exposure),
+            size: this.processingSize(),
+            inputs: { u_mask: maskTex, u_previous: frame.read(textures.exposure) },
+            uniforms: {
+                u_weight: 1 / Math.min(this.exposureFrames + 1, EXPOSURE_WINDOW[this.targetFormat]),
+                u_packedTargets: this.targetFormat === 'rgba8',
+            },
+        };
+        this.exposureFrames++;
+        return pass;
+    }
 
+    // Folds accumulation.frame into the decaying trail buffer, then draws it to the screen
+    private accumulatePasses(controls: MotionControls): DrawPass[] {
+        const accumulation = this.accumulation!;
+        const previous = accumulation.index;
+        const next = (previous + 1) % 2;
+        accumulation.index = next;
+        const size = { width: this.width, height: this.height };
 
-        // 3. Morphology Pass (Optional)
-        let currentMaskTex = this.textures!.mask[nextIdx]; // Written by bgSub MRT
+        return [{
+            name: 'accumulate',
+            program: this.programs!.accumulate,
+            target: accumulation.fbos[next],
+            size,
+            inputs: { u_frame: accumulation.frame, u_previous: accumulation.textures[previous] },
+            uniforms: {
+                u_decay: Math.min(Math.max(controls.persistence, 0), 1),
+                u_mode: controls.accumulationMode === 'additive' ? 0 : 1,
+            },
+        }, {
+            name: 'present',
+            program: this.programs!.present,
+            target: null,
+            size,
+            inputs: { u_image: accumulation.textures[next] },
+        }];
+    }
 
-        if (controls.morphology !== 'none') {
-            // Open = Erode → Dilate, Close = Dilate → Erode
-            // Ping-pong: Input(nextIdx) → Pass1 → Output(idx) → Pass2 → Output(nextIdx)
+    private allocateAccumulation() {
+        if (this.accumulation) return;
+        const gl = this.gl;
 
-            gl.useProgram(this.programs!.morph);
+        // On RGBA8 targets additive trails saturate at white
+        const createTarget = () => {
+            const tex = this.createRenderTarget(this.width, this.height, gl.NEAREST);
+            const fbo = gl.createFramebuffer()!;
+            gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, tex, 0);
+            this.checkFramebuffer('accumulation');
+            gl.clearBufferfv(gl.COLOR, 0, [0, 0, 0, 1]);
+            return { tex, fbo };
+        };
 
-            if (controls.morphology === 'open') {
-                // Pass 1: Erode
-                gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.morph[idx]); // Output to 'idx' texture
-                gl.activeTexture(gl.TEXTURE0);
-                gl.bindTexture(gl.TEXTURE_2D, currentMaskTex);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_image'), 0);
-                gl.uniform2f(gl.getUniformLocation(this.programs!.morph, 'u_resolution'), this.width, this.height);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_type'), 0); // Erode
-                this.drawQuad();
-
-                // Pass 2: Dilate
-                gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.morph[nextIdx]); // Output back to 'nextIdx'
-                gl.activeTexture(gl.TEXTURE0);
-                gl.bindTexture(gl.TEXTURE_2D, this.textures!.mask[idx]); // Read from 'idx'
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_image'), 0);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_type'), 1); // Dilate
-                this.drawQuad();
-            } else if (controls.morphology === 'close') {
-                // Pass 1: Dilate
-                gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.morph[idx]);
-                gl.activeTexture(gl.TEXTURE0);
-                gl.bindTexture(gl.TEXTURE_2D, currentMaskTex);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_image'), 0);
-                gl.uniform2f(gl.getUniformLocation(this.programs!.morph, 'u_resolution'), this.width, this.height);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_type'), 1); // Dilate
-                this.drawQuad();
-
-                // Pass 2: Erode
-                gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.morph[nextIdx]);
-                gl.activeTexture(gl.TEXTURE0);
-                gl.bindTexture(gl.TEXTURE_2D, this.textures!.mask[idx]);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_image'), 0);
-                gl.uniform1i(gl.getUniformLocation(this.programs!.morph, 'u_type'), 0); // Erode
-                this.drawQuad();
+        const frame = createTarget();
+        const slots = [createTarget(), createTarget()];
+        this.accumulation = {
+            frame: frame.tex,
+            frameFbo: frame.fbo,
+            textures: [slots[0].tex, slots[1].tex],
+            fbos: [slots[0].fbo, slots[1].fbo],
+            index: 0,
+        };
+    }
+
+    private releaseAccumulation() {
+        const accumulation = this.accumulation;
+        if (!accumulation) return;
+        const gl = this.gl;
+        [accumulation.frame, ...accumulation.textures].forEach((tex) => gl.deleteTexture(tex));
+        [accumulation.frameFbo, ...accumulation.fbos].forEach((fbo) => gl.deleteFramebuffer(fbo));
+        this.accumulation = null;
+    }
+
+    private resolveEffect(name: string) {
+        const entry = this.effects.get(name) ?? this.effects.values().next().value;
+        if (!entry) throw new Error('No output effects registered');
+        return entry;
+    }
+
+    private effectUniforms(effect: MotionEffect, params: EffectParams): Record<string, UniformValue> {
+        return Object.fromEntries(effect.uniforms.map((uniform) => [uniform.name, effectParam(effect, uniform, params)]));
+    }
+
+    // Latest model as RGBA floats (variance in .r), unpacked on RGBA8 targets; rows bottom-up
+    private readBackgroundModel(): { mean: Float32Array; variance: Float32Array } {
+        const gl = this.gl;
+        const w = this.procWidth;
+        const h = this.procHeight;
+        gl.bindFramebuffer(gl.FRAMEBUFFER, this.framebuffers!.bgSub[this.pingPongIndex]);
+        gl.readBuffer(gl.COLOR_ATTACHMENT0);
+        const mean = this.readPixelsFloat(w, h);
+        gl.readBuffer(gl.COLOR_ATTACHMENT1);
+        const variance = this.readPixelsFloat(w, h);
+        gl.readBuffer(gl.COLOR_ATTACHMENT0);
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
+
+        if (this.targetFormat === 'rgba8') {
+            for (let i = 0; i < w * h * 4; i += 4) {
+                const hi = mean.slice(i, i + 4);
+                const lo = variance.slice(i, i + 4);
+                mean.set([unpackUnit16(hi[0], lo[0]), unpackUnit16(hi[1], lo[1]), unpackUnit16(hi[2], lo[2]), 1], i);
+                variance.set([unpackUnit16(hi[3], lo[3]), 0, 0, 1], i);
             }
         }
+        return { mean, variance };
+    }
+
+    // Reads the bound read buffer as floats whatever the target format; RGBA8 comes back in [0, 1]
+    private readPixelsFloat(width: number, height: number): Float32Array {
+        const gl = this.gl;
+        if (this.targetFormat !== 'rgba8') {
+            const pixels = new Float32Array(width * height * 4);
+            gl.readPixels(0, 0, width, height, gl.RGBA, gl.FLOAT, pixels);
+            return pixels;
+        }
+        const bytes = new Uint8Array(width * height * 4);
+        gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, bytes);
+        return Float32Array.from(bytes, (b) => b / 255);
+    }
 
+    // The first warm-up frame replaces the model with the frame, the rest adapt like a relight
+    private warmUpRate(): number {
+        return this.isSeedFrame() ? 1 : RELIGHT_ADAPTATION_RATE;
+    }
 
-        // 4. Final Display Pass
-        gl.bindFramebuffer(gl.FRAMEBUFFER, null); // Screen
-        gl.useProgram(this.programs!.output);
+    private isSeedFrame(): boolean {
+        return this.warmUpFramesLeft > 0 && this.warmUpFramesLeft === this.warmUpFrames;
+    }
+
+    // Uses the latest (slightly lagging) stats readback to spot frame-wide changes
+    private updateRelight(controls: MotionControls): number {
+        if (!controls.illuminationCompensation) {
+            this.relightFramesLeft = 0;
+            return 0;
+        }
 
-        gl.activeTexture(gl.TEXTURE0);
-        gl.bindTexture(gl.TEXTURE_2D, this.textures!.video);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.output, 'u_video'), 0);
+        this.pollStatsReadback();
+        const stats = this.latestStats;
+        if (stats && stats.frame !== this.relightCheckedFrame) {
+            this.relightCheckedFrame = stats.frame;
+            if (stats.movingFraction > RELIGHT_MOVING_FRACTION) this.relightFramesLeft = RELIGHT_FRAMES;
+        }
 
-        gl.activeTexture(gl.TEXTURE1);
-        gl.bindTexture(gl.TEXTURE_2D, this.textures!.mask[nextIdx]);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.output, 'u_mask'), 1);
+        if (this.relightFramesLeft > 0) {
+            this.relightFramesLeft--;
+            return RELIGHT_ADAPTATION_RATE;
+        }
+        return 0;
+    }
 
-        gl.uniform1i(gl.getUniformLocation(this.programs!.output, 'u_effect'),
-            controls.effect === 'colorBurn' ? 1 :
-                controls.effect === 'electricTrails' ? 2 :
-                    controls.effect === 'heatmap' ? 3 :
-                        controls.effect === 'chromatic' ? 4 : 0);
-        gl.uniform1i(gl.getUniformLocation(this.programs!.output, 'u_invert'), controls.invert ? 1 : 0);
-        gl.uniform2f(gl.getUniformLocation(this.programs!.output, 'u_resolution'), this.width, this.height);
+    // Box filter into resampled when downscaled, then the separable Gaussian into blurred[1]; the video itself when neither
+    private preBlurPasses(video: FrameSource, controls: MotionControls): { source: DetectionSource; passes: Pass[] } {
+        const textures = this.textures!;
+        const framebuffers = this.framebuffers!;
+        const sigma = controls.noiseReduction;
+        const size = this.processingSize();
 
-        const isPersistence = controls.effect === 'electricTrails' || controls.effect === 'heatmap';
+        // Sampling the video straight at a fraction of its size would skip most of its texels
+        const downscaled = this.processingScale < 1;
+        const input: DetectionSource = downscaled
+            ? { texture: textures.resampled, fbo: framebuffers.resample, ...size }
+            : { texture: textures.video, fbo: framebuffers.video, ...frameSize(video) };
+        const passes: Pass[] = downscaled ? [{
+            name: 'resample', program: this.programs!.resample, target: framebuffers.resample, size,
+            inputs: { u_image: textures.video },
+            uniforms: { u_resolution: [this.procWidth, this.procHeight] },
+        }] : [];
 
-        if (isPersistence) {
-            // Fade previous frame by drawing a semi-transparent black quad
-            gl.enable(gl.BLEND);
-            gl.blendFunc(gl.SRC_ALPHA, gl.ONE_MINUS_SRC_ALPHA);
-            // Dim the previous buffer: lower alpha = longer trails
-            const fade = 1.0 - controls.persistence; // persistence 0.85 → fade 0.15
-            gl.clearColor(0.0, 0.0, 0.0, fade);
-            gl.clear(gl.COLOR_BUFFER_BIT);
-        } else {
-            gl.disable(gl.BLEND);
-            gl.clearColor(0.0, 0.0, 0.0, 1.0);
-            gl.clear(gl.COLOR_BUFFER_BIT);
+        if (sigma <= 0) return { source: input, passes };
+
+        const program = this.programs!.blur;
+        const uniforms = { u_sigma: sigma, u_radius: Math.min(Math.ceil(sigma * 3), MAX_BLUR_RADIUS) };
+        passes.push(
+            // Horizontal, resampling the video to processing size when it isn't already
+            {
+                name: 'blur horizontal', program, target: framebuffers.blur[0], size,
+                inputs: { u_image: input.texture },
+                uniforms: { ...uniforms, u_step: [1 / this.procWidth, 0] },
+            },
+            // Vertical
+            {
+                name: 'blur vertical', program, target: framebuffers.blur[1], size,
+                inputs: { u_image: textures.blurred[0] },
+                uniforms: { ...uniforms, u_step: [0, 1 / this.procHeight] },
+            },
+        );
+        return {
+            source: { texture: textures.blurred[1], fbo: framebuffers.blur[1], ...size },
+            passes,
+        };
+    }
+
+    private backgroundSubtractionPass(sourceTex: WebGLTexture, frame: PingPong, controls: MotionControls, relightRate: number): DrawPass {
+        const textures = this.textures!;
+        return {
+            name: 'background subtraction',
+            program: this.programs!.bgSub,
+            target: frame.write(this.framebuffers!.bgSub),
+            size: this.processingSize(),
+            inputs: {
+                u_image: sourceTex,
+                u_backgroundMean: frame.read(textures.mean),
+                u_backgroundVariance: frame.read(textures.variance),
+                u_zoneMask: textures.zone,
+            },
+            uniforms: {
+                u_freezeOutsideZones: controls.freezeOutsideZones,
+                u_adaptationRate: this.backgroundFrozen ? 0 : controls.adaptationRate,
+                // UI threshold (1-50) → shader threshold (0.1-5.0)
+                u_threshold: controls.detectionThreshold / 10.0,
+                u_isColorMode: controls.detectionMode === 'color',
+                u_minVariance: 0.05, // Simplified min variance
+                u_shadowDetection: controls.shadowDetection,
+                u_relightRate: relightRate,
+                u_seed: this.isSeedFrame(),
+                u_packedTargets: this.targetFormat === 'rgba8',
+            },
+        };
+    }
+
+    private mogPasses(sourceTex: WebGLTexture, frame: PingPong, controls: MotionControls, relightRate: number): DrawPass[] {
+        const gl = this.gl;
+
+        if (!this.mogModel) {
+            // Zero-initialized: no components yet, the first frame seeds them
+            const createSet = () => [0, 1, 2, 3].map(() => this.createRenderTarget(this.procWidth, this.procHeight, gl.NEAREST));
+            const textures: [WebGLTexture[], WebGLTexture[]] = [createSet(), createSet()];
+            const fbos = textures.map((set) => {
+                const fbo = gl.createFramebuffer()!;
+                gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+                set.forEach((tex, i) => {
+                    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0 + i, gl.TEXTURE_2D, tex, 0);
+                });
+                gl.drawBuffers(set.map((_, i) => gl.COLOR_ATTACHMENT0 + i));
+                this.checkFramebuffer('mixture model');
+                return fbo;
+            }) as [WebGLFramebuffer, WebGLFramebuffer];
+            this.mogModel = { textures, fbos, frameCount: 0 };
         }
 
-        this.drawQuad();
+        const model = this.mogModel;
+        const previous = frame.read(model.textures);
+        const size = this.processingSize();
+        // The mixture adapts every pixel already, relighting just raises the rate
+        const adaptationRate = this.backgroundFrozen ? 0 : controls.adaptationRate;
+        const frameCount = model.frameCount++;
+
+        return [
+            // Pass 1: Update the mixture, soft mask lands in modelVar.a
+            {
+                name: 'mixture update',
+                program: this.programs!.mog,
+                target: frame.write(model.fbos),
+                size,
+                inputs: {
+                    u_image: sourceTex,
+                    u_model0: previous[0],
+                    u_model1: previous[1],
+                    u_model2: previous[2],
+                    u_modelVar: previous[3],
+                    u_zoneMask: this.textures!.zone,
+                },
+                uniforms: {
+                    u_adaptationRate: Math.max(adaptationRate, relightRate),
+                    // Frozen: a huge count also zeroes the early learning-rate schedule
+                    u_frameCount: this.backgroundFrozen ? 1e30 : frameCount,
+                    // Frozen or not, a fresh model takes the first frame; it would flag everything otherwise
+                    u_seed: frameCount === 0,
+                    // UI threshold (1-50) → distance in σ (0.2-10), default 15 → 3σ
+                    u_threshold: controls.detectionThreshold / 5.0,
+                    u_isColorMode: controls.detectionMode === 'color',
+                    u_freezeOutsideZones: controls.freezeOutsideZones,
+                    u_shadowDetection: controls.shadowDetection,
+                },
+            },
+            // Pass 2: Copy the mask out to mask[write]
+            {
+                name: 'mixture mask',
+                program: this.programs!.mogMask,
+                target: frame.write(this.framebuffers!.morph),
+                size,
+                inputs: { u_modelVar: frame.write(model.textures)[3] },
+            },
+        ];
+    }
 
-        // 5. Cleanup / Swap
-        this.pingPongIndex = nextIdx;
+    private releaseMogModel() {
+        const model = this.mogModel;
+        if (!model) return;
+        model.textures.flat().forEach((tex) => this.gl.deleteTexture(tex));
+        model.fbos.forEach((fbo) => this.gl.deleteFramebuffer(fbo));
+        this.mogModel = null;
     }
 
-    private drawQuad() {
+    // Lucas–Kanade: gradients of (previous gray, current video), then a windowed 2×2 solve
+    private opticalFlowPasses(sourceTex: WebGLTexture, frame: PingPong, controls: MotionControls, writeMask: boolean): DrawPass[] {
         const gl = this.gl;
-        gl.bindBuffer(gl.ARRAY_BUFFER, this.buffers!.quad);
-        gl.enableVertexAttribArray(0); // position
-        gl.enableVertexAttribArray(1); // texCoord
-        gl.vertexAttribPointer(0, 2, gl.FLOAT, false, 16, 0);
-        gl.vertexAttribPointer(1, 2, gl.FLOAT, false, 16, 8);
-        gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+        const textures = this.textures!;
+        const size = this.processingSize();
+        const resolution = [this.procWidth, this.procHeight];
+
+        return [
+            // Pass 1: Ix, Iy, It + current luminance into gray[write]
+            {
+                name: 'flow gradients',
+                program: this.programs!.flowGradient,
+                target: frame.write(this.framebuffers!.flowGradient),
+                size,
+                inputs: { u_image: sourceTex, u_previousGray: frame.read(textures.gray) },
+                uniforms: { u_resolution: resolution },
+            },
+            // Pass 2: windowed solve → flow, and the mask when flow is the detection mode
+            {
+                name: 'optical flow',
+                program: this.programs!.flow,
+                target: frame.write(this.framebuffers!.flow),
+                size,
+                drawBuffers: [gl.COLOR_ATTACHMENT0, writeMask ? gl.COLOR_ATTACHMENT1 : gl.NONE],
+                inputs: { u_gradients: textures.gradients, u_zoneMask: textures.zone },
+                uniforms: {
+                    u_resolution: resolution,
+                    u_windowRadius: FLOW_WINDOW_RADIUS,
+                    // UI threshold (1-50) → flow magnitude (0.1-5.0 px/frame), in processing pixels
+                    u_threshold: (controls.detectionThreshold / 10.0) * this.processingScale,
+                    u_minEigen: FLOW_MIN_EIGEN,
+                },
+            },
+        ];
     }
 
-    private createPrograms() {
-        this.programs = {
-            bgSub: this.createProgram(vertexShaderSource, backgroundSubtractionFragmentSource),
-            morph: this.createProgram(vertexShaderSource, morphologyFragmentSource),
-            output: this.createProgram(vertexShaderSource, outputFragmentSource),
+    private pushFrameHistory(source: DetectionSource): CustomPass {
+        const gl = this.gl;
+
+        if (!this.frameHistory) {
+            const slots: WebGLTexture[] = [];
+            const fbos: WebGLFramebuffer[] = [];
+            for (let i = 0; i <= MAX_FRAME_OFFSET; i++) {
+                const tex = gl.createTexture()!;
+                gl.bindTexture(gl.TEXTURE_2D, tex);
+                gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, this.procWidth, this.procHeight);
+                gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
+                gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+                gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+                gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+
+                const fbo = gl.createFramebuffer()!;
+                gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+                gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, tex, 0);
+                this.checkFramebuffer('frame history');
+                slots.push(tex);
+                fbos.push(fbo);
+            }
+            this.frameHistory = { slots, fbos, head: -1, count: 0 };
+        }
+
+        const history = this.frameHistory;
+        history.head = (history.head + 1) % history.slots.length;
+        history.count = Math.min(history.count + 1, history.slots.length);
+        const target = history.fbos[history.head];
+
+        // Scale the detection source (native-size video, or the pre-blur) into the slot
+        return {
+            name: 'frame history',
+            run: () => {
+                gl.bindFramebuffer(gl.READ_FRAMEBUFFER, source.fbo);
+                gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, target);
+                gl.blitFramebuffer(
+                    0, 0, source.width, source.height,
+                    0, 0, this.procWidth, this.procHeight,
+                    gl.COLOR_BUFFER_BIT, gl.LINEAR
+                );
+                gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null);
+                gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+            },
+        };
+    }
+
+    private releaseFrameHistory() {
+        const history = this.frameHistory;
+        if (!history) return;
+        history.slots.forEach((tex) => this.gl.deleteTexture(tex));
+        history.fbos.forEach((fbo) => this.gl.deleteFramebuffer(fbo));
+        this.frameHistory = null;
+    }
+
+    private frameDelayPass(sourceTex: WebGLTexture, frame: PingPong, controls: MotionControls, writeMask: boolean): DrawPass {
+        const gl = this.gl;
+        const history = this.frameHistory!;
+        const inputs: Record<string, WebGLTexture> = { u_image: sourceTex };
+
+        // Taps evenly spaced up to the offset, clamped to the history collected so far
+        const offset = Math.min(Math.max(Math.round(controls.frameOffset), 1), MAX_FRAME_OFFSET);
+        const taps = Math.min(Math.max(Math.round(controls.frameOffsetTaps), 1), MAX_FRAME_TAPS);
+        for (let t = 0; t < MAX_FRAME_TAPS; t++) {
+            const tapOffset = Math.min(Math.round((offset * Math.min(t + 1, taps)) / taps), history.count - 1);
+            const slot = (history.head - tapOffset + history.slots.length) % history.slots.length;
+            inputs[`u_delayed${t}`] = history.slots[slot];
+        }
+        inputs.u_zoneMask = this.textures!.zone;
+
+        return {
+            name: 'frame delay',
+            program: this.programs!.frameDelay,
+            target: frame.write(this.framebuffers!.frameDelay),
+            size: this.processingSize(),
+            drawBuffers: [gl.COLOR_ATTACHMENT0, writeMask ? gl.COLOR_ATTACHMENT1 : gl.NONE],
+            inputs,
+            uniforms: {
+                u_tapCount: taps,
+                // UI threshold (1-50) → RGB distance (0.01-0.5)
+                u_threshold: controls.detectionThreshold / 100.0,
+            },
+        };
+    }
+
+    // Raw mask in mask[write]; mask[read] and morphScratch are free to overwrite
+    private morphologyPasses(frame: PingPong, controls: MotionControls): { passes: DrawPass[]; output: WebGLTexture } {
+        const textures = this.textures!;
+        const framebuffers = this.framebuffers!;
+        const raw = frame.write(textures.mask);
+        const a: MorphTarget = { tex: frame.read(textures.mask), fbo: frame.read(framebuffers.morph) };
+        const b: MorphTarget = { tex: textures.morphScratch[0], fbo: framebuffers.morphScratch[0] };
+        const c: MorphTarget = { tex: textures.morphScratch[1], fbo: framebuffers.morphScratch[1] };
+
+        switch (controls.morphology) {
+            case 'open':
+            case 'close':
+                return { passes: this.morphStepPasses(openCloseSteps(controls.morphology, controls), raw, b, a), output: b.tex };
+            case 'gradient':
+                // Dilated − eroded: a band around the motion boundary
+                return {
+                    passes: [
+                        ...this.morphStepPasses(morphSteps('dilate', controls), raw, b, a),
+                        ...this.morphStepPasses(morphSteps('erode', controls), raw, c, a),
+                        this.morphDifferencePass(b.tex, c.tex, a),
+                    ],
+                    output: a.tex,
+                };
+            case 'topHat':
+                // Mask − opened: only motion smaller than the structuring element
+                return {
+                    passes: [
+                        ...this.morphStepPasses(openCloseSteps('open', controls), raw, b, a),
+                        this.morphDifferencePass(raw, b.tex, c),
+                    ],
+                    output: c.tex,
+                };
+            case 'fillHoles':
+                return { passes: this.fillHolesPasses(raw, b, c, a), output: a.tex };
+            default:
+                return { passes: [], output: raw };
+        }
+    }
+
+    // Alternates between scratch and output so the last step writes output
+    private morphStepPasses(steps: MorphStep[], input: WebGLTexture, output: MorphTarget, scratch: MorphTarget): DrawPass[] {
+        const program = this.programs!.morph;
+        const size = this.processingSize();
+
+        let source = input;
+        return steps.map((step, i) => {
+            const target = (steps.length - 1 - i) % 2 === 0 ? output : scratch;
+            const pass: DrawPass = {
+                name: `${step.type} ${step.shape}`,
+                program,
+                target: target.fbo,
+                size,
+                inputs: { u_image: source },
+                uniforms: {
+                    u_resolution: [this.procWidth, this.procHeight],
+                    u_type: step.type === 'erode' ? 0 : 1,
+                    u_shape: step.shape === 'disk' ? 1 :
+                        step.shape === 'cross' ? 2 :
+                            step.shape === 'line' ? 3 : 0,
+                    u_radius: step.radius,
+                    u_direction: step.direction,
+                },
+            };
+            source = target.tex;
+            return pass;
+        });
+    }
+
+    private morphDifferencePass(minuend: WebGLTexture, subtrahend: WebGLTexture, output: MorphTarget): DrawPass {
+        return {
+            name: 'difference',
+            program: this.programs!.morph,
+            target: output.fbo,
+            size: this.processingSize(),
+            inputs: { u_image: minuend, u_other: subtrahend },
+            uniforms: { u_type: 2 },
         };
     }
 
-    private createProgram(vsSource: string, fsSource: string): WebGLProgram {
+    // Alternating row and column sweeps, each seeded from the last and doubled until it spans the axis, then fill
+    private fillHolesPasses(input: WebGLTexture, flagsA: MorphTarget, flagsB: MorphTarget, output: MorphTarget): DrawPass[] {
+        const program = this.programs!.holeFill;
+        const size = this.processingSize();
+        const uniforms = { u_resolution: [this.procWidth, this.procHeight], u_threshold: MOTION_THRESHOLD };
+        const pass = (name: string, source: MorphTarget, target: MorphTarget, mode: number, extra: Record<string, UniformValue> = {}): DrawPass => ({
+            name,
+            program,
+            target: target.fbo,
+            size,
+            inputs: { u_image: source.tex, u_mask: input },
+            uniforms: { ...uniforms, u_mode: mode, ...extra },
+        });
+
+        const passes: DrawPass[] = [];
+        let flags = flagsA;
+        let next = flagsB;
+        for (let sweep = 0; sweep < HOLE_FILL_SWEEPS; sweep++) {
+            const rows = sweep % 2 === 0;
+            const axis = rows ? 'rows' : 'columns';
+            const direction = rows ? [1, 0] : [0, 1];
+            passes.push(pass(`hole ${axis} seed`, flags, next, 0, { u_axis: direction, u_first: sweep === 0 }));
+            [flags, next] = [next, flags];
+            for (let step = 1; step < (rows ? this.procWidth : this.procHeight); step *= 2) {
+                passes.push(pass(`hole ${axis} ×${step}`, flags, next, 1, { u_axis: direction, u_step: step }));
+                [flags, next] = [next, flags];
+            }
+        }
+        passes.push(pass('hole fill', flags, output, 2));
+        return passes;
+    }
+
+    // Reduction chain down to 1×1, then an asynchronous readback of the last level
+    private motionStatsPasses(maskTex: WebGLTexture): Pass[] {
+        const program = this.programs!.stats;
+        let inputSums = maskTex;
+        let inputBounds = maskTex; // Bound but not read in the seed pass
+        let inputW = this.procWidth;
+        let inputH = this.procHeight;
+
+        const passes: Pass[] = this.statsLevels.map((level, i) => {
+            const pass: DrawPass = {
+                name: `stats level ${i}`,
+                program,
+                target: level.fbo,
+                size: level,
+                inputs: { u_sums: inputSums, u_bounds: inputBounds },
+                uniforms: {
+                    u_movingThreshold: MOTION_THRESHOLD,
+                    u_inputSize: [inputW, inputH],
+                    u_seed: i === 0,
+                },
+            };
+            inputSums = level.sums;
+            inputBounds = level.bounds;
+            inputW = level.width;
+            inputH = level.height;
+            return pass;
+        });
+        passes.push({ name: 'stats readback', run: () => this.readMotionStats() });
+        return passes;
+    }
+
+    // Reads the 1×1 level the reduction left bound
+    private readMotionStats() {
         const gl = this.gl;
-        const vs = this.compileShader(gl.VERTEX_SHADER, vsSource);
-        const fs = this.compileShader(gl.FRAGMENT_SHADER, fsSource);
-        const program = gl.createProgram()!;
-        gl.attachShader(program, vs);
-        gl.attachShader(program, fs);
-        gl.linkProgram(program);
-        if (!gl.getProgramParameter(program, gl.LINK_STATUS)) {
-            throw new Error(gl.getProgramInfoLog(program)!);
+
+        // Only one readback in flight; frames in between simply aren't sampled
+        this.pollStatsReadback();
+        if (this.pendingStats) return;
+
+        const [type, texelSize] = this.readbackType();
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.buffers!.statsReadback);
+        gl.readBuffer(gl.COLOR_ATTACHMENT0);
+        gl.readPixels(0, 0, 1, 1, gl.RGBA, type, 0);
+        gl.readBuffer(gl.COLOR_ATTACHMENT1);
+        gl.readPixels(0, 0, 1, 1, gl.RGBA, type, texelSize);
+        gl.readBuffer(gl.COLOR_ATTACHMENT0);
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+        const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+        if (sync) {
+            this.pendingStats = {
+                sync,
+                frame: this.frameIndex,
+                pixels: this.procWidth * this.procHeight,
+                // Every level divides its sums by 16, see the stats shader
+                sumScale: Math.pow(STATS_BLOCK * STATS_BLOCK, this.statsLevels.length),
+            };
         }
-        return program;
     }
 
-    private compileShader(type: number, source: string): WebGLShader {
+    private readBlobGrid(minArea: number) {
+        const gl = this.gl;
+
+        this.pollBlobReadback();
+        if (this.pendingBlobGrid) return;
+
+        const level = this.statsLevels[0];
+        gl.bindFramebuffer(gl.FRAMEBUFFER, level.fbo);
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.blobReadback);
+        gl.readBuffer(gl.COLOR_ATTACHMENT0);
+        gl.readPixels(0, 0, level.width, level.height, gl.RGBA, this.readbackType()[0], 0);
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+        const sync = gl.fenceSync(gl.SYNC_GPU_COMMANDS_COMPLETE, 0);
+        if (sync) this.pendingBlobGrid = { sync, width: level.width, height: level.height, minArea };
+    }
+
+    private pollBlobReadback() {
         const gl = this.gl;
-        const shader = gl.createShader(type)!;
-        gl.shaderSource(shader, source);
-        gl.compileShader(shader);
-        if (!gl.getShaderParameter(shader, gl.COMPILE_STATUS)) {
-            throw new Error(gl.getShaderInfoLog(shader)!);
+        const pending = this.pendingBlobGrid;
+        if (!pending) return;
+
+        const status = gl.clientWaitSync(pending.sync, 0, 0);
+        if (status !== gl.ALREADY_SIGNALED && status !== gl.CONDITION_SATISFIED) return;
+
+        gl.deleteSync(pending.sync);
+        this.pendingBlobGrid = null;
+
+        const { width, height } = pending;
+        const texels = this.readPackBuffer(this.blobReadback!, width * height * 4);
+
+        // .r is the moving-texel count of each 4×4 block over 16, i.e. its coverage; flip rows to top-down
+        const coverage = new Float32Array(width * height);
+        for (let y = 0; y < height; y++) {
+            const src = (height - 1 - y) * width;
+            for (let x = 0; x < width; x++) {
+                coverage[y * width + x] = texels[(src + x) * 4];
+            }
+        }
+
+        this.blobTracker.update({ data: coverage, width, height }, pending.minArea);
+    }
+
+    // Pixel type and bytes per RGBA texel for reading back render targets
+    private readbackType(): [number, number] {
+        return this.targetFormat === 'rgba8' ? [this.gl.UNSIGNED_BYTE, 4] : [this.gl.FLOAT, 16];
+    }
+
+    // Copies a filled pixel pack buffer out as floats; RGBA8 bytes map to [0, 1]
+    private readPackBuffer(buffer: WebGLBuffer, length: number): Float32Array {
+        const gl = this.gl;
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, buffer);
+        let data: Float32Array;
+        if (this.targetFormat === 'rgba8') {
+            const bytes = new Uint8Array(length);
+            gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, bytes);
+            data = Float32Array.from(bytes, (b) => b / 255);
+        } else {
+            data = new Float32Array(length);
+            gl.getBufferSubData(gl.PIXEL_PACK_BUFFER, 0, data);
         }
-        return shader;
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+        return data;
+    }
+
+    private discardBlobReadback() {
+        if (this.pendingBlobGrid) {
+            this.gl.deleteSync(this.pendingBlobGrid.sync);
+            this.pendingBlobGrid = null;
+        }
+        this.blobTracker.reset();
+    }
+
+    private pollStatsReadback() {
+        const gl = this.gl;
+        const pending = this.pendingStats;
+        if (!pending) return;
+
+        const status = gl.clientWaitSync(pending.sync, 0, 0);
+        if (status !== gl.ALREADY_SIGNALED && status !== gl.CONDITION_SATISFIED) return;
+
+        gl.deleteSync(pending.sync);
+        this.pendingStats = null;
+
+        const data = this.readPackBuffer(this.buffers!.statsReadback, 8);
+        const [movingCount, maskSum, uSum, vSum] = data.slice(0, 4).map((v) => v * pending.sumScale);
+        const [minU, minV, invMaxU, invMaxV] = data.slice(4);
+        const total = pending.pixels;
+        const hasMoving = movingCount > 0; // RGBA8 clamps the "none" bound sentinel to 1
+
+        // Texture v runs bottom-up; stats are reported top-down
+        this.latestStats = {
+            frame: pending.frame,
+            movingFraction: movingCount / total,
+            meanIntensity: maskSum / total,
+            centroid: maskSum > 0 ? { x: uSum / maskSum, y: 1 - vSum / maskSum } : null,
+            boundingBox: hasMoving ? {
+                x: minU,
+                y: invMaxV,
+                width: 1 - invMaxU - minU,
+                height: 1 - invMaxV - minV,
+            } : null,
+        };
+    }
+
+    private createPrograms() {
+        const program = (fragmentSource: string) => new GLProgram(this.gl, vertexShaderSource, fragmentSource);
+        this.programs = {
+            resample: program(resampleFragmentSource),
+            blur: program(gaussianBlurFragmentSource),
+            bgSub: program(backgroundSubtractionFragmentSource),
+            morph: program(morphologyFragmentSource),
+            holeFill: program(holeFillFragmentSource),
+            flowGradient: program(flowGradientFragmentSource),
+            flow: program(opticalFlowFragmentSource),
+            frameDelay: program(frameDelayFragmentSource),
+            mog: program(mogFragmentSource),
+            mogMask: program(mogMaskFragmentSource),
+            stats: program(statsReductionFragmentSource),
+            accumulate: program(accumulateFragmentSource),
+            present: program(presentFragmentSource),
+            exposure: program(exposureFragmentSource),
+            exposureColor: program(exposureColorFragmentSource),
+        };
+    }
+
+    private processingSize() {
+        return { width: this.procWidth, height: this.procHeight };
     }
 
     private createBuffers() {
@@ -277,24 +1709,81 @@ export class MotionEngine {
             1, 1, 1, 1,
         ]);
         gl.bufferData(gl.ARRAY_BUFFER, data, gl.STATIC_DRAW);
-        this.buffers = { quad: buffer };
+
+        const quadVao = gl.createVertexArray()!;
+        gl.bindVertexArray(quadVao);
+        gl.enableVertexAttribArray(QUAD_ATTRIBUTES.a_position);
+        gl.enableVertexAttribArray(QUAD_ATTRIBUTES.a_texCoord);
+        gl.vertexAttribPointer(QUAD_ATTRIBUTES.a_position, 2, gl.FLOAT, false, 16, 0);
+        gl.vertexAttribPointer(QUAD_ATTRIBUTES.a_texCoord, 2, gl.FLOAT, false, 16, 8);
+        gl.bindVertexArray(null);
+
+        // Two texels: sums + bounds from the 1×1 stats level, sized for the widest (RGBA32F) readback
+        const statsReadback = gl.createBuffer()!;
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, statsReadback);
+        gl.bufferData(gl.PIXEL_PACK_BUFFER, 32, gl.STREAM_READ);
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+        this.buffers = { quad: buffer, quadVao, statsReadback };
+    }
+
+    private uploadZoneMask() {
+        const gl = this.gl;
+        const mask = this.zoneMask;
+
+        gl.bindTexture(gl.TEXTURE_2D, this.textures!.zone);
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 1);
+        if (mask) {
+            gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 1); // Mask rows are top-down, like the video
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, mask.width, mask.height, 0, gl.RED, gl.UNSIGNED_BYTE, mask.data);
+            gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, 0);
+        } else {
+            gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, 1, 1, 0, gl.RED, gl.UNSIGNED_BYTE, new Uint8Array([255]));
+        }
+        gl.pixelStorei(gl.UNPACK_ALIGNMENT, 4);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
+        gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
+    }
+
+    private releaseTexturesAndFBOs() {
+        const gl = this.gl;
+        if (this.textures) {
+            Object.values(this.textures).flat().forEach((tex) => gl.deleteTexture(tex));
+            this.textures = null;
+        }
+        if (this.framebuffers) {
+            Object.values(this.framebuffers).flat().forEach((fbo) => gl.deleteFramebuffer(fbo));
+            this.framebuffers = null;
+        }
+        this.statsLevels.forEach((level) => {
+            gl.deleteTexture(level.sums);
+            gl.deleteTexture(level.bounds);
+            gl.deleteFramebuffer(level.fbo);
+        });
+        this.statsLevels = [];
     }
 
     private createTexturesAndFBOs() {
         const gl = this.gl;
-        const w = this.width;
-        const h = this.height;
+        const w = this.procWidth;
+        const h = this.procHeight;
+
+        this.releaseTexturesAndFBOs();
 
-        const createTex = (format: number) => {
+        const createTex = (filter: number = gl.NEAREST) => this.createRenderTarget(w, h, filter);
+        // Textures the output pass samples at canvas size; RGBA16F and RGBA8 always filter
+        const upsampleFilter = this.targetFormat !== 'rgba32f' || this.floatLinear ? gl.LINEAR : gl.NEAREST;
+        // Packed exposure bytes can't be interpolated
+        const exposureFilter = this.targetFormat === 'rgba8' ? gl.NEAREST : upsampleFilter;
+
+        const createBlurTex = () => {
             const tex = gl.createTexture()!;
             gl.bindTexture(gl.TEXTURE_2D, tex);
-            gl.texImage2D(gl.TEXTURE_2D, 0, format, w, h, 0, gl.RGBA, gl.FLOAT, null);
-            // Note: gl.FLOAT requires EXT_color_buffer_float for RenderTargets.
-            // Usually RGBA32F or RGBA16F.
-            // Let's try RGBA16F for "insane speed" + decent precision. 
-            // gl.RGBA16F is in WebGL2 + EXT_color_buffer_float.
-            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.NEAREST);
-            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.NEAREST);
+            gl.texStorage2D(gl.TEXTURE_2D, 1, gl.RGBA8, w, h);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR);
+            gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR);
             gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE);
             gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
             return tex;
@@ -309,16 +1798,26 @@ export class MotionEngine {
         gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE);
         // Init with null, uploaded every frame
 
-        // Mean and Variance Textures (Float/Half-Float)
-        // We use RGBA32F or RGBA16F.
-        const createPingPong = () => [createTex(gl.RGBA32F), createTex(gl.RGBA32F)] as [WebGLTexture, WebGLTexture];
+        // Mean and Variance Textures in the detected render target format
+        const createPingPong = (filter?: number) =>
+            [createTex(filter), createTex(filter)] as [WebGLTexture, WebGLTexture];
 
         this.textures = {
             video: videoTex,
+            zone: gl.createTexture()!,
+            resampled: createBlurTex(),
+            blurred: [createBlurTex(), createBlurTex()],
             mean: createPingPong(),
             variance: createPingPong(),
-            mask: createPingPong(),
+            mask: createPingPong(upsampleFilter),
+            morphScratch: createPingPong(upsampleFilter),
+            gray: createPingPong(),
+            gradients: createTex(),
+            flow: createTex(upsampleFilter),
+            delayed: createTex(upsampleFilter),
+            exposure: createPingPong(exposureFilter),
         };
+        this.uploadZoneMask();
 
         // Framebuffers
         // BgSub FBOs: Attach Mean, Variance, Mask
@@ -329,14 +1828,45 @@ export class MotionEngine {
             gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT1, gl.TEXTURE_2D, this.textures!.variance[idx], 0);
             gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT2, gl.TEXTURE_2D, this.textures!.mask[idx], 0);
             gl.drawBuffers([gl.COLOR_ATTACHMENT0, gl.COLOR_ATTACHMENT1, gl.COLOR_ATTACHMENT2]); // MRT
+            this.checkFramebuffer('background model');
+            return fbo;
+        };
+
+        // The video texture has no storage until the first upload, so it's not checked here
+        const createMRT = (attachments: WebGLTexture[], name?: string) => {
+            const fbo = gl.createFramebuffer()!;
+            gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+            attachments.forEach((tex, i) => {
+                gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0 + i, gl.TEXTURE_2D, tex, 0);
+            });
+            gl.drawBuffers(attachments.map((_, i) => gl.COLOR_ATTACHMENT0 + i));
+            if (name) this.checkFramebuffer(name);
             return fbo;
         };
+        const createMRTPair = (name: string, attachments: (i: number) => WebGLTexture[]) =>
+            [0, 1].map((i) => createMRT(attachments(i), name)) as [WebGLFramebuffer, WebGLFramebuffer];
+        const textures = this.textures;
 
         this.framebuffers = {
+            video: createMRT([textures.video]),
+            resample: createMRT([textures.resampled], 'resample'),
+            blur: createMRTPair('blur', (i) => [textures.blurred[i]]),
             bgSub: [createFBO(0), createFBO(1)],
-            morph: [gl.createFramebuffer()!, gl.createFramebuffer()!]
+            morph: [gl.createFramebuffer()!, gl.createFramebuffer()!],
+            morphScratch: createMRTPair('morphology', (i) => [textures.morphScratch[i]]),
+            flowGradient: createMRTPair('flow gradient', (i) => [textures.gradients, textures.gray[i]]),
+            flow: createMRTPair('optical flow', (i) => [textures.flow, textures.mask[i]]),
+            frameDelay: createMRTPair('frame delay', (i) => [textures.delayed, textures.mask[i]]),
+            exposure: createMRTPair('exposure', (i) => [textures.exposure[i]]),
         };
 
+        // History slots and the MOG model are at processing size, so start over
+        this.releaseFrameHistory();
+        this.releaseMogModel();
+        // New textures start zeroed; trails are at canvas size, which may have changed too
+        this.exposureFrames = 0;
+        this.releaseAccumulation();
+
         // Setup Morph FBOs (Attachment 0 is Mask)
         // Pass 1 (Erode): Writes to mask[idx] (using mask[nextIdx] as input)
         // OR simply reusable FBOs since we just attach textures dynamically?
@@ -344,8 +1874,37 @@ export class MotionEngine {
         const setupMorphFBO = (fbo: WebGLFramebuffer, tex: WebGLTexture) => {
             gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
             gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, tex, 0);
+            this.checkFramebuffer('morphology');
         };
         setupMorphFBO(this.framebuffers.morph[0], this.textures.mask[0]);
         setupMorphFBO(this.framebuffers.morph[1], this.textures.mask[1]);
+
+        // Stats chain: ceil(size / 4) per level until 1×1
+        this.statsLevels = [];
+        let lw = w;
+        let lh = h;
+        do {
+            lw = Math.ceil(lw / STATS_BLOCK);
+            lh = Math.ceil(lh / STATS_BLOCK);
+            const sums = this.createRenderTarget(lw, lh, gl.NEAREST);
+            const bounds = this.createRenderTarget(lw, lh, gl.NEAREST);
+            const fbo = gl.createFramebuffer()!;
+            gl.bindFramebuffer(gl.FRAMEBUFFER, fbo);
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, sums, 0);
+            gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT1, gl.TEXTURE_2D, bounds, 0);
+            gl.drawBuffers([gl.COLOR_ATTACHMENT0, gl.COLOR_ATTACHMENT1]);
+            this.checkFramebuffer('motion stats');
+            this.statsLevels.push({ width: lw, height: lh, sums, bounds, fbo });
+        } while (lw > 1 || lh > 1);
+
+        // Blob grid PBO matches the first stats level
+        this.discardBlobReadback();
+        const gridLevel = this.statsLevels[0];
+        this.blobReadback = this.blobReadback ?? gl.createBuffer()!;
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, this.blobReadback);
+        gl.bufferData(gl.PIXEL_PACK_BUFFER, gridLevel.width * gridLevel.height * this.readbackType()[1], gl.STREAM_READ);
+        gl.bindBuffer(gl.PIXEL_PACK_BUFFER, null);
+
+        gl.bindFramebuffer(gl.FRAMEBUFFER, null);
     }
 }
@@ -0,0 +1,48 @@
+import type { MotionControls, MotionStats } from './motion-engine';
+import type { TrackedBlob } from './blob-tracker';
+import type { PassTimings } from './pass-timer';
+import type { ZoneMask } from './zone-mask';
+import type { EffectDiagnostic, MotionEffect } from './effects';
+
+// ─────────────────────────────────────────────────────────────
+// Motion pipeline — what a source tile drives, whether the
+// engine runs on the main thread (MotionEngine) or in a worker
+// behind a message protocol (MotionWorkerClient).
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * The MotionEngine surface the app uses. Calls that need a result from the
+ * GPU are async so a worker can answer them; getters return the latest
+ * values the pipeline has reported.
+ */
+export interface MotionPipeline {
+    init(width: number, height: number): void;
+    /** True once init has taken effect; render is a no-op before. */
+    isReady(): boolean;
+    /** Processes the video's current frame, or (in a worker) only passes the controls on. */
+    render(video: HTMLVideoElement, controls: MotionControls): void;
+    dispose(): void;
+
+    getMotionStats(): MotionStats | null;
+    getBlobs(): TrackedBlob[];
+    setZoneMask(mask: ZoneMask | null): void;
+
+    resetBackground(warmUpFrames?: number): void;
+    initBackgroundFromFrame(): void;
+    clearBackground(): void;
+    setBackgroundFrozen(frozen: boolean): void;
+    exportBackground(format: 'png' | 'float'): Promise<Blob>;
+    importBackground(blob: Blob): Promise<void>;
+
+    resetExposure(): void;
+    exportExposurePNG(): Promise<Blob>;
+
+    /** Compiles and registers `effect`, resolving to its diagnostics; see MotionEngine.compileEffect. */
+    compileEffect(effect: MotionEffect): EffectDiagnostic[] | Promise<EffectDiagnostic[]>;
+    unregisterEffect(name: string): void;
+
+    setProfiling(enabled: boolean): void;
+    getPassTimings(): PassTimings | null;
+    getTextureMemory(): number;
+    isContextLost(): boolean;
+}
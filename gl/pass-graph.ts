@@ -0,0 +1,88 @@
+import { GLProgram, UniformValue } from './gl-program';
+import { PassTimer, RenderStage } from './pass-timer';
+
+// ─────────────────────────────────────────────────────────────
+// Pass graph — a frame described as data: which program draws
+// into which framebuffer from which textures with which uniforms.
+// MotionEngine builds one per frame and executes it here.
+// ─────────────────────────────────────────────────────────────
+
+/** One full-screen quad draw. */
+export interface DrawPass {
+    name: string;
+    program: GLProgram;
+    target: WebGLFramebuffer | null; // null draws to the canvas
+    size: { width: number; height: number }; // Viewport
+    drawBuffers?: number[]; // Overrides the framebuffer's draw buffers, e.g. to skip an attachment
+    inputs?: Record<string, WebGLTexture>; // Sampler uniform → texture; units follow declaration order
+    uniforms?: Record<string, UniformValue>;
+}
+
+/** Work that isn't a draw: clears, blits, readbacks. */
+export interface CustomPass {
+    name: string;
+    run: () => void;
+}
+
+export type Pass = DrawPass | CustomPass;
+
+/** Passes in execution order, grouped by the stage they are timed under. */
+export type PassGraph = { stage: RenderStage; passes: Pass[] }[];
+
+/**
+ * The previous and this frame's slot of every ping-pong resource. Passes read
+ * last frame's state and write this frame's; the engine flips them after the
+ * frame, so pass builders never handle the index themselves.
+ */
+export interface PingPong {
+    read<T>(pair: readonly [T, T]): T;
+    write<T>(pair: readonly [T, T]): T;
+}
+
+export const pingPong = (index: number): PingPong => ({
+    read: (pair) => pair[index],
+    write: (pair) => pair[(index + 1) % 2],
+});
+
+const isDrawPass = (pass: Pass): pass is DrawPass => 'program' in pass;
+
+export function executePassGraph(gl: WebGL2RenderingContext, graph: PassGraph, quad: WebGLVertexArrayObject, timer: PassTimer) {
+    timer.beginFrame();
+    gl.bindVertexArray(quad);
+    let program: GLProgram | null = null;
+
+    graph.forEach(({ stage, passes }) => {
+        timer.begin(stage);
+        passes.forEach((pass) => {
+            if (!isDrawPass(pass)) {
+                pass.run();
+                program = null; // Custom passes may change any state
+                return;
+            }
+            if (pass.program !== program) {
+                program = pass.program;
+                program.use();
+            }
+            drawPass(gl, pass);
+        });
+        timer.end();
+    });
+
+    gl.bindVertexArray(null);
+    timer.endFrame();
+}
+
+/** Draws one pass with the quad VAO bound and its program in use. */
+export function drawPass(gl: WebGL2RenderingContext, pass: DrawPass) {
+    gl.bindFramebuffer(gl.FRAMEBUFFER, pass.target);
+    if (pass.drawBuffers) gl.drawBuffers(pass.drawBuffers);
+    gl.viewport(0, 0, pass.size.width, pass.size.height);
+
+    Object.entries(pass.inputs ?? {}).forEach(([name, texture], unit) => {
+        gl.activeTexture(gl.TEXTURE0 + unit);
+        gl.bindTexture(gl.TEXTURE_2D, texture);
+        pass.program.set(name, unit);
+    });
+    if (pass.uniforms) pass.program.setAll(pass.uniforms);
+    gl.drawArrays(gl.TRIANGLE_STRIP, 0, 4);
+}
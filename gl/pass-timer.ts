@@ -0,0 +1,191 @@
+// ─────────────────────────────────────────────────────────────
+// Pass timing — GPU time per render stage from timer queries,
+// or CPU submit time where EXT_disjoint_timer_query_webgl2 is
+// missing (most Safari and Firefox builds).
+// ─────────────────────────────────────────────────────────────
+
+/**
+ * Stages of MotionEngine.render in the order they run. Detection covers the
+ * pre-blur and whichever of bgSub / MOG / optical flow / frame delay ran.
+ */
+export type RenderStage = 'upload' | 'detection' | 'morphology' | 'stats' | 'output';
+
+export const RENDER_STAGES: RenderStage[] = ['upload', 'detection', 'morphology', 'stats', 'output'];
+
+export interface StageTiming {
+    mean: number; // ms
+    p95: number;  // ms
+}
+
+export interface PassTimings {
+    source: 'gpu' | 'cpu'; // cpu: time to issue the commands, the GPU may still be busy
+    frames: number;        // Frames in the window the figures cover
+    stages: Record<RenderStage, StageTiming>;
+    total: StageTiming;
+}
+
+// Not in the TS DOM lib
+interface TimerQueryExtension {
+    readonly TIME_ELAPSED_EXT: number;
+    readonly GPU_DISJOINT_EXT: number;
+}
+
+const SAMPLE_WINDOW = 300; // Frames kept for the mean / p95, ~10 s at 30 fps
+const MAX_PENDING_FRAMES = 8; // Frames of queries in flight before timing is skipped
+
+type FrameSample = Record<RenderStage, number>;
+
+const emptySample = (): FrameSample => ({ upload: 0, detection: 0, morphology: 0, stats: 0, output: 0 });
+
+const summarize = (values: number[]): StageTiming => {
+    if (!values.length) return { mean: 0, p95: 0 };
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+        mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+        p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+    };
+};
+
+export class PassTimer {
+    private ext: TimerQueryExtension | null;
+    private enabled = false;
+    private samples: FrameSample[] = [];
+
+    // GPU path: one query per stage, resolved a few frames later
+    private pending: { stage: RenderStage; query: WebGLQuery }[][] = [];
+    private frameQueries: { stage: RenderStage; query: WebGLQuery }[] | null = null;
+    private queryActive = false; // begin() started a query that end() has to close
+
+    // CPU path
+    private cpuSample: FrameSample | null = null;
+    private stageStart = 0;
+    private stage: RenderStage | null = null;
+
+    constructor(private gl: WebGL2RenderingContext) {
+        this.ext = gl.getExtension('EXT_disjoint_timer_query_webgl2') as TimerQueryExtension | null;
+    }
+
+    public get source(): 'gpu' | 'cpu' {
+        return this.ext ? 'gpu' : 'cpu';
+    }
+
+    public setEnabled(enabled: boolean) {
+        if (enabled === this.enabled) return;
+        this.enabled = enabled;
+        this.reset();
+    }
+
+    public isEnabled(): boolean {
+        return this.enabled;
+    }
+
+    /** Drops collected samples and any queries still in flight. */
+    public reset() {
+        this.pending.flat().forEach(({ query }) => this.gl.deleteQuery(query));
+        this.frameQueries?.forEach(({ query }) => this.gl.deleteQuery(query));
+        this.pending = [];
+        this.frameQueries = null;
+        this.queryActive = false;
+        this.cpuSample = null;
+        this.stage = null;
+        this.samples = [];
+    }
+
+    public beginFrame() {
+        if (!this.enabled) return;
+        this.poll();
+        if (this.ext) {
+            // A stalled GPU would grow the backlog without bound
+            this.frameQueries = this.pending.length < MAX_PENDING_FRAMES ? [] : null;
+        } else {
+            this.cpuSample = emptySample();
+        }
+    }
+
+    /** Starts timing `stage`; stages must not nest. */
+    public begin(stage: RenderStage) {
+        if (this.ext) {
+            if (!this.frameQueries) return;
+            // Null when the context is lost; the stage then goes untimed
+            const query = this.gl.createQuery();
+            if (!query) return;
+            this.gl.beginQuery(this.ext.TIME_ELAPSED_EXT, query);
+            this.frameQueries.push({ stage, query });
+            this.queryActive = true;
+        } else if (this.cpuSample) {
+            this.stage = stage;
+            this.stageStart = performance.now();
+        }
+    }
+
+    public end() {
+        if (this.ext) {
+            if (!this.queryActive) return;
+            this.gl.endQuery(this.ext.TIME_ELAPSED_EXT);
+            this.queryActive = false;
+        } else if (this.cpuSample && this.stage) {
+            this.cpuSample[this.stage] += performance.now() - this.stageStart;
+            this.stage = null;
+        }
+    }
+
+    public endFrame() {
+        if (this.frameQueries?.length) this.pending.push(this.frameQueries);
+        this.frameQueries = null;
+        if (this.cpuSample) this.addSample(this.cpuSample);
+        this.cpuSample = null;
+    }
+
+    /** Mean and p95 over the last SAMPLE_WINDOW timed frames; null until one resolves. */
+    public getTimings(): PassTimings | null {
+        this.poll();
+        if (!this.samples.length) return null;
+        const stages = {} as Record<RenderStage, StageTiming>;
+        RENDER_STAGES.forEach((stage) => {
+            stages[stage] = summarize(this.samples.map((s) => s[stage]));
+        });
+        return {
+            source: this.source,
+            frames: this.samples.length,
+            stages,
+            total: summarize(this.samples.map((s) => RENDER_STAGES.reduce((sum, stage) => sum + s[stage], 0))),
+        };
+    }
+
+    public dispose() {
+        this.reset();
+        this.enabled = false;
+    }
+
+    // Collects finished frames, oldest first; results are in order, so stop at the first unfinished one
+    private poll() {
+        const gl = this.gl;
+        const ext = this.ext;
+        if (!ext) return;
+
+        while (this.pending.length) {
+            const queries = this.pending[0];
+            const last = queries[queries.length - 1].query;
+            if (!gl.getQueryParameter(last, gl.QUERY_RESULT_AVAILABLE)) break;
+            this.pending.shift();
+
+            // A disjoint event (clock change, context switch) invalidates everything in flight
+            if (gl.getParameter(ext.GPU_DISJOINT_EXT)) {
+                [queries, ...this.pending].flat().forEach(({ query }) => gl.deleteQuery(query));
+                this.pending = [];
+                break;
+            }
+            const sample = emptySample();
+            queries.forEach(({ stage, query }) => {
+                sample[stage] += gl.getQueryParameter(query, gl.QUERY_RESULT) / 1e6; // ns → ms
+                gl.deleteQuery(query);
+            });
+            this.addSample(sample);
+        }
+    }
+
+    private addSample(sample: FrameSample) {
+        this.samples.push(sample);
+        if (this.samples.length > SAMPLE_WINDOW) this.samples.shift();
+    }
+}
@@ -8,6 +8,87 @@ void main() {
 }
 `;
 
+// RGBA8 fallback (no renderable float targets): values that need more than
+// 8 bits are stored as high and low bytes in two channels
+const packingSource = `// ── Utility: [0, 1] value ↔ two 8-bit channels ──
+vec2 packUnit16(float v) {
+  float q = floor(clamp(v, 0.0, 1.0) * 65535.0 + 0.5);
+  float hi = floor(q / 256.0);
+  return vec2(hi, q - hi * 256.0) / 255.0;
+}
+
+float unpackUnit16(float hi, float lo) {
+  return (round(hi * 255.0) * 256.0 + round(lo * 255.0)) / 65535.0;
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Resample — the video down to processing size, averaging the
+// video texels under each processing texel so it doesn't alias.
+// A grid of bilinear taps no more than a texel apart is a box filter.
+// ─────────────────────────────────────────────────────────────
+export const resampleFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_image;
+uniform vec2 u_resolution; // Processing size
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+const int MAX_TAPS = 8; // Per axis
+
+void main() {
+  vec2 footprint = 1.0 / u_resolution;
+  ivec2 taps = clamp(ivec2(ceil(vec2(textureSize(u_image, 0)) * footprint)), 1, MAX_TAPS);
+  vec2 origin = v_texCoord - 0.5 * footprint;
+
+  vec4 sum = vec4(0.0);
+  for (int j = 0; j < MAX_TAPS; j++) {
+    if (j >= taps.y) break;
+    for (int i = 0; i < MAX_TAPS; i++) {
+      if (i >= taps.x) break;
+      sum += texture(u_image, origin + (vec2(i, j) + 0.5) / vec2(taps) * footprint);
+    }
+  }
+  o_color = sum / float(taps.x * taps.y);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Pre-blur — one axis of a separable Gaussian (noise reduction).
+// The horizontal pass also resamples the video to processing size
+// when it isn't downscaled.
+// ─────────────────────────────────────────────────────────────
+export const gaussianBlurFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_image;
+uniform vec2 u_step;    // One output texel along the blur axis, in UV
+uniform float u_sigma;  // In output texels
+uniform int u_radius;   // Taps per side, ≤ MAX_BLUR_RADIUS
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+const int MAX_BLUR_RADIUS = 16;
+
+void main() {
+  vec4 sum = texture(u_image, v_texCoord);
+  float weightSum = 1.0;
+
+  for (int i = 1; i <= MAX_BLUR_RADIUS; i++) {
+    if (i > u_radius) break;
+    float w = exp(-float(i * i) / (2.0 * u_sigma * u_sigma));
+    vec2 offset = u_step * float(i);
+    sum += w * (texture(u_image, v_texCoord + offset) + texture(u_image, v_texCoord - offset));
+    weightSum += 2.0 * w;
+  }
+
+  o_color = sum / weightSum;
+}
+`;
+
 // ─────────────────────────────────────────────────────────────
 // Background Subtraction — outputs a SOFT mask via smoothstep
 // ─────────────────────────────────────────────────────────────
@@ -17,11 +98,19 @@ precision highp float;
 uniform sampler2D u_image;
 uniform sampler2D u_backgroundMean;
 uniform sampler2D u_backgroundVariance;
+uniform sampler2D u_zoneMask; // 1.0 = detect here, 0.0 = ignored zone
 
 uniform float u_adaptationRate;
 uniform float u_threshold;
 uniform bool u_isColorMode;
 uniform float u_minVariance;
+uniform bool u_freezeOutsideZones;
+uniform bool u_shadowDetection;
+uniform float u_relightRate; // Non-zero while a global illumination change is absorbed
+uniform bool u_seed; // First frame after a reset: take the frame as the mean, the variance at its floor
+uniform bool u_packedTargets; // RGBA8: mean / variance hold the high / low bytes of (mean.rgb, variance)
+
+const float SHADOW_MIN_RATIO = 0.5; // Darkest brightness ratio still considered a shadow
 
 in vec2 v_texCoord;
 
@@ -29,10 +118,17 @@ layout(location = 0) out vec4 o_newMean;
 layout(location = 1) out vec4 o_newVariance;
 layout(location = 2) out vec4 o_motionMask;
 
+${packingSource}
 void main() {
   vec4 current = texture(u_image, v_texCoord);
   vec4 mean    = texture(u_backgroundMean, v_texCoord);
   vec4 variance = texture(u_backgroundVariance, v_texCoord);
+  if (u_packedTargets) {
+    vec4 hi = mean;
+    vec4 lo = variance;
+    mean     = vec4(unpackUnit16(hi.r, lo.r), unpackUnit16(hi.g, lo.g), unpackUnit16(hi.b, lo.b), 1.0);
+    variance = vec4(unpackUnit16(hi.a, lo.a), 0.0, 0.0, 1.0);
+  }
 
   float dist = 0.0;
   float var  = 0.0;
@@ -59,8 +155,26 @@ void main() {
 
   float bgWeight = 1.0 - soft; // How "background-ish" this pixel is
   float alpha    = u_adaptationRate * bgWeight; // Only adapt background regions
+  alpha = max(alpha, u_relightRate); // Relighting: adapt everywhere, motion or not
 
-  if (u_isColorMode) {
+  // ── Shadow: darker than the mean but the same chromaticity (needs color) ──
+  if (u_shadowDetection && u_isColorMode) {
+    float ratio      = dot(current.rgb, mean.rgb) / max(dot(mean.rgb, mean.rgb), 1e-6);
+    float chromaDist = length(current.rgb - ratio * mean.rgb);
+    if (ratio >= SHADOW_MIN_RATIO && ratio < 1.0 && chromaDist < edge * 0.6) soft = 0.0;
+  }
+
+  // ── Zones: drop motion outside allowed areas, optionally keep their model frozen ──
+  float zone = texture(u_zoneMask, v_texCoord).r;
+  if (u_freezeOutsideZones) alpha *= zone;
+  soft *= zone;
+
+  if (u_seed) {
+    // The difference to the old mean is the jump being reset away, not noise
+    float curLum = dot(current.rgb, vec3(0.299, 0.587, 0.114));
+    newMean = mix(mean, u_isColorMode ? current : vec4(curLum), alpha);
+    newVariance.r = mix(variance.r, u_minVariance, alpha);
+  } else if (u_isColorMode) {
     newMean = mix(mean, current, alpha);
     float lumDiff = dot(current.rgb, vec3(0.333)) - dot(mean.rgb, vec3(0.333));
     newVariance.r = mix(variance.r, lumDiff * lumDiff, alpha);
@@ -71,34 +185,212 @@ void main() {
     newVariance.r = mix(variance.r, d * d, alpha);
   }
 
-  o_newMean     = vec4(newMean.rgb, 1.0);
-  o_newVariance = vec4(newVariance.rgb, 1.0);
+  if (u_packedTargets) {
+    vec2 r = packUnit16(newMean.r);
+    vec2 g = packUnit16(newMean.g);
+    vec2 b = packUnit16(newMean.b);
+    vec2 v = packUnit16(newVariance.r);
+    o_newMean     = vec4(r.x, g.x, b.x, v.x);
+    o_newVariance = vec4(r.y, g.y, b.y, v.y);
+  } else {
+    o_newMean     = vec4(newMean.rgb, 1.0);
+    o_newVariance = vec4(newVariance.rgb, 1.0);
+  }
   o_motionMask  = vec4(soft, soft, soft, 1.0);
 }
 `;
 
 // ─────────────────────────────────────────────────────────────
-// Morphology — Erosion / Dilation on soft mask
+// Mixture of Gaussians (MOG2-style) — K = 3 weighted components
+// Model layout: u_model0..2 = (mean.rgb, weight), u_modelVar = (var0, var1, var2, mask)
+// ─────────────────────────────────────────────────────────────
+export const mogFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_image;
+uniform sampler2D u_model0;
+uniform sampler2D u_model1;
+uniform sampler2D u_model2;
+uniform sampler2D u_modelVar;
+uniform sampler2D u_zoneMask;
+
+uniform float u_adaptationRate;
+uniform float u_frameCount;  // Frames since the model was reset, for the learning-rate schedule
+uniform bool u_seed;         // First frame since the reset
+uniform float u_threshold;   // Distance in σ to the nearest background component that counts as motion
+uniform bool u_isColorMode;
+uniform bool u_freezeOutsideZones;
+uniform bool u_shadowDetection;
+
+in vec2 v_texCoord;
+
+layout(location = 0) out vec4 o_model0;
+layout(location = 1) out vec4 o_model1;
+layout(location = 2) out vec4 o_model2;
+layout(location = 3) out vec4 o_modelVar;
+
+const int   K = 3;
+const float MATCH_SIGMA2     = 9.0;  // A sample matches a component within 3σ
+const float BACKGROUND_RATIO = 0.9;  // Heaviest components covering this much weight are background
+const float VAR_INIT   = 0.01;
+const float VAR_MIN    = 0.0004;
+const float VAR_MAX    = 0.25;
+const float SHADOW_TAU = 0.5;        // Darkest brightness ratio still considered a shadow
+
+void main() {
+  vec3 x = texture(u_image, v_texCoord).rgb;
+  if (!u_isColorMode) x = vec3(dot(x, vec3(0.299, 0.587, 0.114)));
+
+  vec4 m0   = texture(u_model0, v_texCoord);
+  vec4 m1   = texture(u_model1, v_texCoord);
+  vec4 m2   = texture(u_model2, v_texCoord);
+  vec4 vars = texture(u_modelVar, v_texCoord);
+
+  // Components are kept sorted by weight, heaviest first
+  vec3  mu[K]  = vec3[K](m0.rgb, m1.rgb, m2.rgb);
+  float w[K]   = float[K](m0.a, m1.a, m2.a);
+  float var[K] = float[K](vars.r, vars.g, vars.b);
+  float zone   = texture(u_zoneMask, v_texCoord).r;
+
+  // ── Seed: the frame becomes the only component; nothing to compare it with yet ──
+  if (u_seed && !(u_freezeOutsideZones && zone <= 0.0)) {
+    o_model0   = vec4(x, 1.0);
+    o_model1   = vec4(0.0);
+    o_model2   = vec4(0.0);
+    o_modelVar = vec4(VAR_INIT, VAR_INIT, VAR_INIT, 0.0);
+    return;
+  }
+
+  // ── Classify against the background components ──
+  float bestDist  = 1e6; // Mahalanobis distance (σ) to the closest background component
+  bool  shadow    = false;
+  float cumWeight = 0.0;
+  for (int k = 0; k < K; k++) {
+    if (cumWeight > BACKGROUND_RATIO || w[k] <= 0.0) break;
+    cumWeight += w[k];
+
+    vec3 d = x - mu[k];
+    bestDist = min(bestDist, sqrt(dot(d, d) / var[k]));
+
+    // Shadow: darker than the component, but the same chromaticity
+    if (u_shadowDetection) {
+      float a = dot(x, mu[k]) / max(dot(mu[k], mu[k]), 1e-6);
+      vec3 chroma = x - a * mu[k];
+      if (a >= SHADOW_TAU && a <= 1.0 && dot(chroma, chroma) < MATCH_SIGMA2 * var[k] * a * a) shadow = true;
+    }
+  }
+
+  float soft = smoothstep(u_threshold * 0.6, u_threshold * 1.4, bestDist);
+  if (shadow) soft = 0.0;
+  soft *= zone;
+
+  // ── Update: 1/n schedule bootstraps the model, then settles at the adaptation rate ──
+  float alpha = max(u_adaptationRate, 1.0 / (u_frameCount + 1.0));
+  if (u_freezeOutsideZones) alpha *= zone;
+
+  if (alpha > 0.0) {
+    int matched = -1;
+    for (int k = 0; k < K; k++) {
+      vec3 d = x - mu[k];
+      float d2 = dot(d, d);
+      bool isMatch = matched < 0 && w[k] > 0.0 && d2 < MATCH_SIGMA2 * var[k];
+
+      w[k] = (1.0 - alpha) * w[k] + (isMatch ? alpha : 0.0);
+      if (isMatch) {
+        matched = k;
+        float rho = alpha / max(w[k], alpha);
+        mu[k]  += rho * d;
+        var[k]  = clamp(var[k] + rho * (d2 - var[k]), VAR_MIN, VAR_MAX);
+      }
+    }
+
+    // No match: the weakest component is replaced by the new sample
+    if (matched < 0) {
+      mu[K - 1]  = x;
+      var[K - 1] = VAR_INIT;
+      w[K - 1]   = alpha;
+    }
+
+    float total = w[0] + w[1] + w[2];
+    if (total > 0.0) {
+      for (int k = 0; k < K; k++) w[k] /= total;
+    }
+
+    // Insertion sort by weight (K is tiny)
+    for (int i = 1; i < K; i++) {
+      for (int j = i; j > 0 && w[j] > w[j - 1]; j--) {
+        float tw = w[j]; w[j] = w[j - 1]; w[j - 1] = tw;
+        float tv = var[j]; var[j] = var[j - 1]; var[j - 1] = tv;
+        vec3 tm = mu[j]; mu[j] = mu[j - 1]; mu[j - 1] = tm;
+      }
+    }
+  }
+
+  o_model0   = vec4(mu[0], w[0]);
+  o_model1   = vec4(mu[1], w[1]);
+  o_model2   = vec4(mu[2], w[2]);
+  o_modelVar = vec4(var[0], var[1], var[2], soft);
+}
+`;
+
+// Copies the MOG mask out of the model's alpha channel (the model already fills all 4 draw buffers)
+export const mogMaskFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_modelVar;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+void main() {
+  float soft = texture(u_modelVar, v_texCoord).a;
+  o_color = vec4(soft, soft, soft, 1.0);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Morphology — Erosion / Dilation on soft mask, plus the
+// difference pass the gradient and top-hat operations finish with
 // ─────────────────────────────────────────────────────────────
 export const morphologyFragmentSource = `#version 300 es
 precision highp float;
 
 uniform sampler2D u_image;
+uniform sampler2D u_other;   // Subtracted from u_image in difference mode
 uniform vec2 u_resolution;
-uniform int u_type; // 0 = erode, 1 = dilate
+uniform int u_type;          // 0 = erode, 1 = dilate, 2 = difference
+uniform int u_shape;         // 0 = square, 1 = disk, 2 = cross, 3 = line along u_direction
+uniform int u_radius;
+uniform vec2 u_direction;    // Texel step of the line shape
 
 in vec2 v_texCoord;
 out vec4 o_color;
 
+const int MAX_MORPH_RADIUS = 8;
+
+float combine(float val, float n) {
+  return u_type == 0 ? min(val, n) : max(val, n);
+}
+
 void main() {
   vec2 px = 1.0 / u_resolution;
   float val = texture(u_image, v_texCoord).r;
+  int r = min(u_radius, MAX_MORPH_RADIUS);
 
-  for (int i = -1; i <= 1; i++) {
-    for (int j = -1; j <= 1; j++) {
-      float n = texture(u_image, v_texCoord + vec2(float(i), float(j)) * px).r;
-      if (u_type == 0) val = min(val, n);
-      else             val = max(val, n);
+  if (u_type == 2) {
+    val = max(val - texture(u_other, v_texCoord).r, 0.0);
+  } else if (u_shape == 3) {
+    for (int i = -r; i <= r; i++) {
+      val = combine(val, texture(u_image, v_texCoord + u_direction * float(i) * px).r);
+    }
+  } else {
+    float diskR2 = (float(r) + 0.5) * (float(r) + 0.5);
+    for (int j = -r; j <= r; j++) {
+      for (int i = -r; i <= r; i++) {
+        if (u_shape == 1 && float(i * i + j * j) > diskR2) continue;
+        if (u_shape == 2 && i != 0 && j != 0) continue;
+        val = combine(val, texture(u_image, v_texCoord + vec2(float(i), float(j)) * px).r);
+      }
     }
   }
 
@@ -107,21 +399,225 @@ void main() {
 `;
 
 // ─────────────────────────────────────────────────────────────
-// Output — All visual effects, properly composited
+// Hole fill — still pixels the frame border can't reach through
+// other still pixels are enclosed. A sweep spreads "outside" along
+// runs of still pixels in one axis: the flags carry it from either
+// side plus whether motion blocks the way, and each propagate pass
+// doubles how far they have travelled.
 // ─────────────────────────────────────────────────────────────
-export const outputFragmentSource = `#version 300 es
+export const holeFillFragmentSource = `#version 300 es
 precision highp float;
 
-uniform sampler2D u_video;
+uniform sampler2D u_image;   // Flags of the previous sweep: (outside from before, motion before, outside from after, motion after)
 uniform sampler2D u_mask;
-uniform int  u_effect;   // 0=classic, 1=colorBurn, 2=trails, 3=heatmap, 4=chromatic
-uniform bool u_invert;
 uniform vec2 u_resolution;
+uniform int u_mode;          // 0 = seed, 1 = propagate, 2 = finalize
+uniform bool u_first;        // Seed only: no previous sweep, the frame border is outside
+uniform vec2 u_axis;         // (1, 0) for rows, (0, 1) for columns
+uniform float u_step;        // Propagation distance in texels
+uniform float u_threshold;   // Mask value that counts as motion
 
 in vec2 v_texCoord;
 out vec4 o_color;
 
-// ── Utility: 5-stop heatmap palette ──
+float outside(vec4 flags) { return max(flags.r, flags.b); }
+
+void main() {
+  vec2 px = 1.0 / u_resolution;
+  float mask = texture(u_mask, v_texCoord).r;
+  float motion = step(u_threshold, mask);
+
+  if (u_mode == 0) {
+    vec2 edge = min(gl_FragCoord.xy, u_resolution - gl_FragCoord.xy); // 0.5 on border texels
+    float seed = u_first ? step(min(edge.x, edge.y), 1.0) : outside(texture(u_image, v_texCoord));
+    seed *= 1.0 - motion;
+    o_color = vec4(seed, motion, seed, motion);
+  } else if (u_mode == 1) {
+    // Clamp-to-edge only re-reads texels the flags already cover
+    vec2 d = u_axis * u_step * px;
+    vec4 f = texture(u_image, v_texCoord);
+    vec4 before = texture(u_image, v_texCoord - d);
+    vec4 after = texture(u_image, v_texCoord + d);
+    o_color = vec4(
+      max(f.r, (1.0 - f.g) * before.r), max(f.g, before.g),
+      max(f.b, (1.0 - f.a) * after.b), max(f.a, after.a)
+    );
+  } else {
+    float hole = (1.0 - motion) * (1.0 - outside(texture(u_image, v_texCoord)));
+    o_color = vec4(vec3(max(mask, hole)), 1.0);
+  }
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Optical Flow 1/2 — spatio-temporal gradients (Ix, Iy, It)
+// ─────────────────────────────────────────────────────────────
+export const flowGradientFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_image;        // Current video frame
+uniform sampler2D u_previousGray; // Luminance of the previous frame (.r)
+uniform vec2 u_resolution;
+
+in vec2 v_texCoord;
+
+layout(location = 0) out vec4 o_gradients; // (Ix, Iy, It, 1)
+layout(location = 1) out vec4 o_gray;      // Current luminance, read back as "previous" next frame
+
+float lum(vec2 uv)     { return dot(texture(u_image, uv).rgb, vec3(0.299, 0.587, 0.114)); }
+float prevLum(vec2 uv) { return texture(u_previousGray, uv).r; }
+
+void main() {
+  vec2 dx = vec2(1.0 / u_resolution.x, 0.0);
+  vec2 dy = vec2(0.0, 1.0 / u_resolution.y);
+
+  float cur = lum(v_texCoord);
+
+  // Central differences, averaged over both frames
+  float ix = 0.25 * (lum(v_texCoord + dx) - lum(v_texCoord - dx) + prevLum(v_texCoord + dx) - prevLum(v_texCoord - dx));
+  float iy = 0.25 * (lum(v_texCoord + dy) - lum(v_texCoord - dy) + prevLum(v_texCoord + dy) - prevLum(v_texCoord - dy));
+  float it = cur - prevLum(v_texCoord);
+
+  o_gradients = vec4(ix, iy, it, 1.0);
+  o_gray      = vec4(cur, cur, cur, 1.0);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Optical Flow 2/2 — Lucas–Kanade over a square window
+// ─────────────────────────────────────────────────────────────
+export const opticalFlowFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_gradients;
+uniform sampler2D u_zoneMask;
+uniform vec2 u_resolution;
+uniform int u_windowRadius;
+uniform float u_threshold;  // Flow magnitude in px/frame that counts as motion
+uniform float u_minEigen;   // Rejects flat / aperture-limited windows
+
+in vec2 v_texCoord;
+
+layout(location = 0) out vec4 o_flow;       // (vx, vy, magnitude, 1) in px/frame, texture space
+layout(location = 1) out vec4 o_motionMask; // Only written in opticalFlow detection mode
+
+void main() {
+  vec2 px = 1.0 / u_resolution;
+
+  // Structure tensor A = [a11 a12; a12 a22] and b = -[Σ Ix·It, Σ Iy·It]
+  float a11 = 0.0, a12 = 0.0, a22 = 0.0, b1 = 0.0, b2 = 0.0;
+  for (int j = -u_windowRadius; j <= u_windowRadius; j++) {
+    for (int i = -u_windowRadius; i <= u_windowRadius; i++) {
+      vec3 g = texture(u_gradients, v_texCoord + vec2(float(i), float(j)) * px).xyz;
+      a11 += g.x * g.x;
+      a12 += g.x * g.y;
+      a22 += g.y * g.y;
+      b1  -= g.x * g.z;
+      b2  -= g.y * g.z;
+    }
+  }
+
+  float det   = a11 * a22 - a12 * a12;
+  float tr    = a11 + a22;
+  float eigen = 0.5 * (tr - sqrt(max(tr * tr - 4.0 * det, 0.0)));
+
+  vec2 flow = vec2(0.0);
+  if (eigen > u_minEigen) {
+    flow = vec2(a22 * b1 - a12 * b2, a11 * b2 - a12 * b1) / det;
+  }
+
+  float mag  = length(flow);
+  float soft = smoothstep(u_threshold * 0.6, u_threshold * 1.4, mag);
+  soft *= texture(u_zoneMask, v_texCoord).r;
+
+  o_flow       = vec4(flow, mag, 1.0);
+  o_motionMask = vec4(soft, soft, soft, 1.0);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Frame Delay — difference against (a blend of) past frames
+// ─────────────────────────────────────────────────────────────
+export const frameDelayFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_image;     // Current video frame
+uniform sampler2D u_delayed0;  // Past frames from the history ring, nearest offset first
+uniform sampler2D u_delayed1;
+uniform sampler2D u_delayed2;
+uniform sampler2D u_delayed3;
+uniform int u_tapCount;        // 1-4 of the above are averaged
+uniform sampler2D u_zoneMask;
+uniform float u_threshold;
+
+in vec2 v_texCoord;
+
+layout(location = 0) out vec4 o_delayed;    // Blended past frame, read by the frameDelay effect
+layout(location = 1) out vec4 o_motionMask; // Only written in frameDelay detection mode
+
+void main() {
+  vec3 current = texture(u_image, v_texCoord).rgb;
+
+  vec3 delayed = texture(u_delayed0, v_texCoord).rgb;
+  if (u_tapCount > 1) delayed += texture(u_delayed1, v_texCoord).rgb;
+  if (u_tapCount > 2) delayed += texture(u_delayed2, v_texCoord).rgb;
+  if (u_tapCount > 3) delayed += texture(u_delayed3, v_texCoord).rgb;
+  delayed /= float(u_tapCount);
+
+  float dist = length(current - delayed);
+  float soft = smoothstep(u_threshold * 0.6, u_threshold * 1.4, dist);
+  soft *= texture(u_zoneMask, v_texCoord).r;
+
+  o_delayed    = vec4(delayed, 1.0);
+  o_motionMask = vec4(soft, soft, soft, 1.0);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Motion Stats — 4×4 block reduction of the mask down to 1×1
+// ─────────────────────────────────────────────────────────────
+export const statsReductionFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_sums;    // Seed pass: the mask itself
+uniform sampler2D u_bounds;  // Unused in the seed pass
+uniform ivec2 u_inputSize;
+uniform bool u_seed;
+uniform float u_movingThreshold;
+
+// Sums are divided by 16 per level so they stay in [0, 1] for half-float and RGBA8 targets
+layout(location = 0) out vec4 o_sums;   // (moving count, mask sum, mask*u sum, mask*v sum) / 16^level
+layout(location = 1) out vec4 o_bounds; // min of (u, v, 1-u, 1-v) over moving texels
+
+void main() {
+  ivec2 base = ivec2(gl_FragCoord.xy) * 4;
+  vec4 sums   = vec4(0.0);
+  vec4 bounds = vec4(2.0); // > 1.0 means "no moving texel"
+
+  for (int j = 0; j < 4; j++) {
+    for (int i = 0; i < 4; i++) {
+      ivec2 p = base + ivec2(i, j);
+      if (p.x >= u_inputSize.x || p.y >= u_inputSize.y) continue;
+
+      if (u_seed) {
+        float m = texelFetch(u_sums, p, 0).r;
+        vec2 uv = (vec2(p) + 0.5) / vec2(u_inputSize);
+        sums += vec4(step(u_movingThreshold, m), m, m * uv);
+        if (m >= u_movingThreshold) bounds = min(bounds, vec4(uv, 1.0 - uv));
+      } else {
+        sums  += texelFetch(u_sums, p, 0);
+        bounds = min(bounds, texelFetch(u_bounds, p, 0));
+      }
+    }
+  }
+
+  o_sums   = sums / 16.0;
+  o_bounds = bounds;
+}
+`;
+
+// Shared by the effect prelude and the exposure PNG export
+const heatPaletteSource = `// ── Utility: 5-stop heatmap palette ──
 vec3 heatPalette(float t) {
   t = clamp(t, 0.0, 1.0);
   // Dark → Deep Blue → Cyan → Green/Yellow → Orange → White-hot
@@ -138,6 +634,62 @@ vec3 heatPalette(float t) {
   if (t < 0.8) return mix(d, e, (t - 0.6) / 0.2);
   return mix(e, f, (t - 0.8) / 0.2);
 }
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Output — shared prelude and main() around each effect snippet
+// (see effects.ts). A snippet defines vec3 effect(vec4 video, float mask)
+// and may use every input and helper declared here.
+// ─────────────────────────────────────────────────────────────
+export const effectPreludeSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_video;
+uniform sampler2D u_mask;
+uniform sampler2D u_flow; // (vx, vy, magnitude) in px/frame
+uniform sampler2D u_delayed; // Blended past frame(s) from the frame history
+uniform bool u_invert;
+uniform vec2 u_resolution;
+uniform float u_flowScale; // Flow magnitude shown at full brightness
+uniform sampler2D u_exposure; // Read through exposureAt()
+uniform float u_exposureFrames; // Frames averaged into u_exposure since the last reset
+uniform sampler2D u_backgroundMean; // Single-Gaussian background model, read through backgroundMeanAt()
+uniform sampler2D u_backgroundVariance; // Read through backgroundVarianceAt()
+uniform bool u_backgroundLuma; // Mean holds luminance in .r only
+uniform bool u_opaque; // MotionEffect.opaque
+uniform bool u_packedTargets; // RGBA8 fallback, see packUnit16
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+${heatPaletteSource}
+${packingSource}
+// ── Engine textures that may be packed ──
+// Fraction of frames each pixel was in motion since the last exposure reset
+float exposureAt(vec2 uv) {
+  vec4 e = texture(u_exposure, uv);
+  return u_packedTargets ? unpackUnit16(e.r, e.g) : e.r;
+}
+
+vec3 backgroundMeanAt(vec2 uv) {
+  vec4 mean = texture(u_backgroundMean, uv);
+  if (u_packedTargets) {
+    vec4 lo = texture(u_backgroundVariance, uv);
+    mean.rgb = vec3(unpackUnit16(mean.r, lo.r), unpackUnit16(mean.g, lo.g), unpackUnit16(mean.b, lo.b));
+  }
+  return u_backgroundLuma ? vec3(mean.r) : mean.rgb;
+}
+
+float backgroundVarianceAt(vec2 uv) {
+  vec4 variance = texture(u_backgroundVariance, uv);
+  return u_packedTargets ? unpackUnit16(texture(u_backgroundMean, uv).a, variance.a) : variance.r;
+}
+
+// ── Utility: HSV → RGB for the flow color wheel ──
+vec3 hsv2rgb(vec3 c) {
+  vec3 p = abs(fract(c.xxx + vec3(1.0, 2.0 / 3.0, 1.0 / 3.0)) * 6.0 - 3.0);
+  return c.z * mix(vec3(1.0), clamp(p - 1.0, 0.0, 1.0), c.y);
+}
 
 // ── Utility: Soft glow around motion edges ──
 float edgeGlow(float mask, float radius) {
@@ -156,102 +708,96 @@ float edgeGlow(float mask, float radius) {
   // Glow is strongest at edges (where avg differs from center)
   return smoothstep(0.0, 0.5, avg) * (1.0 - mask * 0.5);
 }
+`;
 
+export const effectMainSource = `
 void main() {
   vec4  video = texture(u_video, v_texCoord);
   float mask  = texture(u_mask, v_texCoord).r;
-  
+
   if (u_invert) mask = 1.0 - mask;
 
-  vec3 result = vec3(0.0);
+  o_color = vec4(effect(video, mask), u_opaque ? 1.0 : mask);
+}
+`;
 
-  // ════════════════════════════════════════════════════════════
-  // CLASSIC — Pure motion extraction (video colors on black)
-  // ════════════════════════════════════════════════════════════
-  if (u_effect == 0) {
-    result = video.rgb * mask;
-  }
+// ─────────────────────────────────────────────────────────────
+// Accumulation — trails for persistence effects. The effect renders
+// into a float frame, which is folded into a decaying ping-pong
+// buffer and then presented.
+// ─────────────────────────────────────────────────────────────
+export const accumulateFragmentSource = `#version 300 es
+precision highp float;
 
-  // ════════════════════════════════════════════════════════════
-  // COLOR BURN — Neon edge glow + video composite 
-  // ════════════════════════════════════════════════════════════
-  else if (u_effect == 1) {
-    vec3 neonCyan   = vec3(0.0, 0.95, 0.85);
-    vec3 neonPurple = vec3(0.6, 0.1, 0.95);
-    
-    // Edge detection from mask gradient
-    float glow = edgeGlow(mask, 2.0);
-    
-    // Mix cyan/purple based on vertical position for visual interest
-    vec3 edgeColor = mix(neonCyan, neonPurple, v_texCoord.y * 0.8 + 0.1);
-    
-    // Compose: dark background + video in motion areas + neon edge glow
-    vec3 base = video.rgb * mask * 0.85;
-    vec3 glowLayer = edgeColor * glow * 1.5;
-    
-    result = base + glowLayer;
-    
-    // Subtle vignette for cinematic feel
-    float vig = 1.0 - smoothstep(0.3, 0.9, length(v_texCoord - 0.5) * 1.2);
-    result *= mix(0.7, 1.0, vig);
-  }
+uniform sampler2D u_frame;    // This frame's effect output
+uniform sampler2D u_previous; // Accumulated so far
+uniform float u_decay;        // Kept fraction of the previous buffer per frame
+uniform int u_mode;           // 0 = additive, 1 = max
 
-  // ════════════════════════════════════════════════════════════
-  // ELECTRIC TRAILS — Persistence + glow (blending handled by engine)
-  // ════════════════════════════════════════════════════════════
-  else if (u_effect == 2) {
-    vec3 trailColor = vec3(0.1, 0.6, 1.0); // Electric blue base
-    vec3 hotColor   = vec3(1.0, 0.9, 0.7); // White-hot core
-    
-    // Core: video color where mask is strong
-    vec3 core = mix(trailColor, hotColor, mask * mask) * mask;
-    
-    // Outer glow
-    float glow = edgeGlow(mask, 3.0);
-    vec3 glowColor = trailColor * glow * 0.8;
-    
-    result = core + glowColor;
-  }
+in vec2 v_texCoord;
+out vec4 o_color;
 
-  // ════════════════════════════════════════════════════════════
-  // MOTION HEATMAP — Accumulated heat visualization
-  // ════════════════════════════════════════════════════════════
-  else if (u_effect == 3) {
-    vec3 heat = heatPalette(mask);
-    
-    // Add subtle glow for high-intensity areas
-    float glow = edgeGlow(mask, 2.5);
-    heat += vec3(1.0, 0.5, 0.1) * glow * 0.4;
-    
-    // Darken background, keep heat vivid
-    float bgDim = smoothstep(0.0, 0.05, mask);
-    result = mix(vec3(0.02, 0.01, 0.05), heat, bgDim);
-  }
+void main() {
+  vec3 frame = texture(u_frame, v_texCoord).rgb;
+  vec3 previous = texture(u_previous, v_texCoord).rgb * u_decay;
+  vec3 result = u_mode == 0 ? previous + frame : max(previous, frame);
+  o_color = vec4(result, 1.0);
+}
+`;
 
-  // ════════════════════════════════════════════════════════════
-  // CHROMATIC ABERRATION — RGB channel split on motion
-  // ════════════════════════════════════════════════════════════
-  else if (u_effect == 4) {
-    // Shift amount scales with motion intensity
-    float shift = mask * 0.015;
-    
-    // Directional shift based on position relative to center
-    vec2 dir = normalize(v_texCoord - 0.5 + 0.001);
-    
-    float r = texture(u_video, v_texCoord + dir * shift).r;
-    float g = video.g;
-    float b = texture(u_video, v_texCoord - dir * shift).b;
-    
-    vec3 aberrated = vec3(r, g, b);
-    
-    // Blend: show full video with aberration overlay in motion areas
-    result = mix(video.rgb, aberrated, smoothstep(0.05, 0.3, mask));
-    
-    // Subtle scanline effect in motion areas for style
-    float scanline = sin(v_texCoord.y * u_resolution.y * 1.5) * 0.5 + 0.5;
-    result -= vec3(0.03) * scanline * mask;
-  }
+export const presentFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_image;
+
+in vec2 v_texCoord;
+out vec4 o_color;
 
-  o_color = vec4(result, mask);
+void main() {
+  o_color = vec4(clamp(texture(u_image, v_texCoord).rgb, 0.0, 1.0), 1.0);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Long exposure — averages the mask over every frame since the
+// last reset (no decay) for the total-motion heatmap.
+// ─────────────────────────────────────────────────────────────
+export const exposureFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_mask;
+uniform sampler2D u_previous;
+uniform float u_weight; // 1 / frames averaged, including this one; fixed once the window is full
+uniform bool u_packedTargets; // RGBA8: the fraction is packed into .rg
+
+in vec2 v_texCoord;
+out vec4 o_fraction;
+
+${packingSource}
+void main() {
+  // A running mean rather than a sum, so half floats and RGBA8 don't saturate
+  vec4 p = texture(u_previous, v_texCoord);
+  float previous = u_packedTargets ? unpackUnit16(p.r, p.g) : p.r;
+  float fraction = previous + (texture(u_mask, v_texCoord).r - previous) * u_weight;
+  o_fraction = u_packedTargets ? vec4(packUnit16(fraction), 0.0, 1.0) : vec4(fraction, 0.0, 0.0, 1.0);
+}
+`;
+
+export const exposureColorFragmentSource = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_exposure;
+uniform float u_scale; // 1 / peak fraction, so the busiest pixel is white-hot
+uniform bool u_packedTargets;
+
+in vec2 v_texCoord;
+out vec4 o_color;
+
+${heatPaletteSource}
+${packingSource}
+void main() {
+  vec4 e = texture(u_exposure, v_texCoord);
+  float fraction = u_packedTargets ? unpackUnit16(e.r, e.g) : e.r;
+  o_color = vec4(heatPalette(fraction * u_scale), 1.0);
 }
 `;
@@ -0,0 +1,63 @@
+// ─────────────────────────────────────────────────────────────
+// Detection zones — include/exclude polygons rasterized into the
+// per-pixel weight the bgSub pass multiplies motion by.
+// ─────────────────────────────────────────────────────────────
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/** Polygon in normalized [0, 1] coordinates, origin top-left. */
+export interface Zone {
+    kind: 'include' | 'exclude';
+    points: Point[];
+}
+
+/** Row-major, top-down, 255 = detection allowed. */
+export interface ZoneMask {
+    data: Uint8Array;
+    width: number;
+    height: number;
+}
+
+/** Even-odd scanline fill of one polygon into `out` with `value`. */
+const fillPolygon = (points: Point[], width: number, height: number, out: Uint8Array, value: number) => {
+    const xs: number[] = [];
+    for (let y = 0; y < height; y++) {
+        const py = (y + 0.5) / height;
+        xs.length = 0;
+        for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+            const a = points[i];
+            const b = points[j];
+            if ((a.y > py) !== (b.y > py)) {
+                xs.push(a.x + ((py - a.y) / (b.y - a.y)) * (b.x - a.x));
+            }
+        }
+        xs.sort((p, q) => p - q);
+        for (let k = 0; k + 1 < xs.length; k += 2) {
+            // Pixel centers inside [xs[k], xs[k+1])
+            const x0 = Math.max(0, Math.ceil(xs[k] * width - 0.5));
+            const x1 = Math.min(width, Math.ceil(xs[k + 1] * width - 0.5));
+            out.fill(value, y * width + x0, y * width + Math.max(x0, x1));
+        }
+    }
+};
+
+/**
+ * Without include zones the whole frame is allowed; otherwise only their
+ * union is. Exclude zones are then cut out of whatever is allowed.
+ * Returns null when there is nothing to mask.
+ */
+export function rasterizeZones(zones: Zone[], width: number, height: number): ZoneMask | null {
+    const valid = zones.filter((z) => z.points.length >= 3);
+    if (!valid.length) return null;
+
+    const includes = valid.filter((z) => z.kind === 'include');
+    const data = new Uint8Array(width * height).fill(includes.length ? 0 : 255);
+
+    includes.forEach((z) => fillPolygon(z.points, width, height, data, 255));
+    valid.filter((z) => z.kind === 'exclude').forEach((z) => fillPolygon(z.points, width, height, data, 0));
+
+    return { data, width, height };
+}
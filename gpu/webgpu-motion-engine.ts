@@ -0,0 +1,834 @@
+/// <reference types="@webgpu/types" />
+import {
+    resampleSource,
+    gaussianBlurSource,
+    backgroundSubtractionSource,
+    morphologySource,
+    holeFillSource,
+    exposureSource,
+    statsBlocksSource,
+    statsFinalSource,
+    outputSource
+} from './wgsl';
+import {
+    MotionControls,
+    MotionStats,
+    FrameSource,
+    MOTION_THRESHOLD,
+    MIN_PROCESSING_RESOLUTION,
+    RELIGHT_MOVING_FRACTION,
+    RELIGHT_ADAPTATION_RATE,
+    RELIGHT_FRAMES,
+    BACKGROUND_WARM_UP_FRAMES
+} from '../gl/motion-engine';
+import type { MotionPipeline } from '../gl/motion-pipeline';
+import { BlobTracker, TrackedBlob } from '../gl/blob-tracker';
+import { PassTimings } from '../gl/pass-timer';
+import { ZoneMask } from '../gl/zone-mask';
+import { HOLE_FILL_SWEEPS, MorphStep, morphSteps, openCloseSteps } from '../gl/morphology';
+import { BUILTIN_EFFECTS, EffectDiagnostic, EffectUniformValue, MotionEffect, effectParam } from '../gl/effects';
+
+// ─────────────────────────────────────────────────────────────
+// WebGPU backend — the MotionEngine pipeline as WGSL compute
+// passes over storage buffers. Covers background subtraction
+// with a single Gaussian, morphology, statistics, blob grids and
+// the built-in effects that need nothing else; the rest stays on
+// the WebGL 2 engine.
+// ─────────────────────────────────────────────────────────────
+
+/** Built-in effects this backend renders, in the order of the output shader's switch; others show as 'classic'. */
+export const WEBGPU_EFFECTS = ['classic', 'colorBurn', 'heatmap', 'chromatic', 'backgroundMean', 'backgroundVariance'];
+
+export const isWebGPUSupported = () => typeof navigator !== 'undefined' && 'gpu' in navigator;
+
+/** Whether this backend renders `controls` in full; a tile whose settings don't pass runs MotionEngine instead. */
+export const isWebGPUCompatible = (controls: MotionControls) =>
+    (controls.detectionMode === 'color' || controls.detectionMode === 'luminance') &&
+    controls.backgroundModel === 'single' &&
+    WEBGPU_EFFECTS.includes(controls.effect);
+
+const WORKGROUP_SIZE = 8; // Per axis of the 2D passes, matches @workgroup_size(8, 8)
+const LINE_WORKGROUP_SIZE = 64; // Hole fill, one invocation per row or column
+const STATS_BLOCK = 4; // Pixels reduced per axis per invocation, matches the stats shader loop
+const MIN_VARIANCE = 0.05; // Matches u_minVariance in MotionEngine
+const MAX_BLUR_RADIUS = 16; // Taps per side, as in MotionEngine
+
+// Each pass gets its own slot of the uniform buffer, written once per frame. The
+// deepest plan (gradient or top-hat at 4 iterations of a large disk) needs about 40.
+const UNIFORM_SLOT_BYTES = 256; // minUniformBufferOffsetAlignment's largest allowed value
+const MAX_PASSES_PER_FRAME = 64;
+
+const MORPH_SHAPES: Record<MorphStep['shape'], number> = { square: 0, disk: 1, cross: 2, line: 3 };
+
+// Uniform struct fields, packed as 4-byte scalars in declaration order
+type UniformField = ['f32' | 'u32' | 'i32', number];
+const f32 = (value: number): UniformField => ['f32', value];
+const u32 = (value: number | boolean): UniformField => ['u32', Number(value)];
+const i32 = (value: number): UniformField => ['i32', value];
+
+const storage = (buffer: GPUBuffer): GPUBufferBinding => ({ buffer });
+
+interface Pipelines {
+    resample: GPUComputePipeline;
+    blur: GPUComputePipeline;
+    bgSub: GPUComputePipeline;
+    morph: GPUComputePipeline;
+    holeFillRows: GPUComputePipeline;
+    holeFillColumns: GPUComputePipeline;
+    exposure: GPUComputePipeline;
+    statsBlocks: GPUComputePipeline;
+    statsFinal: GPUComputePipeline;
+    output: GPURenderPipeline;
+}
+
+// Async creation, so a shader that doesn't compile rejects instead of failing silently at the first dispatch
+const createPipelines = async (device: GPUDevice, format: GPUTextureFormat): Promise<Pipelines> => {
+    const compute = (code: string, entryPoint = 'main') => device.createComputePipelineAsync({
+        layout: 'auto',
+        compute: { module: device.createShaderModule({ code }), entryPoint },
+    });
+    const holeFill = device.createShaderModule({ code: holeFillSource });
+    const output = device.createShaderModule({ code: outputSource });
+
+    const [resample, blur, bgSub, morph, holeFillRows, holeFillColumns, exposure, statsBlocks, statsFinal, outputPipeline] = await Promise.all([
+        compute(resampleSource),
+        compute(gaussianBlurSource),
+        compute(backgroundSubtractionSource),
+        compute(morphologySource),
+        device.createComputePipelineAsync({ layout: 'auto', compute: { module: holeFill, entryPoint: 'rows' } }),
+        device.createComputePipelineAsync({ layout: 'auto', compute: { module: holeFill, entryPoint: 'columns' } }),
+        compute(exposureSource),
+        compute(statsBlocksSource),
+        compute(statsFinalSource),
+        device.createRenderPipelineAsync({
+            layout: 'auto',
+            vertex: { module: output, entryPoint: 'vertexMain' },
+            fragment: { module: output, entryPoint: 'fragmentMain', targets: [{ format }] },
+            primitive: { topology: 'triangle-list' },
+        }),
+    ]);
+    return { resample, blur, bgSub, morph, holeFillRows, holeFillColumns, exposure, statsBlocks, statsFinal, output: outputPipeline };
+};
+
+const requestDevice = async () => {
+    const adapter = await navigator.gpu.requestAdapter({ powerPreference: 'high-performance' });
+    if (!adapter) return null;
+    return { adapter, device: await adapter.requestDevice() };
+};
+
+/**
+ * MotionPipeline on WebGPU. Create it with WebGPUMotionEngine.create, which
+ * resolves to null where WebGPU is unavailable so the caller can fall back to
+ * MotionEngine on the same canvas. Dispatches 'contextlost' / 'contextrestored'
+ * when the device is lost and replaced.
+ *
+ * Settings that fail isWebGPUCompatible degrade rather than throw: optical
+ * flow and frame delay detect by luminance, the mixture model runs as a
+ * single Gaussian, and effects outside WEBGPU_EFFECTS (custom GLSL included)
+ * render as 'classic'. Background snapshots, the heatmap export and
+ * per-stage timings need the WebGL 2 engine.
+ */
+export class WebGPUMotionEngine extends EventTarget implements MotionPipeline {
+    private width = 0;
+    private height = 0;
+    // Detection size: engine size × processingResolution
+    private procWidth = 0;
+    private procHeight = 0;
+    private processingScale = 1;
+    private contextLost = false;
+    private disposed = false;
+
+    private sampler: GPUSampler; // Linear, clamp-to-edge; video and zone mask
+    private zoneTexture: GPUTexture; // R8 detection-zone weight, 1×1 white when no zones
+    private zoneMask: ZoneMask | null = null;
+
+    // One 256-byte slot per pass, staged here and uploaded with a single write per frame
+    private uniformBuffer: GPUBuffer;
+    private uniformData = new ArrayBuffer(MAX_PASSES_PER_FRAME * UNIFORM_SLOT_BYTES);
+    private uniformSlots = 0;
+
+    // Everything is at processing size, rows top-down
+    private buffers: {
+        frame: GPUBuffer; // vec4 per pixel: the resampled (and blurred) video
+        blurScratch: GPUBuffer; // Horizontal blur pass
+        mean: GPUBuffer; // vec4; luminance in .r only outside color mode
+        variance: GPUBuffer;
+        mask: [GPUBuffer, GPUBuffer, GPUBuffer, GPUBuffer]; // Raw mask, then morphology outputs and scratch
+        holeFlags: GPUBuffer; // u32 per pixel, 1 where the hole fill has reached it from the border
+        exposure: GPUBuffer; // Long-exposure running mean of the mask
+        coverage: GPUBuffer; // Moving fraction of each 4×4 block, the blob grid
+        partials: GPUBuffer; // (sums, bounds) per stats workgroup
+        statsResult: GPUBuffer; // Final (sums, bounds)
+        statsReadback: GPUBuffer;
+        blobReadback: GPUBuffer;
+        gridWidth: number;
+        gridHeight: number;
+    } | null = null;
+
+    // One readback of each kind in flight; frames in between simply aren't sampled
+    private pendingStats: { frame: number; pixels: number } | null = null;
+    private latestStats: MotionStats | null = null;
+    private blobTracker = new BlobTracker();
+    private pendingBlobGrid: { width: number; height: number; minArea: number; discarded: boolean } | null = null;
+
+    private exposureFrames = 0;
+    private relightFramesLeft = 0;
+    private warmUpFramesLeft = 0; // Set by resetBackground; the first of them seeds the model outright
+    private warmUpFrames = 0;
+    private backgroundFrozen = false;
+    private relightCheckedFrame = -1;
+
+    private frameIndex = 0;
+    private isInitialized = false;
+
+    /**
+     * Resolves to null when there is no WebGPU adapter or `canvas` can't give
+     * a WebGPU context; rejects if the shaders don't build. The canvas is only
+     * claimed once everything else succeeded, so it is still free for WebGL 2
+     * in either case.
+     */
+    public static async create(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<WebGPUMotionEngine | null> {
+        if (!isWebGPUSupported()) return null;
+        const requested = await requestDevice();
+        if (!requested) return null;
+        const { adapter, device } = requested;
+        const format = navigator.gpu.getPreferredCanvasFormat();
+        let pipelines: Pipelines;
+        try {
+            pipelines = await createPipelines(device, format);
+        } catch (e) {
+            device.destroy();
+            throw e;
+        }
+        const context = canvas.getContext('webgpu');
+        if (!context) {
+            device.destroy();
+            return null;
+        }
+        return new WebGPUMotionEngine(context, format, adapter, device, pipelines);
+    }
+
+    private constructor(
+        private context: GPUCanvasContext,
+        private format: GPUTextureFormat,
+        private adapter: GPUAdapter,
+        private device: GPUDevice,
+        private pipelines: Pipelines,
+    ) {
+        super();
+        this.configure();
+        this.sampler = this.createSampler();
+        this.uniformBuffer = this.createUniformBuffer();
+        this.zoneTexture = this.createZoneTexture();
+        this.watchDevice(device);
+    }
+
+    public init(width: number, height: number) {
+        this.width = width;
+        this.height = height;
+        this.updateProcessingSize();
+        if (this.contextLost) return; // Built once the device is replaced
+
+        this.createBuffers();
+        this.isInitialized = true;
+    }
+
+    public resize(width: number, height: number) {
+        if (this.width !== width || this.height !== height) {
+            this.width = width;
+            this.height = height;
+            this.updateProcessingSize();
+            if (this.isInitialized) this.createBuffers(); // Same as GL: model restarts from zero
+        }
+    }
+
+    public isReady(): boolean {
+        return this.isInitialized;
+    }
+
+    public isContextLost(): boolean {
+        return this.contextLost;
+    }
+
+    public getGPUInfo(): string {
+        const { description, vendor, architecture } = this.adapter.info;
+        return description || [vendor, architecture].filter(Boolean).join(' ') || 'WebGPU adapter';
+    }
+
+    /** Latest resolved stats; lags the displayed frame like MotionEngine's. */
+    public getMotionStats(): MotionStats | null {
+        return this.latestStats;
+    }
+
+    public getBlobs(): TrackedBlob[] {
+        return this.blobTracker.getBlobs();
+    }
+
+    public setZoneMask(mask: ZoneMask | null) {
+        this.zoneMask = mask;
+        if (!this.contextLost) {
+            this.zoneTexture.destroy();
+            this.zoneTexture = this.createZoneTexture();
+        }
+    }
+
+    public resetExposure() {
+        if (this.buffers) this.clearBuffers([this.buffers.exposure]);
+        this.exposureFrames = 0;
+    }
+
+    public exportExposurePNG(): Promise<Blob> {
+        return Promise.reject(new Error('Heatmap export needs the WebGL 2 backend'));
+    }
+
+    public resetBackground(warmUpFrames = BACKGROUND_WARM_UP_FRAMES) {
+        this.warmUpFrames = this.warmUpFramesLeft = Math.max(1, warmUpFrames);
+    }
+
+    public initBackgroundFromFrame() {
+        this.resetBackground(1);
+    }
+
+    public clearBackground() {
+        if (this.buffers) this.clearBuffers([this.buffers.mean, this.buffers.variance]);
+        this.warmUpFramesLeft = 0;
+    }
+
+    public setBackgroundFrozen(frozen: boolean) {
+        this.backgroundFrozen = frozen;
+    }
+
+    public exportBackground(_format: 'png' | 'float'): Promise<Blob> {
+        return Promise.reject(new Error('Background snapshots need the WebGL 2 backend'));
+    }
+
+    public importBackground(_blob: Blob): Promise<void> {
+        return Promise.reject(new Error('Background snapshots need the WebGL 2 backend'));
+    }
+
+    /** Effects are GLSL, so nothing is compiled; the warning tells the editor its preview shows 'classic'. */
+    public compileEffect(_effect: MotionEffect): EffectDiagnostic[] {
+        return [{ severity: 'warning', line: null, message: 'GLSL effects only run on the WebGL 2 backend; this preview shows Classic' }];
+    }
+
+    public unregisterEffect(_name: string) {}
+
+    /** No per-stage timings on this backend yet; the frame rate is still measured by the app. */
+    public setProfiling(_enabled: boolean) {}
+
+    public getPassTimings(): PassTimings | null {
+        return null;
+    }
+
+    /** Bytes of GPU storage the engine holds right now. */
+    public getTextureMemory(): number {
+        let bytes = this.zoneMask ? this.zoneMask.width * this.zoneMask.height : 1;
+        bytes += this.uniformBuffer.size;
+        if (this.buffers) {
+            Object.values(this.buffers).flat().forEach((buffer) => {
+                if (typeof buffer === 'object') bytes += buffer.size;
+            });
+        }
+        return bytes;
+    }
+
+    /** Frees every GPU resource and the device; the engine cannot be used afterwards. */
+    public dispose() {
+        this.disposed = true;
+        this.isInitialized = false;
+        this.releaseBuffers();
+        this.context.unconfigure();
+        this.device.destroy();
+    }
+
+    public render(video: FrameSource, controls: MotionControls) {
+        if (!this.isInitialized) return;
+
+        // Detection buffers are sized by the scale, so a new scale starts the model over
+        const scale = Math.min(Math.max(controls.processingResolution, MIN_PROCESSING_RESOLUTION), 1);
+        if (scale !== this.processingScale) {
+            this.processingScale = scale;
+            this.updateProcessingSize();
+            this.createBuffers();
+        }
+
+        const buffers = this.buffers!;
+        const device = this.device;
+        const external = device.importExternalTexture({ source: video });
+        const effectIndex = Math.max(WEBGPU_EFFECTS.indexOf(controls.effect), 0);
+        const effect = BUILTIN_EFFECTS.find((e) => e.name === WEBGPU_EFFECTS[effectIndex])!;
+        this.uniformSlots = 0;
+
+        const encoder = device.createCommandEncoder();
+        const pass = encoder.beginComputePass();
+
+        // 1. Detection — video to processing size, optional pre-blur, then bgSub into mask[0]
+        this.dispatch(pass, this.pipelines.resample, [
+            this.uniforms({ width: u32(this.procWidth), height: u32(this.procHeight) }),
+            external,
+            this.sampler,
+            storage(buffers.frame),
+        ]);
+        if (controls.noiseReduction > 0) this.preBlur(pass, controls.noiseReduction);
+        this.backgroundSubtraction(pass, controls);
+
+        // 2. Morphology — the result may land in a scratch mask
+        const mask = this.morphology(pass, controls);
+
+        // 3. Exposure and stats (read the post-morphology mask)
+        this.dispatch(pass, this.pipelines.exposure, [
+            this.uniforms({
+                width: u32(this.procWidth),
+                height: u32(this.procHeight),
+                weight: f32(1 / (this.exposureFrames + 1)),
+            }),
+            storage(mask),
+            storage(buffers.exposure),
+        ]);
+        this.exposureFrames++;
+        this.motionStats(pass, mask);
+        pass.end();
+
+        const readStats = !this.pendingStats;
+        if (readStats) encoder.copyBufferToBuffer(buffers.statsResult, 0, buffers.statsReadback, 0, buffers.statsReadback.size);
+        const readBlobs = controls.blobTracking && !this.pendingBlobGrid;
+        if (readBlobs) encoder.copyBufferToBuffer(buffers.coverage, 0, buffers.blobReadback, 0, buffers.blobReadback.size);
+        if (!controls.blobTracking && (this.pendingBlobGrid || this.blobTracker.getBlobs().length)) {
+            this.discardBlobGrid();
+        }
+
+        // 4. Output — the effect straight onto the canvas, upsampling the processing-size buffers
+        const param = (name: string) => {
+            const uniform = effect.uniforms.find((u) => u.name === name);
+            return uniform ? effectParam(effect, uniform, controls.effectParams) : 0;
+        };
+        const number = (value: EffectUniformValue) => (typeof value === 'number' ? value : Number(value === true));
+        const output = encoder.beginRenderPass({
+            colorAttachments: [{
+                view: this.context.getCurrentTexture().createView(),
+                clearValue: [0, 0, 0, 0],
+                loadOp: 'clear',
+                storeOp: 'store',
+            }],
+        });
+        output.setPipeline(this.pipelines.output);
+        output.setBindGroup(0, this.bindGroup(this.pipelines.output, [
+            this.uniforms({
+                canvasWidth: f32(this.width),
+                canvasHeight: f32(this.height),
+                procWidth: u32(this.procWidth),
+                procHeight: u32(this.procHeight),
+                effect: u32(effectIndex),
+                invert: u32(controls.invert),
+                opaque: u32(!!effect.opaque),
+                luma: u32(controls.detectionMode !== 'color'),
+                glowStrength: f32(number(param('u_glowStrength'))),
+                vignette: u32(number(param('u_vignette'))),
+                gain: f32(number(param('u_gain'))),
+                shift: f32(number(param('u_shift'))),
+                scanlines: u32(number(param('u_scanlines'))),
+            }),
+            external,
+            this.sampler,
+            storage(mask),
+            storage(buffers.exposure),
+            storage(buffers.mean),
+            storage(buffers.variance),
+        ]));
+        output.draw(3);
+        output.end();
+
+        device.queue.writeBuffer(this.uniformBuffer, 0, this.uniformData, 0, this.uniformSlots * UNIFORM_SLOT_BYTES);
+        device.queue.submit([encoder.finish()]);
+
+        if (readStats) this.readMotionStats(buffers.statsReadback);
+        if (readBlobs) this.readBlobGrid(buffers.blobReadback, buffers.gridWidth, buffers.gridHeight, controls.blobMinArea);
+        this.frameIndex++;
+    }
+
+    // Separable Gaussian from frame into itself, through blurScratch
+    private preBlur(pass: GPUComputePassEncoder, sigma: number) {
+        const buffers = this.buffers!;
+        const axis = (input: GPUBuffer, output: GPUBuffer, stepX: number, stepY: number) => {
+            this.dispatch(pass, this.pipelines.blur, [
+                this.uniforms({
+                    width: u32(this.procWidth),
+                    height: u32(this.procHeight),
+                    radius: i32(Math.min(Math.ceil(sigma * 3), MAX_BLUR_RADIUS)),
+                    sigma: f32(sigma),
+                    stepX: i32(stepX),
+                    stepY: i32(stepY),
+                }),
+                storage(input),
+                storage(output),
+            ]);
+        };
+        axis(buffers.frame, buffers.blurScratch, 1, 0);
+        axis(buffers.blurScratch, buffers.frame, 0, 1);
+    }
+
+    // Same relight and warm-up rules as MotionEngine; modes this backend lacks detect by luminance
+    private backgroundSubtraction(pass: GPUComputePassEncoder, controls: MotionControls) {
+        const buffers = this.buffers!;
+        const warmingUp = this.warmUpFramesLeft > 0;
+        const seed = warmingUp && this.warmUpFramesLeft === this.warmUpFrames;
+        let relightRate: number;
+        if (warmingUp) {
+            relightRate = seed ? 1 : RELIGHT_ADAPTATION_RATE;
+            this.warmUpFramesLeft--;
+        } else {
+            relightRate = this.backgroundFrozen ? 0 : this.updateRelight(controls);
+        }
+
+        this.dispatch(pass, this.pipelines.bgSub, [
+            this.uniforms({
+                width: u32(this.procWidth),
+                height: u32(this.procHeight),
+                threshold: f32(controls.detectionThreshold / 10.0),
+                adaptationRate: f32(this.backgroundFrozen ? 0 : controls.adaptationRate),
+                relightRate: f32(relightRate),
+                minVariance: f32(MIN_VARIANCE),
+                colorMode: u32(controls.detectionMode === 'color'),
+                shadowDetection: u32(controls.shadowDetection),
+                freezeOutsideZones: u32(controls.freezeOutsideZones),
+                hideMask: u32(warmingUp),
+                seed: u32(seed),
+            }),
+            storage(buffers.frame),
+            storage(buffers.mean),
+            storage(buffers.variance),
+            storage(buffers.mask[0]),
+            this.zoneTexture.createView(),
+            this.sampler,
+        ]);
+    }
+
+    // Uses the latest (slightly lagging) stats readback to spot frame-wide changes
+    private updateRelight(controls: MotionControls): number {
+        if (!controls.illuminationCompensation) {
+            this.relightFramesLeft = 0;
+            return 0;
+        }
+
+        const stats = this.latestStats;
+        if (stats && stats.frame !== this.relightCheckedFrame) {
+            this.relightCheckedFrame = stats.frame;
+            if (stats.movingFraction > RELIGHT_MOVING_FRACTION) this.relightFramesLeft = RELIGHT_FRAMES;
+        }
+
+        if (this.relightFramesLeft > 0) {
+            this.relightFramesLeft--;
+            return RELIGHT_ADAPTATION_RATE;
+        }
+        return 0;
+    }
+
+    // Same pass plan as MotionEngine.morphologyPasses; the raw mask is in mask[0]
+    private morphology(pass: GPUComputePassEncoder, controls: MotionControls): GPUBuffer {
+        const [raw, a, b, c] = this.buffers!.mask;
+        const run = (steps: MorphStep[], input: GPUBuffer, output: GPUBuffer, scratch: GPUBuffer) => {
+            let source = input;
+            steps.forEach((step, i) => {
+                const target = (steps.length - 1 - i) % 2 === 0 ? output : scratch;
+                this.morphStep(pass, step, source, target);
+                source = target;
+            });
+            return output;
+        };
+
+        switch (controls.morphology) {
+            case 'open':
+            case 'close':
+                return run(openCloseSteps(controls.morphology, controls), raw, b, a);
+            case 'gradient': {
+                const dilated = run(morphSteps('dilate', controls), raw, b, a);
+                const eroded = run(morphSteps('erode', controls), raw, c, a);
+                return this.morphDifference(pass, dilated, eroded, a);
+            }
+            case 'topHat': {
+                const opened = run(openCloseSteps('open', controls), raw, b, a);
+                return this.morphDifference(pass, raw, opened, c);
+            }
+            case 'fillHoles':
+                return this.fillHoles(pass, raw, a);
+            default:
+                return raw;
+        }
+    }
+
+    private morphStep(pass: GPUComputePassEncoder, step: MorphStep, input: GPUBuffer, output: GPUBuffer) {
+        this.dispatch(pass, this.pipelines.morph, [
+            this.uniforms({
+                width: u32(this.procWidth),
+                height: u32(this.procHeight),
+                mode: u32(step.type === 'erode' ? 0 : 1),
+                shape: u32(MORPH_SHAPES[step.shape]),
+                radius: i32(step.radius),
+                // MorphStep directions are in texture space, where v runs bottom-up
+                directionX: i32(step.direction[0]),
+                directionY: i32(-step.direction[1]),
+            }),
+            storage(input),
+            storage(input), // Only read in difference mode
+            storage(output),
+        ]);
+    }
+
+    private morphDifference(pass: GPUComputePassEncoder, minuend: GPUBuffer, subtrahend: GPUBuffer, output: GPUBuffer): GPUBuffer {
+        this.dispatch(pass, this.pipelines.morph, [
+            this.uniforms({ width: u32(this.procWidth), height: u32(this.procHeight), mode: u32(2) }),
+            storage(minuend),
+            storage(subtrahend),
+            storage(output),
+        ]);
+        return output;
+    }
+
+    // Alternating row and column sweeps, the last of which writes the filled mask; see holeFillSource
+    private fillHoles(pass: GPUComputePassEncoder, input: GPUBuffer, output: GPUBuffer): GPUBuffer {
+        const flags = this.buffers!.holeFlags;
+        for (let sweep = 0; sweep < HOLE_FILL_SWEEPS; sweep++) {
+            const rows = sweep % 2 === 0;
+            const uniforms = {
+                width: u32(this.procWidth),
+                height: u32(this.procHeight),
+                threshold: f32(MOTION_THRESHOLD),
+                first: u32(sweep === 0),
+                last: u32(sweep === HOLE_FILL_SWEEPS - 1),
+            };
+            this.dispatch(pass, rows ? this.pipelines.holeFillRows : this.pipelines.holeFillColumns,
+                [this.uniforms(uniforms), storage(input), storage(flags), storage(output)],
+                [Math.ceil((rows ? this.procHeight : this.procWidth) / LINE_WORKGROUP_SIZE), 1]);
+        }
+        return output;
+    }
+
+    // Block sums and coverage per workgroup, then one workgroup folds the partials into statsResult
+    private motionStats(pass: GPUComputePassEncoder, mask: GPUBuffer) {
+        const buffers = this.buffers!;
+        const groups: [number, number] = [
+            Math.ceil(buffers.gridWidth / WORKGROUP_SIZE),
+            Math.ceil(buffers.gridHeight / WORKGROUP_SIZE),
+        ];
+        this.dispatch(pass, this.pipelines.statsBlocks, [
+            this.uniforms({
+                width: u32(this.procWidth),
+                height: u32(this.procHeight),
+                gridWidth: u32(buffers.gridWidth),
+                gridHeight: u32(buffers.gridHeight),
+                movingThreshold: f32(MOTION_THRESHOLD),
+            }),
+            storage(mask),
+            storage(buffers.coverage),
+            storage(buffers.partials),
+        ], groups);
+        this.dispatch(pass, this.pipelines.statsFinal, [
+            this.uniforms({ partialCount: u32(groups[0] * groups[1]) }),
+            storage(buffers.partials),
+            storage(buffers.statsResult),
+        ], [1, 1]);
+    }
+
+    private async readMotionStats(readback: GPUBuffer) {
+        const pending = { frame: this.frameIndex, pixels: this.procWidth * this.procHeight };
+        this.pendingStats = pending;
+        try {
+            await readback.mapAsync(GPUMapMode.READ);
+        } catch {
+            return; // Destroyed by a reallocation or device loss first
+        }
+        const data = new Float32Array(readback.getMappedRange().slice(0));
+        readback.unmap();
+        if (this.pendingStats !== pending) return;
+        this.pendingStats = null;
+
+        const [movingCount, maskSum, uSum, vSum, minU, minV, invMaxU, invMaxV] = data;
+        const total = pending.pixels;
+        this.latestStats = {
+            frame: pending.frame,
+            movingFraction: movingCount / total,
+            meanIntensity: maskSum / total,
+            centroid: maskSum > 0 ? { x: uSum / maskSum, y: vSum / maskSum } : null,
+            boundingBox: movingCount > 0 ? {
+                x: minU,
+                y: minV,
+                width: 1 - invMaxU - minU,
+                height: 1 - invMaxV - minV,
+            } : null,
+        };
+    }
+
+    private async readBlobGrid(readback: GPUBuffer, width: number, height: number, minArea: number) {
+        const pending = { width, height, minArea, discarded: false };
+        this.pendingBlobGrid = pending;
+        try {
+            await readback.mapAsync(GPUMapMode.READ);
+        } catch {
+            return;
+        }
+        const coverage = new Float32Array(readback.getMappedRange().slice(0));
+        readback.unmap();
+        if (this.pendingBlobGrid !== pending) return;
+        this.pendingBlobGrid = null;
+        // Rows are already top-down
+        if (!pending.discarded) this.blobTracker.update({ data: coverage, width, height }, minArea);
+    }
+
+    // The readback keeps running until its buffer is unmapped, only its result is dropped
+    private discardBlobGrid() {
+        if (this.pendingBlobGrid) this.pendingBlobGrid.discarded = true;
+        this.blobTracker.reset();
+    }
+
+    private uniforms(fields: Record<string, UniformField>): GPUBufferBinding {
+        if (this.uniformSlots === MAX_PASSES_PER_FRAME) throw new Error('Too many passes in one frame');
+        const offset = this.uniformSlots++ * UNIFORM_SLOT_BYTES;
+        const view = new DataView(this.uniformData, offset, UNIFORM_SLOT_BYTES);
+        Object.values(fields).forEach(([type, value], i) => {
+            if (type === 'f32') view.setFloat32(i * 4, value, true);
+            else if (type === 'u32') view.setUint32(i * 4, value, true);
+            else view.setInt32(i * 4, value, true);
+        });
+        return { buffer: this.uniformBuffer, offset, size: UNIFORM_SLOT_BYTES };
+    }
+
+    // Resources are bound in order from binding 0, as declared in the shader
+    private bindGroup(pipeline: GPUComputePipeline | GPURenderPipeline, resources: GPUBindingResource[]): GPUBindGroup {
+        return this.device.createBindGroup({
+            layout: pipeline.getBindGroupLayout(0),
+            entries: resources.map((resource, binding) => ({ binding, resource })),
+        });
+    }
+
+    // One invocation per processing pixel unless `groups` says otherwise
+    private dispatch(pass: GPUComputePassEncoder, pipeline: GPUComputePipeline, resources: GPUBindingResource[], groups?: [number, number]) {
+        const [x, y] = groups ?? [Math.ceil(this.procWidth / WORKGROUP_SIZE), Math.ceil(this.procHeight / WORKGROUP_SIZE)];
+        pass.setPipeline(pipeline);
+        pass.setBindGroup(0, this.bindGroup(pipeline, resources));
+        pass.dispatchWorkgroups(x, y);
+    }
+
+    private clearBuffers(buffers: GPUBuffer[]) {
+        const encoder = this.device.createCommandEncoder();
+        buffers.forEach((buffer) => encoder.clearBuffer(buffer));
+        this.device.queue.submit([encoder.finish()]);
+    }
+
+    private updateProcessingSize() {
+        this.procWidth = Math.max(1, Math.round(this.width * this.processingScale));
+        this.procHeight = Math.max(1, Math.round(this.height * this.processingScale));
+    }
+
+    // New buffers start zeroed: an empty background model, exposure and stats
+    private createBuffers() {
+        this.releaseBuffers();
+        const device = this.device;
+        const pixels = this.procWidth * this.procHeight;
+        const gridWidth = Math.ceil(this.procWidth / STATS_BLOCK);
+        const gridHeight = Math.ceil(this.procHeight / STATS_BLOCK);
+        const statsGroups = Math.ceil(gridWidth / WORKGROUP_SIZE) * Math.ceil(gridHeight / WORKGROUP_SIZE);
+        // COPY_DST for clearBuffer (background and exposure resets)
+        const buffer = (size: number, usage = GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_DST) => device.createBuffer({ size, usage });
+        const readback = (size: number) => buffer(size, GPUBufferUsage.MAP_READ | GPUBufferUsage.COPY_DST);
+
+        this.buffers = {
+            frame: buffer(pixels * 16),
+            blurScratch: buffer(pixels * 16),
+            mean: buffer(pixels * 16),
+            variance: buffer(pixels * 4),
+            mask: [buffer(pixels * 4), buffer(pixels * 4), buffer(pixels * 4), buffer(pixels * 4)],
+            holeFlags: buffer(pixels * 4),
+            exposure: buffer(pixels * 4),
+            coverage: buffer(gridWidth * gridHeight * 4, GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC),
+            partials: buffer(statsGroups * 32),
+            statsResult: buffer(32, GPUBufferUsage.STORAGE | GPUBufferUsage.COPY_SRC),
+            statsReadback: readback(32),
+            blobReadback: readback(gridWidth * gridHeight * 4),
+            gridWidth,
+            gridHeight,
+        };
+        this.exposureFrames = 0;
+    }
+
+    private releaseBuffers() {
+        if (this.buffers) {
+            Object.values(this.buffers).flat().forEach((buffer) => {
+                if (typeof buffer === 'object') buffer.destroy();
+            });
+            this.buffers = null;
+        }
+        this.pendingStats = null;
+        this.pendingBlobGrid = null;
+        this.blobTracker.reset();
+    }
+
+    private configure() {
+        this.context.configure({ device: this.device, format: this.format, alphaMode: 'premultiplied' });
+    }
+
+    private createSampler(): GPUSampler {
+        return this.device.createSampler({ magFilter: 'linear', minFilter: 'linear' });
+    }
+
+    private createUniformBuffer(): GPUBuffer {
+        return this.device.createBuffer({
+            size: this.uniformData.byteLength,
+            usage: GPUBufferUsage.UNIFORM | GPUBufferUsage.COPY_DST,
+        });
+    }
+
+    private createZoneTexture(): GPUTexture {
+        const mask = this.zoneMask ?? { data: new Uint8Array([255]), width: 1, height: 1 };
+        const texture = this.device.createTexture({
+            size: [mask.width, mask.height],
+            format: 'r8unorm',
+            usage: GPUTextureUsage.TEXTURE_BINDING | GPUTextureUsage.COPY_DST,
+        });
+        this.device.queue.writeTexture({ texture }, mask.data, { bytesPerRow: mask.width }, [mask.width, mask.height]);
+        return texture;
+    }
+
+    private watchDevice(device: GPUDevice) {
+        device.lost.then((info) => {
+            if (info.reason !== 'destroyed' && device === this.device && !this.disposed) this.handleDeviceLost();
+        });
+    }
+
+    // Driver reset, GPU removed, or the browser reclaimed the device: every resource is dead, so start over on a new one
+    private async handleDeviceLost() {
+        this.contextLost = true;
+        this.isInitialized = false;
+        this.buffers = null;
+        this.pendingStats = null;
+        this.pendingBlobGrid = null;
+        this.blobTracker.reset();
+        this.dispatchEvent(new Event('contextlost'));
+
+        try {
+            const requested = await requestDevice();
+            if (!requested) throw new Error('No WebGPU adapter');
+            const pipelines = await createPipelines(requested.device, this.format);
+            if (this.disposed) {
+                requested.device.destroy();
+                return;
+            }
+            this.adapter = requested.adapter;
+            this.device = requested.device;
+            this.pipelines = pipelines;
+            this.configure();
+            this.sampler = this.createSampler();
+            this.uniformBuffer = this.createUniformBuffer();
+            this.zoneTexture = this.createZoneTexture();
+            this.watchDevice(requested.device);
+            if (this.width > 0 && this.height > 0) {
+                this.createBuffers();
+                this.isInitialized = true;
+                this.resetBackground();
+            }
+            this.contextLost = false;
+        } catch (e) {
+            console.error('Could not rebuild after WebGPU device loss:', e);
+        }
+        this.dispatchEvent(new Event('contextrestored'));
+    }
+}
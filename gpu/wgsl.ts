@@ -0,0 +1,603 @@
+// ─────────────────────────────────────────────────────────────
+// WGSL counterparts of the GLSL passes in gl/shaders.ts. Images
+// live in storage buffers at processing size, one element per
+// pixel with rows top-down; compute passes run in 8×8 workgroups,
+// one invocation per pixel unless noted otherwise.
+// ─────────────────────────────────────────────────────────────
+
+// ─────────────────────────────────────────────────────────────
+// Resample — the video (external texture) to processing size,
+// averaging a grid of bilinear taps no more than a texel apart over
+// each pixel's footprint so downscaling doesn't alias
+// ─────────────────────────────────────────────────────────────
+export const resampleSource = `
+struct Params {
+  width: u32,
+  height: u32,
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var video: texture_external;
+@group(0) @binding(2) var videoSampler: sampler;
+@group(0) @binding(3) var<storage, read_write> frame: array<vec4f>;
+
+const MAX_TAPS = 8u; // Per axis
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.width || id.y >= params.height) { return; }
+  let size = vec2f(f32(params.width), f32(params.height));
+  let taps = clamp(vec2u(ceil(vec2f(textureDimensions(video)) / size)), vec2u(1u), vec2u(MAX_TAPS));
+
+  var sum = vec4f(0.0);
+  for (var j = 0u; j < taps.y; j++) {
+    for (var i = 0u; i < taps.x; i++) {
+      let uv = (vec2f(id.xy) + (vec2f(f32(i), f32(j)) + 0.5) / vec2f(taps)) / size;
+      sum += textureSampleBaseClampToEdge(video, videoSampler, uv);
+    }
+  }
+  frame[id.y * params.width + id.x] = sum / f32(taps.x * taps.y);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Pre-blur — one axis of a separable Gaussian (noise reduction)
+// ─────────────────────────────────────────────────────────────
+export const gaussianBlurSource = `
+struct Params {
+  width: u32,
+  height: u32,
+  radius: i32, // Taps per side, capped by the engine
+  sigma: f32,
+  stepX: i32,  // Axis: (1, 0) or (0, 1)
+  stepY: i32,
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> src: array<vec4f>;
+@group(0) @binding(2) var<storage, read_write> dst: array<vec4f>;
+
+fn fetch(p: vec2i) -> vec4f {
+  let q = clamp(p, vec2i(0), vec2i(i32(params.width), i32(params.height)) - 1);
+  return src[u32(q.y) * params.width + u32(q.x)];
+}
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.width || id.y >= params.height) { return; }
+  let p = vec2i(id.xy);
+  let axis = vec2i(params.stepX, params.stepY);
+
+  var sum = fetch(p);
+  var weightSum = 1.0;
+  for (var i = 1; i <= params.radius; i++) {
+    let w = exp(-f32(i * i) / (2.0 * params.sigma * params.sigma));
+    sum += w * (fetch(p + axis * i) + fetch(p - axis * i));
+    weightSum += 2.0 * w;
+  }
+  dst[id.y * params.width + id.x] = sum / weightSum;
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Background Subtraction — outputs a SOFT mask via smoothstep.
+// Same model as backgroundSubtractionFragmentSource; the mean and
+// variance are updated in place.
+// ─────────────────────────────────────────────────────────────
+export const backgroundSubtractionSource = `
+struct Params {
+  width: u32,
+  height: u32,
+  threshold: f32,
+  adaptationRate: f32,
+  relightRate: f32,        // Non-zero while a global illumination change is absorbed
+  minVariance: f32,
+  colorMode: u32,
+  shadowDetection: u32,
+  freezeOutsideZones: u32,
+  hideMask: u32,           // Warm-up: learn the frame but report no motion
+  seed: u32,               // First frame after a reset: take the frame as the mean, the variance at its floor
+}
+
+const SHADOW_MIN_RATIO = 0.5; // Darkest brightness ratio still considered a shadow
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> frame: array<vec4f>;
+@group(0) @binding(2) var<storage, read_write> mean: array<vec4f>;
+@group(0) @binding(3) var<storage, read_write> variance: array<f32>;
+@group(0) @binding(4) var<storage, read_write> mask: array<f32>;
+@group(0) @binding(5) var zoneMask: texture_2d<f32>; // 1.0 = detect here, 0.0 = ignored zone
+@group(0) @binding(6) var zoneSampler: sampler;
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.width || id.y >= params.height) { return; }
+  let i = id.y * params.width + id.x;
+  let current = frame[i];
+  let m = mean[i];
+  let v = variance[i];
+  let isColorMode = params.colorMode != 0u;
+
+  var dist: f32;
+  if (isColorMode) {
+    dist = length(current.rgb - m.rgb);
+  } else {
+    dist = abs(dot(current.rgb, vec3f(0.299, 0.587, 0.114)) - m.r);
+  }
+
+  // ── Soft mask with smoothstep (anti-aliased edge) ──
+  let edge = params.threshold * sqrt(max(v, params.minVariance));
+  var soft = smoothstep(edge * 0.6, edge * 1.4, dist);
+
+  // ── Update background model only for background pixels ──
+  var alpha = max(params.adaptationRate * (1.0 - soft), params.relightRate);
+
+  // ── Shadow: darker than the mean but the same chromaticity (needs color) ──
+  if (params.shadowDetection != 0u && isColorMode) {
+    let ratio = dot(current.rgb, m.rgb) / max(dot(m.rgb, m.rgb), 1e-6);
+    let chromaDist = length(current.rgb - ratio * m.rgb);
+    if (ratio >= SHADOW_MIN_RATIO && ratio < 1.0 && chromaDist < edge * 0.6) { soft = 0.0; }
+  }
+
+  // ── Zones: drop motion outside allowed areas, optionally keep their model frozen ──
+  let uv = (vec2f(id.xy) + 0.5) / vec2f(f32(params.width), f32(params.height));
+  let zone = textureSampleLevel(zoneMask, zoneSampler, uv, 0.0).r;
+  if (params.freezeOutsideZones != 0u) { alpha *= zone; }
+
+  if (params.seed != 0u) {
+    // The difference to the old mean is the jump being reset away, not noise
+    let curLum = dot(current.rgb, vec3f(0.299, 0.587, 0.114));
+    mean[i] = mix(m, select(vec4f(curLum), vec4f(current.rgb, 1.0), isColorMode), alpha);
+    variance[i] = mix(v, params.minVariance, alpha);
+  } else if (isColorMode) {
+    mean[i] = vec4f(mix(m.rgb, current.rgb, alpha), 1.0);
+    let lumDiff = dot(current.rgb, vec3f(0.333)) - dot(m.rgb, vec3f(0.333));
+    variance[i] = mix(v, lumDiff * lumDiff, alpha);
+  } else {
+    let curLum = dot(current.rgb, vec3f(0.299, 0.587, 0.114));
+    let newMean = mix(m.r, curLum, alpha);
+    mean[i] = vec4f(newMean, m.gba);
+    let d = curLum - newMean;
+    variance[i] = mix(v, d * d, alpha);
+  }
+
+  mask[i] = select(soft * zone, 0.0, params.hideMask != 0u);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Morphology — Erosion / Dilation on soft mask, plus the
+// difference pass the gradient and top-hat operations finish with
+// ─────────────────────────────────────────────────────────────
+export const morphologySource = `
+struct Params {
+  width: u32,
+  height: u32,
+  mode: u32,   // 0 = erode, 1 = dilate, 2 = difference
+  shape: u32,  // 0 = square, 1 = disk, 2 = cross, 3 = line along direction
+  radius: i32,
+  directionX: i32, // Pixel step of the line shape, rows top-down
+  directionY: i32,
+}
+
+const MAX_MORPH_RADIUS = 8;
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> src: array<f32>;
+@group(0) @binding(2) var<storage, read> other: array<f32>; // Subtracted from src in difference mode
+@group(0) @binding(3) var<storage, read_write> dst: array<f32>;
+
+fn fetch(p: vec2i) -> f32 {
+  let q = clamp(p, vec2i(0), vec2i(i32(params.width), i32(params.height)) - 1);
+  return src[u32(q.y) * params.width + u32(q.x)];
+}
+
+fn combine(val: f32, n: f32) -> f32 {
+  return select(max(val, n), min(val, n), params.mode == 0u);
+}
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.width || id.y >= params.height) { return; }
+  let i = id.y * params.width + id.x;
+  let p = vec2i(id.xy);
+  let r = min(params.radius, MAX_MORPH_RADIUS);
+  var val = src[i];
+
+  if (params.mode == 2u) {
+    val = max(val - other[i], 0.0);
+  } else if (params.shape == 3u) {
+    let direction = vec2i(params.directionX, params.directionY);
+    for (var t = -r; t <= r; t++) {
+      val = combine(val, fetch(p + direction * t));
+    }
+  } else {
+    let diskR2 = (f32(r) + 0.5) * (f32(r) + 0.5);
+    for (var j = -r; j <= r; j++) {
+      for (var k = -r; k <= r; k++) {
+        if (params.shape == 1u && f32(k * k + j * j) > diskR2) { continue; }
+        if (params.shape == 2u && k != 0 && j != 0) { continue; }
+        val = combine(val, fetch(p + vec2i(k, j)));
+      }
+    }
+  }
+
+  dst[i] = val;
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Hole fill — still pixels the frame border can't reach through
+// other still pixels are enclosed. One invocation sweeps a whole
+// row or column, spreading "outside" along its runs of still
+// pixels; the last sweep writes the filled mask.
+// ─────────────────────────────────────────────────────────────
+export const holeFillSource = `
+struct Params {
+  width: u32,
+  height: u32,
+  threshold: f32, // Mask value that counts as motion
+  first: u32,     // No previous sweep: the frame border is outside
+  last: u32,      // Write the filled mask to dst
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> src: array<f32>;
+@group(0) @binding(2) var<storage, read_write> flags: array<u32>; // 1 = outside
+@group(0) @binding(3) var<storage, read_write> dst: array<f32>;
+
+fn still(i: u32) -> bool {
+  return src[i] < params.threshold;
+}
+
+fn seeded(i: u32) -> bool {
+  if (params.first == 0u) { return flags[i] == 1u; }
+  let x = i % params.width;
+  let y = i / params.width;
+  return x == 0u || y == 0u || x == params.width - 1u || y == params.height - 1u;
+}
+
+fn sweep(start: u32, stride: u32, count: u32) {
+  var reach = false;
+  for (var k = 0u; k < count; k++) {
+    let i = start + k * stride;
+    reach = still(i) && (reach || seeded(i));
+    flags[i] = select(0u, 1u, reach);
+  }
+  reach = false;
+  for (var k = count; k > 0u; k--) {
+    let i = start + (k - 1u) * stride;
+    reach = still(i) && (reach || flags[i] == 1u);
+    flags[i] = select(0u, 1u, reach);
+    if (params.last == 1u) { dst[i] = select(src[i], 1.0, still(i) && !reach); }
+  }
+}
+
+@compute @workgroup_size(64)
+fn rows(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.height) { return; }
+  sweep(id.x * params.width, 1u, params.width);
+}
+
+@compute @workgroup_size(64)
+fn columns(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.width) { return; }
+  sweep(id.x, params.width, params.height);
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Long exposure — folds the mask into its running mean
+// ─────────────────────────────────────────────────────────────
+export const exposureSource = `
+struct Params {
+  width: u32,
+  height: u32,
+  weight: f32, // 1 / frames averaged including this one
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> mask: array<f32>;
+@group(0) @binding(2) var<storage, read_write> exposure: array<f32>;
+
+@compute @workgroup_size(8, 8)
+fn main(@builtin(global_invocation_id) id: vec3u) {
+  if (id.x >= params.width || id.y >= params.height) { return; }
+  let i = id.y * params.width + id.x;
+  exposure[i] += (mask[i] - exposure[i]) * params.weight;
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Motion Stats 1/2 — each invocation reduces a 4×4 block (its
+// moving coverage is the blob grid), each workgroup its 64 blocks
+// into one partial. Sums are (moving count, mask sum, mask*u,
+// mask*v); bounds are the min of (u, v, 1-u, 1-v) over moving
+// pixels, with v running top-down.
+// ─────────────────────────────────────────────────────────────
+export const statsBlocksSource = `
+struct Params {
+  width: u32,
+  height: u32,
+  gridWidth: u32,  // Blocks per axis
+  gridHeight: u32,
+  movingThreshold: f32,
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> mask: array<f32>;
+@group(0) @binding(2) var<storage, read_write> coverage: array<f32>;
+@group(0) @binding(3) var<storage, read_write> partials: array<vec4f>; // (sums, bounds) per workgroup
+
+var<workgroup> groupSums: array<vec4f, 64>;
+var<workgroup> groupBounds: array<vec4f, 64>;
+
+@compute @workgroup_size(8, 8)
+fn main(
+  @builtin(global_invocation_id) id: vec3u,
+  @builtin(local_invocation_index) local: u32,
+  @builtin(workgroup_id) group: vec3u,
+  @builtin(num_workgroups) groups: vec3u,
+) {
+  var sums = vec4f(0.0);
+  var bounds = vec4f(2.0); // > 1.0 means "no moving pixel"
+
+  // No early return: every invocation has to reach the barriers
+  if (id.x < params.gridWidth && id.y < params.gridHeight) {
+    let size = vec2f(f32(params.width), f32(params.height));
+    for (var j = 0u; j < 4u; j++) {
+      for (var k = 0u; k < 4u; k++) {
+        let p = id.xy * 4u + vec2u(k, j);
+        if (p.x >= params.width || p.y >= params.height) { continue; }
+        let m = mask[p.y * params.width + p.x];
+        let uv = (vec2f(p) + 0.5) / size;
+        let moving = m >= params.movingThreshold;
+        sums += vec4f(select(0.0, 1.0, moving), m, m * uv);
+        if (moving) { bounds = min(bounds, vec4f(uv, 1.0 - uv)); }
+      }
+    }
+    coverage[id.y * params.gridWidth + id.x] = sums.x / 16.0;
+  }
+
+  groupSums[local] = sums;
+  groupBounds[local] = bounds;
+  workgroupBarrier();
+  for (var stride = 32u; stride > 0u; stride >>= 1u) {
+    if (local < stride) {
+      groupSums[local] += groupSums[local + stride];
+      groupBounds[local] = min(groupBounds[local], groupBounds[local + stride]);
+    }
+    workgroupBarrier();
+  }
+
+  if (local == 0u) {
+    let g = group.y * groups.x + group.x;
+    partials[g * 2u] = groupSums[0];
+    partials[g * 2u + 1u] = groupBounds[0];
+  }
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Motion Stats 2/2 — one workgroup folds the partials into
+// result[0] (sums) and result[1] (bounds)
+// ─────────────────────────────────────────────────────────────
+export const statsFinalSource = `
+struct Params {
+  partialCount: u32,
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var<storage, read> partials: array<vec4f>;
+@group(0) @binding(2) var<storage, read_write> result: array<vec4f, 2>;
+
+var<workgroup> groupSums: array<vec4f, 256>;
+var<workgroup> groupBounds: array<vec4f, 256>;
+
+@compute @workgroup_size(256)
+fn main(@builtin(local_invocation_index) local: u32) {
+  var sums = vec4f(0.0);
+  var bounds = vec4f(2.0);
+  for (var g = local; g < params.partialCount; g += 256u) {
+    sums += partials[g * 2u];
+    bounds = min(bounds, partials[g * 2u + 1u]);
+  }
+
+  groupSums[local] = sums;
+  groupBounds[local] = bounds;
+  workgroupBarrier();
+  for (var stride = 128u; stride > 0u; stride >>= 1u) {
+    if (local < stride) {
+      groupSums[local] += groupSums[local + stride];
+      groupBounds[local] = min(groupBounds[local], groupBounds[local + stride]);
+    }
+    workgroupBarrier();
+  }
+
+  if (local == 0u) {
+    result[0] = groupSums[0];
+    result[1] = groupBounds[0];
+  }
+}
+`;
+
+// ─────────────────────────────────────────────────────────────
+// Output — fullscreen triangle and the built-in effects ported
+// from BUILTIN_EFFECTS. uv runs top-down; the GLSL v_texCoord.y
+// runs bottom-up, hence the (1 - uv.y) where an effect uses it.
+// ─────────────────────────────────────────────────────────────
+export const outputSource = `
+struct Params {
+  canvasWidth: f32,
+  canvasHeight: f32,
+  procWidth: u32,
+  procHeight: u32,
+  effect: u32,     // Index into WEBGPU_EFFECTS
+  invert: u32,
+  opaque: u32,     // MotionEffect.opaque
+  luma: u32,       // Mean holds luminance in .r only
+  glowStrength: f32,
+  vignette: u32,
+  gain: f32,
+  shift: f32,
+  scanlines: u32,
+}
+
+@group(0) @binding(0) var<uniform> params: Params;
+@group(0) @binding(1) var video: texture_external;
+@group(0) @binding(2) var videoSampler: sampler;
+@group(0) @binding(3) var<storage, read> mask: array<f32>;
+@group(0) @binding(4) var<storage, read> exposure: array<f32>;
+@group(0) @binding(5) var<storage, read> mean: array<vec4f>;
+@group(0) @binding(6) var<storage, read> variance: array<f32>;
+
+struct VertexOutput {
+  @builtin(position) position: vec4f,
+  @location(0) uv: vec2f,
+}
+
+@vertex
+fn vertexMain(@builtin(vertex_index) index: u32) -> VertexOutput {
+  // (0, 0), (2, 0), (0, 2): one triangle covering the viewport
+  let xy = vec2f(f32((index << 1u) & 2u), f32(index & 2u));
+  var out: VertexOutput;
+  out.position = vec4f(xy * 2.0 - 1.0, 0.0, 1.0);
+  out.uv = vec2f(xy.x, 1.0 - xy.y);
+  return out;
+}
+
+// ── Processing-size buffers, sampled bilinearly with clamp-to-edge ──
+struct Taps {
+  i00: u32,
+  i10: u32,
+  i01: u32,
+  i11: u32,
+  t: vec2f,
+}
+
+fn taps(uv: vec2f) -> Taps {
+  let size = vec2f(f32(params.procWidth), f32(params.procHeight));
+  let f = clamp(uv * size - 0.5, vec2f(0.0), size - 1.0);
+  let p0 = vec2u(floor(f));
+  let p1 = min(p0 + 1u, vec2u(params.procWidth, params.procHeight) - 1u);
+  var k: Taps;
+  k.i00 = p0.y * params.procWidth + p0.x;
+  k.i10 = p0.y * params.procWidth + p1.x;
+  k.i01 = p1.y * params.procWidth + p0.x;
+  k.i11 = p1.y * params.procWidth + p1.x;
+  k.t = f - vec2f(p0);
+  return k;
+}
+
+fn maskAt(uv: vec2f) -> f32 {
+  let k = taps(uv);
+  return mix(mix(mask[k.i00], mask[k.i10], k.t.x), mix(mask[k.i01], mask[k.i11], k.t.x), k.t.y);
+}
+
+// Fraction of frames each pixel was in motion since the last exposure reset
+fn exposureAt(uv: vec2f) -> f32 {
+  let k = taps(uv);
+  return mix(mix(exposure[k.i00], exposure[k.i10], k.t.x), mix(exposure[k.i01], exposure[k.i11], k.t.x), k.t.y);
+}
+
+fn backgroundMeanAt(uv: vec2f) -> vec3f {
+  let k = taps(uv);
+  let m = mix(mix(mean[k.i00], mean[k.i10], k.t.x), mix(mean[k.i01], mean[k.i11], k.t.x), k.t.y);
+  return select(m.rgb, vec3f(m.r), params.luma != 0u);
+}
+
+fn backgroundVarianceAt(uv: vec2f) -> f32 {
+  let k = taps(uv);
+  return mix(mix(variance[k.i00], variance[k.i10], k.t.x), mix(variance[k.i01], variance[k.i11], k.t.x), k.t.y);
+}
+
+fn videoAt(uv: vec2f) -> vec4f {
+  return textureSampleBaseClampToEdge(video, videoSampler, uv);
+}
+
+// ── Utility: 5-stop heatmap palette ──
+fn heatPalette(value: f32) -> vec3f {
+  let t = clamp(value, 0.0, 1.0);
+  // Dark → Deep Blue → Cyan → Green/Yellow → Orange → White-hot
+  let a = vec3f(0.0, 0.0, 0.15);
+  let b = vec3f(0.0, 0.3, 1.0);
+  let c = vec3f(0.0, 1.0, 0.6);
+  let d = vec3f(1.0, 0.8, 0.0);
+  let e = vec3f(1.0, 0.2, 0.05);
+  let f = vec3f(1.0, 1.0, 0.9);
+
+  if (t < 0.2) { return mix(a, b, t / 0.2); }
+  if (t < 0.4) { return mix(b, c, (t - 0.2) / 0.2); }
+  if (t < 0.6) { return mix(c, d, (t - 0.4) / 0.2); }
+  if (t < 0.8) { return mix(d, e, (t - 0.6) / 0.2); }
+  return mix(e, f, (t - 0.8) / 0.2);
+}
+
+// ── Utility: Soft glow around motion edges ──
+fn edgeGlow(uv: vec2f, m: f32, radius: f32) -> f32 {
+  let px = radius / vec2f(params.canvasWidth, params.canvasHeight);
+  var sum = 0.0;
+  sum += maskAt(uv + vec2f(-px.x, 0.0));
+  sum += maskAt(uv + vec2f( px.x, 0.0));
+  sum += maskAt(uv + vec2f(0.0, -px.y));
+  sum += maskAt(uv + vec2f(0.0,  px.y));
+  sum += maskAt(uv + vec2f(-px.x, -px.y));
+  sum += maskAt(uv + vec2f( px.x, -px.y));
+  sum += maskAt(uv + vec2f(-px.x,  px.y));
+  sum += maskAt(uv + vec2f( px.x,  px.y));
+  // Glow is strongest at edges (where avg differs from center)
+  return smoothstep(0.0, 0.5, sum / 8.0) * (1.0 - m * 0.5);
+}
+
+fn colorBurn(uv: vec2f, v: vec4f, m: f32) -> vec3f {
+  let edgeColor = mix(vec3f(0.0, 0.95, 0.85), vec3f(0.6, 0.1, 0.95), (1.0 - uv.y) * 0.8 + 0.1);
+  let glow = edgeGlow(uv, m, 2.0);
+  var result = v.rgb * m * 0.85 + edgeColor * glow * params.glowStrength;
+  if (params.vignette != 0u) {
+    let vig = 1.0 - smoothstep(0.3, 0.9, length(uv - 0.5) * 1.2);
+    result *= mix(0.7, 1.0, vig);
+  }
+  return result;
+}
+
+fn heatmap(uv: vec2f, m: f32) -> vec3f {
+  let total = exposureAt(uv) * params.gain;
+  let heat = heatPalette(total) + vec3f(1.0, 0.5, 0.1) * edgeGlow(uv, m, 2.5) * params.glowStrength;
+  return mix(vec3f(0.02, 0.01, 0.05), heat, smoothstep(0.0, 0.05, max(total, m)));
+}
+
+fn chromatic(uv: vec2f, v: vec4f, m: f32) -> vec3f {
+  let shift = m * params.shift;
+  // Direction from the center as the GLSL computes it, flipped back to top-down rows
+  let dir = normalize(vec2f(uv.x - 0.5, 0.5 - uv.y) + 0.001) * vec2f(1.0, -1.0);
+  let aberrated = vec3f(videoAt(uv + dir * shift).r, v.g, videoAt(uv - dir * shift).b);
+  var result = mix(v.rgb, aberrated, smoothstep(0.05, 0.3, m));
+  if (params.scanlines != 0u) {
+    let scanline = sin((1.0 - uv.y) * params.canvasHeight * 1.5) * 0.5 + 0.5;
+    result -= vec3f(0.03) * scanline * m;
+  }
+  return result;
+}
+
+@fragment
+fn fragmentMain(in: VertexOutput) -> @location(0) vec4f {
+  let uv = in.uv;
+  let v = videoAt(uv);
+  var m = maskAt(uv);
+  if (params.invert != 0u) { m = 1.0 - m; }
+
+  var color: vec3f;
+  switch (params.effect) {
+    case 1u: { color = colorBurn(uv, v, m); }
+    case 2u: { color = heatmap(uv, m); }
+    case 3u: { color = chromatic(uv, v, m); }
+    case 4u: { color = backgroundMeanAt(uv); }
+    case 5u: { color = heatPalette(sqrt(max(backgroundVarianceAt(uv), 0.0)) * params.gain); }
+    default: { color = v.rgb * m; }
+  }
+
+  // The canvas is configured premultiplied
+  let alpha = select(clamp(m, 0.0, 1.0), 1.0, params.opaque != 0u);
+  return vec4f(clamp(color, vec3f(0.0), vec3f(1.0)) * alpha, alpha);
+}
+`;
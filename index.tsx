@@ -6,103 +6,1040 @@
 import { render } from 'preact';
 import { useRef, useState, useEffect, useCallback } from 'preact/hooks';
 import { html } from 'htm/preact';
-import { MotionEngine, MotionControls } from './gl/motion-engine';
+import { MotionEngine, MotionControls, RenderTargetFormat, MAX_FRAME_OFFSET, MAX_NOISE_REDUCTION, MIN_PROCESSING_RESOLUTION } from './gl/motion-engine';
+import type { MotionPipeline } from './gl/motion-pipeline';
+import { RENDER_STAGES } from './gl/pass-timer';
+import { TrackedBlob } from './gl/blob-tracker';
+import { MAX_MORPH_RADIUS, MAX_MORPH_ITERATIONS } from './gl/morphology';
+import {
+  MotionEffect,
+  EffectUniform,
+  EffectUniformValue,
+  EffectDiagnostic,
+  BUILTIN_EFFECTS,
+  effectParam
+} from './gl/effects';
+import { Zone, rasterizeZones } from './gl/zone-mask';
+import { loadZones, saveZones } from './storage/zones';
+import { CUSTOM_EFFECT_PREFIX, loadCustomEffects, saveCustomEffects, isCustomEffectName } from './storage/effects';
+import {
+  Preset,
+  BUILTIN_PRESETS,
+  DEFAULT_CONTROLS,
+  DEFAULT_MODE_THRESHOLDS,
+  loadUserPresets,
+  saveUserPresets,
+  presetToJson,
+  presetFromJson,
+  presetToHash,
+  presetFromHash
+} from './storage/presets';
+import { exportVideoOffline, isOfflineExportSupported } from './media/offline-export';
+import { ClipBuffer, isClipBufferSupported } from './media/clip-buffer';
+import {
+  CameraSettings,
+  CameraDevice,
+  CAMERA_RESOLUTIONS,
+  CAMERA_FRAME_RATES,
+  listCameras,
+  openCamera,
+  applyCaptureSettings,
+  getCaptureInfo
+} from './media/camera';
+import { loadCameraSettings, saveCameraSettings } from './storage/camera';
+import {
+  MotionEvent,
+  MotionEventDetector,
+  EventLogSettings,
+  eventsToJson,
+  eventsToCsv
+} from './events/motion-events';
+import { VideoFrameClock } from './media/frame-clock';
+import { FrameMonitor, SourceBenchmark, benchmarkToJson } from './perf/benchmark';
+import { MotionWorkerClient, isWorkerRenderingSupported } from './worker/motion-worker-client';
+import { WebGPUMotionEngine, isWebGPUCompatible, isWebGPUSupported } from './gpu/webgpu-motion-engine';
 
-const App = () => {
-  const [sourceUrl, setSourceUrl] = useState<string | null>(null);
-  const [isWebcam, setIsWebcam] = useState(false);
-  const [dimensions, setDimensions] = useState({ width: 640, height: 360 });
-  const [isRecording, setIsRecording] = useState(false);
-  const [gpuInfo, setGpuInfo] = useState<string>('');
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  document.body.appendChild(a);
+  a.style.display = 'none';
+  a.href = url;
+  a.download = filename;
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+};
 
-  // Default controls
-  const [controls, setControls] = useState<MotionControls>({
-    detectionMode: 'color', // 'color', 'luminance'
-    detectionThreshold: 15.0,
-    processingResolution: 1.0, // GPU can handle 100% easily
-    noiseReduction: 0,
-    adaptationRate: 0.05,
-    morphology: 'open', // 'none', 'open', 'close'
-    effect: 'classic', // 'classic', 'colorBurn', 'electricTrails', 'heatmap', 'chromatic'
-    invert: false,
-    persistence: 0.85,
-  });
+const drawBlobOverlay = (ctx: CanvasRenderingContext2D, blobs: TrackedBlob[]) => {
+  const { width, height } = ctx.canvas;
+  ctx.clearRect(0, 0, width, height);
+  ctx.lineWidth = 2;
+  ctx.font = 'bold 12px sans-serif';
+  ctx.textBaseline = 'bottom';
+  for (const blob of blobs) {
+    const { x, y, width: bw, height: bh } = blob.boundingBox;
+    // Stable per-ID hue so a track keeps its color
+    const color = `hsl(${(blob.id * 137) % 360}, 90%, 60%)`;
+    ctx.strokeStyle = color;
+    ctx.fillStyle = color;
+    ctx.strokeRect(x * width, y * height, bw * width, bh * height);
+    ctx.fillText(`#${blob.id}`, x * width + 2, Math.max(y * height - 2, 12));
+  }
+};
+
+const readInputValue = (target: HTMLInputElement) =>
+  target.type === 'checkbox'
+    ? target.checked
+    : target.type === 'range'
+      ? Number(target.value)
+      : target.value;
+
+const rgbToHex = (rgb: [number, number, number]) =>
+  '#' + rgb.map((c) => Math.round(c * 255).toString(16).padStart(2, '0')).join('');
+
+const hexToRgb = (hex: string): [number, number, number] =>
+  [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16) / 255) as [number, number, number];
+
+// The editor compiles into this slot and the output shows it while the panel is open
+const EDITOR_PREVIEW_EFFECT = 'editor:preview';
+const EDITOR_RECOMPILE_DELAY_MS = 300;
+
+/** Effect being written in the GLSL editor; `name` is set once it has been saved as a custom effect. */
+type EffectDraft = Omit<MotionEffect, 'name'> & { name: string | null };
+
+const THUMBNAIL_WIDTH = 160;
+
+const captureThumbnail = (canvas: HTMLCanvasElement) => {
+  const thumb = document.createElement('canvas');
+  thumb.width = THUMBNAIL_WIDTH;
+  thumb.height = Math.round((THUMBNAIL_WIDTH * canvas.height) / canvas.width);
+  thumb.getContext('2d')?.drawImage(canvas, 0, 0, thumb.width, thumb.height);
+  return thumb.toDataURL('image/jpeg', 0.7);
+};
+
+const formatTime = (time: number) => new Date(time).toLocaleTimeString();
+
+const formatPlaybackTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${(seconds - minutes * 60).toFixed(2).padStart(5, '0')}`;
+};
+
+const ZONE_COLORS = { include: '#03dac6', exclude: '#cf6679' };
+const ZONE_CLOSE_DISTANCE = 0.02; // Clicking this close to the first point closes the polygon
+
+const drawZoneOutlines = (ctx: CanvasRenderingContext2D, zones: Zone[], pending: Zone | null) => {
+  const { width, height } = ctx.canvas;
+  ctx.lineWidth = 2;
+  for (const zone of pending ? [...zones, pending] : zones) {
+    if (!zone.points.length) continue;
+    ctx.beginPath();
+    zone.points.forEach((p, i) => i ? ctx.lineTo(p.x * width, p.y * height) : ctx.moveTo(p.x * width, p.y * height));
+    if (zone !== pending) ctx.closePath();
+    ctx.strokeStyle = ZONE_COLORS[zone.kind];
+    ctx.fillStyle = ZONE_COLORS[zone.kind] + '33';
+    ctx.setLineDash(zone === pending ? [6, 4] : []);
+    ctx.stroke();
+    if (zone !== pending) ctx.fill();
+  }
+  ctx.setLineDash([]);
+};
+
+/** One input feed. Each source gets its own tile, MotionEngine and controls. */
+interface VideoSource {
+  id: number;
+  kind: 'file' | 'webcam';
+  label: string;
+  key: string; // Identifies the source for per-source settings
+  url: string | null; // Object URL of a file source
+  stream: MediaStream | null; // Webcam stream
+  controls: MotionControls;
+  dimensions: { width: number; height: number };
+  backgroundFrozen: boolean; // Adaptation paused, e.g. to keep a clean background
+}
+
+/** Elements and engine of a mounted tile, handed to App for the render loop. */
+interface SourceTileHandle {
+  video: HTMLVideoElement;
+  frameClock: VideoFrameClock;
+  sourceCanvas: HTMLCanvasElement;
+  motionCanvas: HTMLCanvasElement;
+  overlayCanvas: HTMLCanvasElement;
+  engine: MotionPipeline; // A MotionWorkerClient when rendering in a worker, a WebGPUMotionEngine where WebGPU runs
+}
+
+const DISPLAY_WIDTH = 640; // Canvas and engine width; the height follows the source's aspect ratio
+const SYNC_TOLERANCE = 0.15; // Seconds a synced file may drift from the first file before it is re-seeked
+const FRAME_STEP = 1 / 30; // Used until a file has played two consecutive frames, see VideoFrameClock.frameDuration
+const PLAYBACK_RATES = [0.25, 0.5, 1, 2, 4];
+const SEEK_JUMP = 0.5; // Seconds between two rendered frames that count as a seek, not playback or a frame step
+const PERF_REFRESH_MS = 500; // How often the performance overlay re-reads the figures
+
+const formatMs = (ms: number) => `${ms.toFixed(2)} ms`;
+
+interface SourceTileProps {
+  source: VideoSource;
+  active: boolean;
+  drawing: boolean; // A zone is being drawn on this source
+  customEffects: MotionEffect[]; // Registered once, when the tile's engine is created
+  inWorker: boolean; // Hand the motion canvas to a worker; fixed for the tile's lifetime
+  preferWebGPU: boolean; // Try the WebGPU backend first on the main thread; changing it swaps the motion canvas
+  perf: SourceBenchmark | null; // Shown over the motion canvas while profiling
+  onReady: (id: number, handle: SourceTileHandle | null) => void;
+  onResize: (id: number, dimensions: { width: number; height: number }) => void;
+  onSelect: (id: number) => void;
+  onRemove: (id: number) => void;
+  onSourceClick: (e: MouseEvent) => void;
+}
+
+/**
+ * Picks the tile's backend. A worker always runs the WebGL 2 engine; on the
+ * main thread WebGPU is tried first, and WebGL 2 takes the canvas wherever
+ * it is missing or fails to start.
+ */
+const createEngine = async (canvas: HTMLCanvasElement, inWorker: boolean, preferWebGPU: boolean) => {
+  if (inWorker) return new MotionWorkerClient(canvas);
+  if (preferWebGPU && isWebGPUSupported()) {
+    try {
+      const engine = await WebGPUMotionEngine.create(canvas);
+      if (engine) return engine;
+    } catch (e) {
+      console.warn('WebGPU backend failed to start, using WebGL 2:', e);
+    }
+  }
+  return new MotionEngine(canvas);
+};
 
+const SourceTile = ({ source, active, drawing, customEffects, inWorker, preferWebGPU, perf, onReady, onResize, onSelect, onRemove, onSourceClick }: SourceTileProps) => {
   const videoRef = useRef<HTMLVideoElement>(null);
-  // sourceCanvasRef is no longer strictly needed for processing, but good for visualization if we want to show raw input?
-  // Actually, let's keep it to show "Source" vs "Motion".
   const sourceCanvasRef = useRef<HTMLCanvasElement>(null);
   const motionCanvasRef = useRef<HTMLCanvasElement>(null);
-  const engineRef = useRef<MotionEngine | null>(null);
+  const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+  const engineRef = useRef<MotionPipeline | null>(null);
+  const frameClockRef = useRef<VideoFrameClock | null>(null);
+  const dimensionsRef = useRef<{ width: number; height: number } | null>(null); // Engine size, once the video's is known
+  const [gpuStatus, setGpuStatus] = useState<string | null>(null); // Shown over the motion canvas when rendering stops
+  const [backend, setBackend] = useState(''); // Shown in the header once the engine exists
+
+  // The engine and the video size arrive in either order; whichever comes second inits
+  const initEngine = (engine: MotionPipeline) => {
+    const dimensions = dimensionsRef.current;
+    if (!dimensions) return;
+    try {
+      engine.init(dimensions.width, dimensions.height);
+    } catch (e) {
+      console.error(`Failed to set up MotionEngine for ${source.label}:`, e);
+      setGpuStatus(`GPU setup failed: ${e instanceof Error ? e.message : e}`);
+    }
+  };
+
+  // Runs before the engine effect below, which hands the clock to App
+  useEffect(() => {
+    const clock = new VideoFrameClock(videoRef.current!);
+    frameClockRef.current = clock;
+    return () => clock.dispose();
+  }, []);
+
+  // Each tile owns an engine (and GPU context) per motion canvas; the canvas is replaced when the backend changes
+  useEffect(() => {
+    const canvas = motionCanvasRef.current!;
+    let engine: MotionEngine | MotionWorkerClient | WebGPUMotionEngine | null = null;
+    let unmounted = false;
+    let removeListeners = () => {};
+    setGpuStatus(null);
+
+    createEngine(canvas, inWorker, preferWebGPU).then((created) => {
+      if (unmounted) {
+        created.dispose();
+        return;
+      }
+      engine = created;
+      // A disposed or failed worker rejects; that must not go unhandled
+      customEffects.forEach((effect) => {
+        Promise.resolve().then(() => created.compileEffect(effect)).then((diagnostics) => {
+          const errors = diagnostics.filter((d) => d.severity === 'error');
+          if (errors.length) console.warn(`Custom effect "${effect.label}" does not compile:`, errors);
+        }).catch((e) => console.error(`Could not compile custom effect "${effect.label}":`, e));
+      });
+      engineRef.current = created;
+      setBackend(created instanceof WebGPUMotionEngine ? 'WebGPU' : inWorker ? 'GL, worker' : 'GL');
+
+      // The engine rebuilds itself on restore; this only keeps the user informed.
+      // A transferred canvas fires nothing here, so the worker client relays its events;
+      // WebGPU reports device loss on the engine itself.
+      const [events, lost, restored]: [EventTarget, string, string] = created instanceof MotionEngine
+        ? [canvas, 'webglcontextlost', 'webglcontextrestored']
+        : [created, 'contextlost', 'contextrestored'];
+      const handleLost = () => setGpuStatus('GPU context lost, waiting for the browser to restore it…');
+      const handleRestored = () => setGpuStatus(created.isContextLost() ? 'GPU context restored but could not be rebuilt' : null);
+      const handleError = (e: Event) => setGpuStatus(`GPU setup failed: ${(e as ErrorEvent).message}`);
+      events.addEventListener(lost, handleLost);
+      events.addEventListener(restored, handleRestored);
+      events.addEventListener('error', handleError);
+      removeListeners = () => {
+        events.removeEventListener(lost, handleLost);
+        events.removeEventListener(restored, handleRestored);
+        events.removeEventListener('error', handleError);
+      };
+
+      initEngine(created);
+      onReady(source.id, {
+        video: videoRef.current!,
+        frameClock: frameClockRef.current!,
+        sourceCanvas: sourceCanvasRef.current!,
+        motionCanvas: canvas,
+        overlayCanvas: overlayCanvasRef.current!,
+        engine: created,
+      });
+    }, (e) => {
+      console.error(`Failed to init MotionEngine for ${source.label}:`, e);
+    });
+
+    return () => {
+      unmounted = true;
+      if (!engine) return;
+      removeListeners();
+      onReady(source.id, null);
+      engineRef.current = null;
+      engine.dispose();
+    };
+  }, [preferWebGPU]);
+
+  // Attach the media and size the engine once the video dimensions are known
+  useEffect(() => {
+    const video = videoRef.current!;
+    if (source.url) {
+      video.src = source.url;
+    } else {
+      video.srcObject = source.stream;
+    }
+
+    const fitToVideo = () => {
+      const aspectRatio = (video.videoWidth || 640) / (video.videoHeight || 360);
+      const dimensions = { width: DISPLAY_WIDTH, height: DISPLAY_WIDTH / aspectRatio };
+      if (dimensionsRef.current?.height === dimensions.height) return;
+      onResize(source.id, dimensions);
+      dimensionsRef.current = dimensions;
+      if (engineRef.current) initEngine(engineRef.current);
+    };
+
+    let hasInitialized = false;
+    const initPlayback = () => {
+      if (hasInitialized) return;
+      hasInitialized = true;
+      fitToVideo();
+
+      video.play().catch(e => {
+        if (e.name !== 'AbortError') {
+          console.error("Error playing video:", e);
+        }
+      });
+    };
+
+    video.onloadedmetadata = initPlayback;
+    video.oncanplay = initPlayback;
+    // A live camera switched to another resolution may change its aspect ratio too
+    video.onresize = () => hasInitialized && fitToVideo();
+    if (video.readyState >= 2) initPlayback();
+
+    return () => {
+      video.onloadedmetadata = null;
+      video.oncanplay = null;
+      video.onresize = null;
+    };
+  }, [source.url, source.stream]);
+
+  const { width, height } = source.dimensions;
+
+  return html`
+    <div class="source-tile ${active ? 'active' : ''}" onClick=${() => onSelect(source.id)}>
+      <div class="source-tile-header">
+        <span title=${source.label}>${source.kind === 'webcam' ? 'Camera' : 'File'} · ${source.label}</span>
+        <button class="btn secondary" onClick=${(e: Event) => { e.stopPropagation(); onRemove(source.id); }}>Remove</button>
+      </div>
+      <div class="canvas-container">
+        <div class="canvas-wrapper">
+          <h2>Source</h2>
+          <canvas
+            ref=${sourceCanvasRef}
+            class=${drawing ? 'drawing' : ''}
+            width=${width}
+            height=${height}
+            onClick=${drawing ? onSourceClick : undefined}></canvas>
+        </div>
+        <div class="canvas-wrapper">
+          <h2>Motion${backend && ` (${backend})`}</h2>
+          <div class="canvas-stack">
+            <canvas key=${preferWebGPU ? 'webgpu' : 'webgl2'} ref=${motionCanvasRef} width=${width} height=${height}></canvas>
+            <canvas ref=${overlayCanvasRef} class="overlay" width=${width} height=${height}></canvas>
+            ${gpuStatus && html`<div class="gpu-status">${gpuStatus}</div>`}
+            ${perf && html`
+              <div class="perf-overlay">
+                <div>${perf.frameRate.fps.toFixed(0)} fps · ${perf.frameRate.droppedFrames} dropped of ${perf.frameRate.sourceFps.toFixed(0)} fps source</div>
+                <div>Textures: ${(perf.textureMemoryBytes / (1024 * 1024)).toFixed(1)} MB</div>
+                ${perf.timings ? html`
+                  ${RENDER_STAGES.map((stage) => html`<div>${stage}: ${formatMs(perf.timings!.stages[stage].mean)}</div>`)}
+                  <div>total: ${formatMs(perf.timings.total.mean)} (p95 ${formatMs(perf.timings.total.p95)}, ${perf.timings.source.toUpperCase()})</div>
+                ` : html`<div>${backend === 'WebGPU' ? 'Stage timings need WebGL 2' : 'Timing…'}</div>`}
+              </div>
+            `}
+          </div>
+        </div>
+      </div>
+      <video ref=${videoRef} class="hidden" loop muted playsinline></video>
+    </div>
+  `;
+};
+
+const App = () => {
+  const [sources, setSources] = useState<VideoSource[]>([]);
+  const [activeSourceId, setActiveSourceId] = useState<number | null>(null); // The sidebar edits this source
+  const [zonesBySource, setZonesBySource] = useState<Record<number, Zone[]>>({});
+  const [pendingZone, setPendingZone] = useState<Zone | null>(null);
+  const [tilesVersion, setTilesVersion] = useState(0); // Bumped when a tile's engine comes or goes
+  const [syncPlayback, setSyncPlayback] = useState(true);
+  const [playback, setPlayback] = useState({ time: 0, duration: 0, paused: true, rate: 1 });
+  const [loopRange, setLoopRange] = useState<{ start: number | null; end: number | null }>({ start: null, end: null });
+  const [resetOnSeek, setResetOnSeek] = useState(true); // Re-learn the background after a jump instead of flagging the whole frame
+  const [isRecording, setIsRecording] = useState(false);
+  const [gpuInfo, setGpuInfo] = useState<string>('');
+  const [renderTargetFormat, setRenderTargetFormat] = useState<RenderTargetFormat>('rgba32f');
+  const [cameras, setCameras] = useState<CameraDevice[]>([]);
+  const [cameraSettings, setCameraSettings] = useState<CameraSettings>(loadCameraSettings);
+  const [, setCaptureVersion] = useState(0); // Bumped after a lock is applied to re-read the track settings
+  const [customEffects, setCustomEffects] = useState<MotionEffect[]>(loadCustomEffects);
+  const [effectDraft, setEffectDraft] = useState<EffectDraft | null>(null); // Non-null while the editor is open
+  const [draftDiagnostics, setDraftDiagnostics] = useState<EffectDiagnostic[]>([]);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportNote, setExportNote] = useState<string | null>(null); // What the last offline export left out
+  const [profiling, setProfiling] = useState(false);
+  const [workerRendering, setWorkerRendering] = useState(false); // Run every tile's engine in a worker on an OffscreenCanvas
+  const [preferWebGPU, setPreferWebGPU] = useState(false); // Main-thread tiles use WebGPU where available and their settings allow
+  const [perfBySource, setPerfBySource] = useState<Record<number, SourceBenchmark>>({});
+  const [events, setEvents] = useState<MotionEvent[]>([]);
+  const [eventSettings, setEventSettings] = useState<EventLogSettings>({
+    enabled: false,
+    startThreshold: 0.02,
+    stopThreshold: 0.01,
+    minDuration: 500,
+    preRoll: 3000,
+  });
+
+  const [idleControls, setIdleControls] = useState<MotionControls>(DEFAULT_CONTROLS); // Used for the next source while none is open
+  const [userPresets, setUserPresets] = useState<Preset[]>(loadUserPresets);
+  const [selectedPreset, setSelectedPreset] = useState(''); // 'builtin:<name>' / 'user:<name>', '' once edited
+  const [resolutionDraft, setResolutionDraft] = useState<number | null>(null); // Slider position while dragging; engines rebuild on release
+
+  const tilesRef = useRef(new Map<number, SourceTileHandle>());
+  const lastFrameTimesRef = useRef(new Map<number, number>()); // Media time of each file's last rendered frame
+  const frameMonitorsRef = useRef(new Map<number, FrameMonitor>()); // Filled while profiling
+  const lastPresentedRef = useRef(new Map<number, number>()); // Presented-frame count of each source's last main-thread render
+  const lastPreviewRef = useRef(new Map<number, unknown[]>()); // What each source preview last drew, while a worker renders
+  const profilingStartRef = useRef(0);
+  const nextSourceIdRef = useRef(1);
   const animationFrameId = useRef<number>();
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const recordedCanvasRef = useRef<HTMLCanvasElement | null>(null);
   const recordedChunksRef = useRef<Blob[]>([]);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const exportSourceIdRef = useRef<number | null>(null);
+  // Offline export reads controls and zones per frame, outside the render closure
+  const sourcesRef = useRef(sources);
+  sourcesRef.current = sources;
+  const zonesBySourceRef = useRef(zonesBySource);
+  zonesBySourceRef.current = zonesBySource;
+  const eventDetectorRef = useRef(new MotionEventDetector());
+  const clipBufferRef = useRef<ClipBuffer | null>(null);
+  // Last threshold used in each detection mode, so switching modes back and forth keeps tuning
+  const modeThresholdsRef = useRef({ ...DEFAULT_MODE_THRESHOLDS });
+  const editorTextRef = useRef<HTMLTextAreaElement>(null);
+  const editorGutterRef = useRef<HTMLDivElement>(null);
+
+  const activeSource = sources.find((s) => s.id === activeSourceId) ?? null;
+  const activeTile = () => (activeSourceId === null ? undefined : tilesRef.current.get(activeSourceId));
+  const controls = activeSource?.controls ?? idleControls;
+  const zones = activeSourceId === null ? [] : zonesBySource[activeSourceId] ?? [];
+  const effects = [...BUILTIN_EFFECTS, ...customEffects]; // What every tile's engine registers
+  const fileSources = sources.filter((s) => s.kind === 'file');
+
+  const setControls = (next: MotionControls) => {
+    if (activeSourceId === null) {
+      setIdleControls(next);
+    } else {
+      setSources((prev) => prev.map((s) => (s.id === activeSourceId ? { ...s, controls: next } : s)));
+    }
+  };
+
+  const forEachEngine = (fn: (engine: MotionPipeline) => void) => {
+    tilesRef.current.forEach((tile) => fn(tile.engine));
+  };
 
   const handleControlChange = (e: Event) => {
     const target = e.target as HTMLInputElement;
-    const value =
-      target.type === 'checkbox'
-        ? target.checked
-        : target.type === 'range'
-          ? Number(target.value)
-          : target.value;
+    const value = readInputValue(target);
 
-    const newControls = { ...controls, [target.id]: value };
+    const newControls = { ...controls, [target.id]: value } as MotionControls;
 
     if (target.id === 'detectionMode') {
-      if (value === 'color') {
-        newControls.detectionThreshold = 15.0;
-      } else {
-        newControls.detectionThreshold = 2.5;
-      }
+      const thresholds = modeThresholdsRef.current;
+      thresholds[controls.detectionMode] = controls.detectionThreshold;
+      newControls.detectionThreshold = thresholds[newControls.detectionMode];
     }
 
-    setControls(newControls as MotionControls);
+    setControls(newControls);
+    setSelectedPreset('');
+  };
+
+  const applyPreset = (preset: Preset) => {
+    modeThresholdsRef.current[preset.controls.detectionMode] = preset.controls.detectionThreshold;
+    setControls({ ...preset.controls });
+  };
+
+  const handlePresetSelect = (e: Event) => {
+    const value = (e.target as HTMLSelectElement).value;
+    const [kind, ...rest] = value.split(':');
+    const name = rest.join(':');
+    const preset = (kind === 'builtin' ? BUILTIN_PRESETS : userPresets).find((p) => p.name === name);
+    if (!preset) return;
+    applyPreset(preset);
+    setSelectedPreset(value);
+  };
+
+  const storeUserPreset = (preset: Preset) => {
+    const next = [...userPresets.filter((p) => p.name !== preset.name), preset]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    setUserPresets(next);
+    saveUserPresets(next);
+    setSelectedPreset(`user:${preset.name}`);
+  };
+
+  const savePreset = () => {
+    const current = selectedPreset.startsWith('user:') ? selectedPreset.slice(5) : '';
+    const name = prompt('Preset name:', current)?.trim();
+    if (!name) return;
+    storeUserPreset({ name, controls: { ...controls } });
+  };
+
+  const deletePreset = () => {
+    if (!selectedPreset.startsWith('user:')) return;
+    const next = userPresets.filter((p) => p.name !== selectedPreset.slice(5));
+    setUserPresets(next);
+    saveUserPresets(next);
+    setSelectedPreset('');
+  };
+
+  const currentPresetName = () => selectedPreset.slice(selectedPreset.indexOf(':') + 1) || 'Custom';
+
+  const exportPreset = () => {
+    const name = currentPresetName();
+    const blob = new Blob([presetToJson({ name, controls })], { type: 'application/json' });
+    downloadBlob(blob, `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}.preset.json`);
   };
 
-  const startWebcam = async () => {
+  const importPreset = async (e: Event) => {
+    const target = e.target as HTMLInputElement;
+    const file = target.files?.[0];
+    target.value = ''; // Allow re-importing the same file
+    if (!file) return;
     try {
-      if (videoRef.current?.srcObject) {
-        (videoRef.current.srcObject as MediaStream)
-          .getTracks()
-          .forEach((track) => track.stop());
-      }
-      const stream = await navigator.mediaDevices.getUserMedia({
-        video: { width: { ideal: 1920 }, height: { ideal: 1080 } }, // Request HD for GPU power!
+      const preset = presetFromJson(await file.text());
+      applyPreset(preset);
+      storeUserPreset(preset);
+    } catch (err) {
+      console.error('Preset import failed:', err);
+      alert(`Could not import preset: ${(err as Error).message}`);
+    }
+  };
+
+  const sharePreset = async () => {
+    const url = `${location.origin}${location.pathname}${location.search}${presetToHash({ name: currentPresetName(), controls })}`;
+    history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      alert('Share link copied to clipboard.');
+    } catch {
+      prompt('Copy this share link:', url);
+    }
+  };
+
+  const handleEffectParamChange = (effect: MotionEffect, uniform: EffectUniform, value: EffectUniformValue) => {
+    setControls({
+      ...controls,
+      effectParams: {
+        ...controls.effectParams,
+        [effect.name]: { ...controls.effectParams[effect.name], [uniform.name]: value },
+      },
+    });
+    setSelectedPreset('');
+  };
+
+  const renderEffectControl = (effect: MotionEffect, uniform: EffectUniform) => {
+    const id = `effect-${uniform.name}`;
+    const value = effectParam(effect, uniform, controls.effectParams);
+    if (uniform.type === 'bool') {
+      return html`
+        <div class="toggle-switch">
+          <span class="toggle-label">${uniform.label}</span>
+          <label class="switch">
+            <input id=${id} type="checkbox" checked=${value}
+              onChange=${(e: Event) => handleEffectParamChange(effect, uniform, (e.target as HTMLInputElement).checked)} />
+            <span class="slider"></span>
+          </label>
+        </div>
+      `;
+    }
+    if (uniform.type === 'color') {
+      return html`
+        <div class="control-group">
+          <label for=${id}>${uniform.label}</label>
+          <input id=${id} type="color" value=${rgbToHex(value as [number, number, number])}
+            onInput=${(e: Event) => handleEffectParamChange(effect, uniform, hexToRgb((e.target as HTMLInputElement).value))} />
+        </div>
+      `;
+    }
+    return html`
+      <div class="control-group">
+        <label for=${id}>${uniform.label}: ${Number((value as number).toFixed(3))}</label>
+        <input id=${id} type="range" min=${uniform.min} max=${uniform.max} step=${uniform.step ?? (uniform.type === 'int' ? 1 : 0.01)} value=${value}
+          onInput=${(e: Event) => handleEffectParamChange(effect, uniform, Number((e.target as HTMLInputElement).value))} />
+      </div>
+    `;
+  };
+
+  const openEffectEditor = () => {
+    const base = effects.find((effect) => effect.name === controls.effect) ?? effects[0];
+    if (!base) return;
+    setEffectDraft({
+      ...base,
+      name: isCustomEffectName(base.name) ? base.name : null,
+      label: isCustomEffectName(base.name) ? base.label : `${base.label} (Custom)`,
+      source: base.source.replace(/^\n/, ''),
+    });
+    // Compile right away so the preview never falls back while the first edit is pending
+    const engine = activeTile()?.engine;
+    setDraftDiagnostics([]);
+    if (engine) Promise.resolve(engine.compileEffect({ ...base, name: EDITOR_PREVIEW_EFFECT })).then(setDraftDiagnostics);
+  };
+
+  const closeEffectEditor = () => {
+    forEachEngine((engine) => engine.unregisterEffect(EDITOR_PREVIEW_EFFECT));
+    setEffectDraft(null);
+    setDraftDiagnostics([]);
+  };
+
+  const saveEffectDraft = async () => {
+    const engine = activeTile()?.engine;
+    if (!engine || !effectDraft) return;
+    const label = effectDraft.label.trim();
+    if (!label) {
+      alert('Give the effect a name first');
+      return;
+    }
+
+    const effect: MotionEffect = {
+      ...effectDraft,
+      name: effectDraft.name ?? `${CUSTOM_EFFECT_PREFIX}${Date.now().toString(36)}`,
+      label,
+    };
+    const diagnostics = await engine.compileEffect(effect);
+    setDraftDiagnostics(diagnostics);
+    if (diagnostics.some((d) => d.severity === 'error')) return;
+    forEachEngine((other) => {
+      if (other === engine) return;
+      // Some engines compile synchronously; a throw or rejection there must not go unhandled
+      Promise.resolve().then(() => other.compileEffect(effect)).catch((e) => console.error(`Could not compile ${effect.name} on another source:`, e));
+    });
+
+    const updated = customEffects.some((e) => e.name === effect.name)
+      ? customEffects.map((e) => (e.name === effect.name ? effect : e))
+      : [...customEffects, effect];
+    setCustomEffects(updated);
+    saveCustomEffects(updated);
+    setEffectDraft({ ...effectDraft, name: effect.name, label });
+    setControls({ ...controls, effect: effect.name });
+    setSelectedPreset('');
+  };
+
+  const deleteEffectDraft = () => {
+    const name = effectDraft?.name;
+    if (!name || !confirm(`Delete effect "${effectDraft.label}"?`)) return;
+    forEachEngine((engine) => engine.unregisterEffect(name));
+    const updated = customEffects.filter((e) => e.name !== name);
+    setCustomEffects(updated);
+    saveCustomEffects(updated);
+    setEffectDraft({ ...effectDraft, name: null });
+    // Other sources using it fall back in their engines; point them at the default explicitly
+    setSources((prev) => prev.map((s) => (
+      s.controls.effect === name ? { ...s, controls: { ...s.controls, effect: DEFAULT_CONTROLS.effect } } : s
+    )));
+    if (idleControls.effect === name) setIdleControls({ ...idleControls, effect: DEFAULT_CONTROLS.effect });
+  };
+
+  const handleEditorKeyDown = (e: KeyboardEvent) => {
+    if (e.key !== 'Tab' || !effectDraft) return;
+    e.preventDefault();
+    const textarea = e.target as HTMLTextAreaElement;
+    const { selectionStart, selectionEnd } = textarea;
+    const source = effectDraft.source.slice(0, selectionStart) + '  ' + effectDraft.source.slice(selectionEnd);
+    setEffectDraft({ ...effectDraft, source });
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 2, selectionStart + 2));
+  };
+
+  const jumpToLine = (line: number) => {
+    const textarea = editorTextRef.current;
+    if (!textarea || !effectDraft) return;
+    const lines = effectDraft.source.split('\n');
+    const start = lines.slice(0, line - 1).reduce((offset, l) => offset + l.length + 1, 0);
+    textarea.focus();
+    textarea.setSelectionRange(start, start + lines[line - 1].length);
+  };
+
+  const exportExposure = async () => {
+    const engine = activeTile()?.engine;
+    if (!engine) return;
+    try {
+      downloadBlob(await engine.exportExposurePNG(), 'motion-exposure.png');
+    } catch (e) {
+      console.error('Heatmap export failed:', e);
+      alert(`Heatmap export failed: ${(e as Error).message}`);
+    }
+  };
+
+  const toggleBackgroundFrozen = (e: Event) => {
+    const backgroundFrozen = (e.target as HTMLInputElement).checked;
+    setSources((prev) => prev.map((s) => (s.id === activeSourceId ? { ...s, backgroundFrozen } : s)));
+  };
+
+  const exportBackground = async (format: 'png' | 'float') => {
+    const engine = activeTile()?.engine;
+    if (!engine) return;
+    try {
+      downloadBlob(await engine.exportBackground(format), format === 'png' ? 'motion-background.png' : 'motion-background.bin');
+    } catch (e) {
+      console.error('Background export failed:', e);
+      alert(`Background export failed: ${(e as Error).message}`);
+    }
+  };
+
+  const importBackground = async (event: Event) => {
+    const target = event.target as HTMLInputElement;
+    const file = target.files?.[0];
+    target.value = '';
+    const engine = activeTile()?.engine;
+    if (!file || !engine) return;
+    try {
+      await engine.importBackground(file);
+    } catch (e) {
+      console.error('Background import failed:', e);
+      alert(`Could not load background: ${(e as Error).message}`);
+    }
+  };
+
+  const handleEventSettingChange = (e: Event) => {
+    const target = e.target as HTMLInputElement;
+    setEventSettings({ ...eventSettings, [target.id]: readInputValue(target) });
+  };
+
+  const handleMotionEvents = (engine: MotionPipeline, sourceCanvas: HTMLCanvasElement) => {
+    const stats = engine.getMotionStats();
+    if (!stats) return;
+
+    const now = Date.now();
+    clipBufferRef.current?.addFrame(now);
+
+    const transition = eventDetectorRef.current.update(stats.movingFraction, now, eventSettings);
+    if (!transition) return;
+
+    const { event } = transition;
+    const clipBuffer = clipBufferRef.current;
+
+    if (transition.type === 'start') {
+      clipBuffer?.pin(event.id, event.startTime);
+      event.thumbnail = captureThumbnail(sourceCanvas);
+      setEvents((prev) => [event, ...prev]);
+    } else if (transition.type === 'discard') {
+      clipBuffer?.unpin(event.id);
+      setEvents((prev) => prev.filter((e) => e.id !== event.id));
+    } else {
+      setEvents((prev) => prev.map((e) => (e.id === event.id ? event : e)));
+      clipBuffer?.exportClip(event.startTime, event.endTime!)
+        .then((clip) => setEvents((prev) => prev.map((e) => (e.id === event.id ? { ...e, clip } : e))))
+        .catch((err) => console.error(`Could not export clip for event #${event.id}:`, err))
+        .finally(() => clipBuffer.unpin(event.id));
+    }
+  };
+
+  // Open events end here rather than staying "in progress"; their clip buffer goes away with them
+  const closeOpenEvents = () => {
+    eventDetectorRef.current.reset();
+    const endTime = Date.now();
+    setEvents((prev) => (prev.some((e) => e.endTime === null)
+      ? prev.map((e) => (e.endTime === null ? { ...e, endTime } : e))
+      : prev));
+  };
+
+  const exportEventLog = (format: 'json' | 'csv') => {
+    const ended = events.filter((e) => e.endTime !== null);
+    const blob = format === 'json'
+      ? new Blob([eventsToJson(ended)], { type: 'application/json' })
+      : new Blob([eventsToCsv(ended)], { type: 'text/csv' });
+    downloadBlob(blob, `motion-events.${format}`);
+  };
+
+  const addSource = (source: Omit<VideoSource, 'id' | 'controls' | 'dimensions' | 'backgroundFrozen'>) => {
+    const id = nextSourceIdRef.current++;
+    // New sources start from whatever the sidebar currently shows
+    setSources((prev) => [...prev, { ...source, id, controls: { ...controls }, dimensions: { width: DISPLAY_WIDTH, height: 360 }, backgroundFrozen: false }]);
+    setZonesBySource((prev) => ({ ...prev, [id]: loadZones(source.key) }));
+    setActiveSourceId(id);
+    setPendingZone(null);
+  };
+
+  const refreshCameras = async () => {
+    try {
+      setCameras(await listCameras());
+    } catch (err) {
+      console.warn('Could not list cameras:', err);
+    }
+  };
+
+  const openDeviceIds = () => new Set(sources.flatMap((s) => s.stream?.getVideoTracks().map((t) => t.getSettings().deviceId) ?? []));
+
+  const addWebcam = async () => {
+    // Prefer the chosen camera, else one that is not open yet, so each click adds another feed;
+    // a remembered camera that is unplugged now falls back to the default one
+    const inUse = openDeviceIds();
+    const chosen = cameras.find((c) => c.deviceId === cameraSettings.deviceId);
+    const unused = chosen && !inUse.has(chosen.deviceId) ? chosen : cameras.find((c) => !inUse.has(c.deviceId));
+    const settings = { ...cameraSettings, deviceId: unused?.deviceId ?? chosen?.deviceId ?? '' };
+    try {
+      const stream = await openCamera(settings);
+      const track = stream.getVideoTracks()[0];
+      const deviceId = track?.getSettings().deviceId;
+      addSource({
+        kind: 'webcam',
+        label: track?.label || 'Webcam',
+        key: deviceId ? `webcam:${deviceId}` : 'webcam',
+        url: null,
+        stream,
       });
-      if (videoRef.current) {
-        videoRef.current.srcObject = stream;
-        videoRef.current.src = '';
-        setIsWebcam(true);
-        setSourceUrl(null);
-      }
+      updateCameraSettings({ ...settings, deviceId: deviceId ?? settings.deviceId });
+      // Device labels are only readable once access has been granted
+      refreshCameras();
     } catch (err) {
       console.error('Error accessing webcam:', err);
       alert('Could not access the webcam. Please ensure permissions are granted.');
     }
   };
 
+  const updateCameraSettings = (next: CameraSettings) => {
+    setCameraSettings(next);
+    saveCameraSettings(next);
+  };
+
+  const handleCameraSettingChange = (e: Event) => {
+    const target = e.target as HTMLInputElement | HTMLSelectElement;
+    let next: CameraSettings;
+    if (target.id === 'cameraResolution') {
+      const [width, height] = target.value.split('x').map(Number);
+      next = { ...cameraSettings, width, height };
+    } else if (target instanceof HTMLInputElement && target.type === 'checkbox') {
+      next = { ...cameraSettings, [target.id]: target.checked };
+    } else if (target.id === 'frameRate') {
+      next = { ...cameraSettings, frameRate: Number(target.value) };
+    } else {
+      next = { ...cameraSettings, [target.id]: target.value };
+    }
+    updateCameraSettings(next);
+
+    // Changes take effect on the selected camera right away; another device reopens it
+    if (activeSource?.kind !== 'webcam') return;
+    const track = activeSource.stream?.getVideoTracks()[0];
+    if (next.deviceId !== cameraSettings.deviceId) {
+      switchCamera(activeSource, next);
+    } else if (track) {
+      applyCaptureSettings(track, next).then(() => setCaptureVersion((v) => v + 1));
+    }
+  };
+
+  const switchCamera = async (source: VideoSource, settings: CameraSettings) => {
+    try {
+      const stream = await openCamera(settings);
+      const track = stream.getVideoTracks()[0];
+      const deviceId = track?.getSettings().deviceId;
+      const key = deviceId ? `webcam:${deviceId}` : 'webcam';
+      source.stream?.getTracks().forEach((t) => t.stop());
+      setSources((prev) => prev.map((s) => (s.id === source.id ? { ...s, stream, key, label: track?.label || 'Webcam' } : s)));
+      setZonesBySource((prev) => ({ ...prev, [source.id]: loadZones(key) }));
+      setPendingZone(null);
+    } catch (err) {
+      console.error('Error switching webcam:', err);
+      alert('Could not open that camera. It may be in use by another application.');
+    }
+  };
+
   const handleFileUpload = (event: Event) => {
     const target = event.target as HTMLInputElement;
-    if (target.files && target.files[0]) {
-      const file = target.files[0];
-      const url = URL.createObjectURL(file);
-      setIsWebcam(false);
-      if (videoRef.current?.srcObject) {
-        (videoRef.current.srcObject as MediaStream)
-          .getTracks()
-          .forEach((track) => track.stop());
-        videoRef.current.srcObject = null;
+    Array.from(target.files ?? []).forEach((file) => addSource({
+      kind: 'file',
+      label: file.name,
+      key: `file:${file.name}:${file.size}`,
+      url: URL.createObjectURL(file),
+      stream: null,
+    }));
+    target.value = ''; // Allow adding the same file again
+  };
+
+  const selectSource = (id: number) => {
+    if (id === activeSourceId) return;
+    setActiveSourceId(id);
+    setPendingZone(null);
+    setSelectedPreset('');
+  };
+
+  const removeSource = (id: number) => {
+    const source = sources.find((s) => s.id === id);
+    if (!source) return;
+    if (id === activeSourceId && isRecording) stopRecording();
+    if (id === exportSourceIdRef.current) cancelProcessFile();
+
+    source.stream?.getTracks().forEach((track) => track.stop());
+    if (source.url) URL.revokeObjectURL(source.url);
+    lastFrameTimesRef.current.delete(id);
+    frameMonitorsRef.current.delete(id);
+    lastPresentedRef.current.delete(id);
+    lastPreviewRef.current.delete(id);
+
+    const remaining = sources.filter((s) => s.id !== id);
+    setSources(remaining);
+    setZonesBySource((prev) => Object.fromEntries(Object.entries(prev).filter(([key]) => Number(key) !== id)));
+    if (id === activeSourceId) {
+      setActiveSourceId(remaining[0]?.id ?? null);
+      setPendingZone(null);
+    }
+  };
+
+  const handleTileReady = (id: number, handle: SourceTileHandle | null) => {
+    if (handle) {
+      tilesRef.current.set(id, handle);
+    } else {
+      // A backend switch replaces the canvas being recorded; the recording would only show its last frame
+      if (tilesRef.current.get(id)?.motionCanvas === recordedCanvasRef.current) stopRecording();
+      tilesRef.current.delete(id);
+    }
+    setTilesVersion((v) => v + 1);
+  };
+
+  const handleTileResize = (id: number, dimensions: { width: number; height: number }) => {
+    setSources((prev) => prev.map((s) => (s.id === id ? { ...s, dimensions } : s)));
+  };
+
+  // Play/pause/seek apply to every file when synced, otherwise to the selected one
+  const playbackTiles = () => fileSources
+    .filter((s) => syncPlayback || s.id === activeSourceId)
+    .flatMap((s) => tilesRef.current.get(s.id) ?? []);
+
+  const playbackVideos = () => playbackTiles().map((tile) => tile.video);
+
+  const togglePlayback = () => {
+    const videos = playbackVideos();
+    const play = videos.some((video) => video.paused);
+    videos.forEach((video) => {
+      if (play) {
+        video.play().catch((e) => console.error('Error playing video:', e));
+      } else {
+        video.pause();
       }
-      setSourceUrl(url);
+    });
+  };
+
+  const seekVideos = (videos: HTMLVideoElement[], time: number) => {
+    videos.forEach((video) => {
+      const end = Number.isFinite(video.duration) ? video.duration : Infinity;
+      video.currentTime = Math.min(Math.max(time, 0), end);
+    });
+  };
+
+  const seekPlayback = (e: Event) => {
+    seekVideos(playbackVideos(), Number((e.target as HTMLInputElement).value));
+  };
+
+  const stepFrame = (direction: 1 | -1) => {
+    const tiles = playbackTiles();
+    const videos = tiles.map((tile) => tile.video);
+    videos.forEach((video) => video.pause());
+    const leader = tiles[0];
+    if (!leader) return;
+    const { video, frameClock } = leader;
+    const step = frameClock.frameDuration ?? FRAME_STEP;
+    // Aim at the middle of a frame; a seek to a frame's exact start may round onto its neighbour.
+    // A step already in flight has put currentTime there.
+    const position = video.seeking || frameClock.mediaTime === null ? video.currentTime : frameClock.mediaTime + step / 2;
+    seekVideos(videos, position + direction * step);
+  };
+
+  const handlePlaybackRateChange = (e: Event) => {
+    const rate = Number((e.target as HTMLSelectElement).value);
+    playbackVideos().forEach((video) => {
+      video.playbackRate = rate;
+    });
+  };
+
+  // Playing past the out point (or the clip end) wraps to the in point
+  const enforceLoopRange = () => {
+    const { start, end } = loopRange;
+    if (start === null && end === null) return;
+    const videos = playbackVideos();
+    const leader = videos[0];
+    if (!leader || leader.paused || leader.seeking) return;
+    if (leader.currentTime >= (end ?? leader.duration)) {
+      seekVideos(videos, start ?? 0);
     }
   };
 
+  const setLoopPoint = (point: 'start' | 'end') => {
+    const time = playbackVideos()[0]?.currentTime ?? 0;
+    setLoopRange((prev) => {
+      const next = { ...prev, [point]: time };
+      // Keep in before out; setting one past the other drops the other
+      if (next.start !== null && next.end !== null && next.start >= next.end) {
+        return point === 'start' ? { start: time, end: null } : { start: null, end: time };
+      }
+      return next;
+    });
+  };
+
+  // Followers track the first file's clock; shorter clips wrap like their looping playback
+  const syncFileSources = () => {
+    const [leader, ...followers] = fileSources
+      .flatMap((s) => tilesRef.current.get(s.id)?.video ?? [])
+      .filter((video) => video.readyState >= 2);
+    if (!leader) return;
+    followers.forEach((video) => {
+      if (video.paused !== leader.paused) {
+        if (leader.paused) {
+          video.pause();
+        } else {
+          video.play().catch(() => { /* Retried next frame */ });
+        }
+      }
+      if (video.playbackRate !== leader.playbackRate) video.playbackRate = leader.playbackRate;
+      const target = Number.isFinite(video.duration) && video.duration > 0
+        ? leader.currentTime % video.duration
+        : leader.currentTime;
+      if (!video.seeking && Math.abs(video.currentTime - target) > SYNC_TOLERANCE) {
+        video.currentTime = target;
+      }
+    });
+  };
+
   const startRecording = () => {
-    if (!motionCanvasRef.current) return;
+    const canvas = activeTile()?.motionCanvas;
+    if (!canvas) return;
     if (isRecording) return;
 
-    const stream = motionCanvasRef.current.captureStream(60); // 60 FPS for GPU smoothness
+    recordedCanvasRef.current = canvas;
+    const stream = canvas.captureStream(60); // 60 FPS for GPU smoothness
     mediaRecorderRef.current = new MediaRecorder(stream, {
       mimeType: 'video/webm; codecs=vp9',
       videoBitsPerSecond: 5000000 // High quality
@@ -118,15 +1055,7 @@ const App = () => {
 
     mediaRecorderRef.current.onstop = () => {
       const blob = new Blob(recordedChunksRef.current, { type: 'video/webm' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      document.body.appendChild(a);
-      a.style.display = 'none';
-      a.href = url;
-      a.download = 'motion-extract-gpu.webm';
-      a.click();
-      window.URL.revokeObjectURL(url);
-      document.body.removeChild(a);
+      downloadBlob(blob, 'motion-extract-gpu.webm');
       recordedChunksRef.current = [];
     };
 
@@ -135,122 +1064,336 @@ const App = () => {
   };
 
   const stopRecording = () => {
+    recordedCanvasRef.current = null;
     mediaRecorderRef.current?.stop();
     setIsRecording(false);
   };
 
-  // Initialize Engine
-  useEffect(() => {
-    if (motionCanvasRef.current && !engineRef.current) {
-      try {
-        engineRef.current = new MotionEngine(motionCanvasRef.current);
-        setGpuInfo(engineRef.current.getGPUInfo());
-        console.log("MotionEngine initialized (GPU)");
-      } catch (e) {
-        console.error("Failed to init MotionEngine:", e);
-        alert("WebGL 2 not supported! Browser too old?");
+  const processFile = async () => {
+    const source = activeSource;
+    if (!source?.url || exportAbortRef.current) return;
+
+    const abort = new AbortController();
+    exportAbortRef.current = abort;
+    exportSourceIdRef.current = source.id;
+    setExportProgress(0);
+    setExportNote(null);
+
+    try {
+      const result = await exportVideoOffline(source.url, {
+        // Follows this source even if another tile is selected meanwhile
+        getControls: () => sourcesRef.current.find((s) => s.id === source.id)?.controls ?? source.controls,
+        getZones: () => zonesBySourceRef.current[source.id] ?? [],
+        effects: customEffects,
+        onProgress: setExportProgress,
+        signal: abort.signal,
+      });
+      const notes = [
+        result.skippedFrames > 0 && `skipped ${result.skippedFrames} of ${result.frameCount + result.skippedFrames} frames`,
+        !result.hasAudio && 'no audio',
+      ].filter(Boolean);
+      setExportNote(notes.length ? `Exported ${result.frameCount} frames; ${notes.join(', ')}.` : null);
+      downloadBlob(result.blob, 'motion-extract-offline.webm');
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error('Offline export failed:', e);
+        alert(`Offline export failed: ${(e as Error).message}`);
       }
+    } finally {
+      exportAbortRef.current = null;
+      exportSourceIdRef.current = null;
+      setExportProgress(null);
     }
+  };
+
+  const cancelProcessFile = () => {
+    exportAbortRef.current?.abort();
+  };
+
+  const updateZones = (next: Zone[]) => {
+    if (!activeSource) return;
+    setZonesBySource((prev) => ({ ...prev, [activeSource.id]: next }));
+    saveZones(activeSource.key, next);
+  };
+
+  const finishZone = () => {
+    if (pendingZone && pendingZone.points.length >= 3) {
+      updateZones([...zones, pendingZone]);
+    }
+    setPendingZone(null);
+  };
+
+  const handleSourceClick = (e: MouseEvent) => {
+    if (!pendingZone) return;
+    const canvas = e.currentTarget as HTMLCanvasElement;
+    const point = { x: e.offsetX / canvas.clientWidth, y: e.offsetY / canvas.clientHeight };
+    const first = pendingZone.points[0];
+    if (pendingZone.points.length >= 3 && Math.hypot(point.x - first.x, point.y - first.y) < ZONE_CLOSE_DISTANCE) {
+      finishZone();
+      return;
+    }
+    setPendingZone({ ...pendingZone, points: [...pendingZone.points, point] });
+  };
+
+  // Keep the camera list current as devices are plugged in or out
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+    refreshCameras();
+    navigator.mediaDevices.addEventListener('devicechange', refreshCameras);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refreshCameras);
   }, []);
 
-  const draw = useCallback(() => {
-    const video = videoRef.current;
-    const sourceCanvas = sourceCanvasRef.current;
-    const engine = engineRef.current;
+  // An unplugged camera ends its track; drop the source instead of leaving a frozen tile
+  useEffect(() => {
+    const cleanups = sources.flatMap((source) => (source.stream?.getVideoTracks() ?? []).map((track) => {
+      const handleEnded = () => {
+        removeSource(source.id);
+        alert(`Camera "${source.label}" was disconnected.`);
+      };
+      track.addEventListener('ended', handleEnded);
+      return () => track.removeEventListener('ended', handleEnded);
+    }));
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [sources, activeSourceId, isRecording]);
 
-    if (!video || !sourceCanvas || !engine || video.ended || video.readyState < 2) {
-      animationFrameId.current = requestAnimationFrame(draw);
+  // Open a shared configuration from the URL hash
+  useEffect(() => {
+    try {
+      const preset = presetFromHash(location.hash);
+      if (preset) applyPreset(preset);
+    } catch (err) {
+      console.error('Invalid shared preset:', err);
+      alert(`Could not load shared preset: ${(err as Error).message}`);
+    }
+  }, []);
+
+  // Re-rasterize zones at each engine's resolution
+  const sourceSizes = sources.map((s) => `${s.id}:${s.dimensions.width}x${s.dimensions.height}`).join();
+  useEffect(() => {
+    sources.forEach((source) => {
+      const zones = zonesBySource[source.id] ?? [];
+      tilesRef.current.get(source.id)?.engine.setZoneMask(
+        rasterizeZones(zones, source.dimensions.width, source.dimensions.height)
+      );
+    });
+  }, [zonesBySource, sourceSizes, tilesVersion]);
+
+  useEffect(() => {
+    sources.forEach((source) => tilesRef.current.get(source.id)?.engine.setBackgroundFrozen(source.backgroundFrozen));
+  }, [sources, tilesVersion]);
+
+  // Profiling: pass timers in every engine, a frame monitor per source, and a throttled overlay refresh
+  useEffect(() => {
+    tilesRef.current.forEach((tile) => tile.engine.setProfiling(profiling));
+    if (!profiling) {
+      frameMonitorsRef.current.clear();
+      setPerfBySource({});
       return;
     }
+    sources.forEach((source) => {
+      if (!frameMonitorsRef.current.has(source.id)) frameMonitorsRef.current.set(source.id, new FrameMonitor());
+    });
+    const timer = setInterval(() => {
+      setPerfBySource(Object.fromEntries(collectBenchmarks().map((b, i) => [sources[i].id, b])));
+    }, PERF_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [profiling, sources, tilesVersion]);
 
-    // Draw source for visualization (optional, CPU bound but lightweight usually)
-    const sourceCtx = sourceCanvas.getContext('2d');
-    if (sourceCtx) {
-      // Only draw if we want to see the source side-by-side
-      sourceCtx.drawImage(video, 0, 0, dimensions.width, dimensions.height);
+  // A canvas can only be transferred once, so switching remounts every tile on a fresh one
+  const toggleWorkerRendering = () => {
+    if (isRecording) stopRecording();
+    lastFrameTimesRef.current.clear();
+    setWorkerRendering(!workerRendering);
+  };
+
+  const togglePreferWebGPU = () => {
+    setPreferWebGPU(!preferWebGPU);
+  };
+
+  // WebGPU only takes the tiles whose settings it renders in full, the effect editor's preview being GLSL
+  const tileUsesWebGPU = (source: VideoSource) =>
+    preferWebGPU && !workerRendering && isWebGPUCompatible(source.controls) && !(source.id === activeSourceId && effectDraft !== null);
+
+  const toggleProfiling = () => {
+    if (!profiling) {
+      frameMonitorsRef.current.clear();
+      profilingStartRef.current = performance.now();
     }
+    setProfiling(!profiling);
+  };
+
+  // One entry per source, in source order; sources without an engine report zeros
+  const collectBenchmarks = (): SourceBenchmark[] => sources.map((source) => {
+    const engine = tilesRef.current.get(source.id)?.engine;
+    return {
+      label: source.label,
+      kind: source.kind,
+      width: source.dimensions.width,
+      height: Math.round(source.dimensions.height),
+      controls: source.controls,
+      frameRate: frameMonitorsRef.current.get(source.id)?.getStats()
+        ?? { fps: 0, sourceFps: 0, renderedFrames: 0, droppedFrames: 0 },
+      textureMemoryBytes: engine?.getTextureMemory() ?? 0,
+      timings: engine?.getPassTimings() ?? null,
+    };
+  });
+
+  const exportBenchmark = () => {
+    const json = benchmarkToJson(
+      { gpu: gpuInfo, renderTargetFormat },
+      collectBenchmarks(),
+      performance.now() - profilingStartRef.current,
+    );
+    downloadBlob(new Blob([json], { type: 'application/json' }), 'motion-benchmark.json');
+  };
 
-    // Run GPU Engine
-    // Note: Engine handles its own context
+  // Check WebGL 2 up front; every tile creates its own engine
+  useEffect(() => {
     try {
-      if (!engine['isInitialized']) { // Hacky check or public getter? 
-        // We called init in useEffect? No, we need to call init with dimensions.
-        // See playback init effect below.
-      } else {
-        engine.render(video, controls);
-      }
+      const probe = new MotionEngine(document.createElement('canvas'));
+      const format = probe.getRenderTargetFormat();
+      setGpuInfo(`${probe.getGPUInfo()} · ${format.toUpperCase()} targets`);
+      setRenderTargetFormat(format);
+      probe.dispose();
+      console.log("MotionEngine initialized (GPU)");
     } catch (e) {
-      console.error("Render error:", e);
+      console.error("Failed to init MotionEngine:", e);
+      alert("WebGL 2 not supported! Browser too old?");
     }
+  }, []);
 
-    animationFrameId.current = requestAnimationFrame(draw);
-  }, [dimensions, controls]);
-
-  // Effect to manage video source lifecycle
+  // Hot recompile: a failing edit keeps showing the last version that compiled
   useEffect(() => {
-    const video = videoRef.current;
-    const engine = engineRef.current;
+    const engine = activeTile()?.engine;
+    if (!engine || !effectDraft) return;
+    const timer = setTimeout(async () => {
+      setDraftDiagnostics(await engine.compileEffect({ ...effectDraft, name: EDITOR_PREVIEW_EFFECT }));
+    }, EDITOR_RECOMPILE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [effectDraft?.source, effectDraft?.persistence, activeSourceId, tilesVersion]);
+
+  const isEditingEffect = effectDraft !== null;
 
-    if (!video || (!sourceUrl && !isWebcam)) return;
+  const renderSource = (source: VideoSource, tile: SourceTileHandle) => {
+    const { video, sourceCanvas, engine } = tile;
+    if (video.ended || video.readyState < 2) return;
+    const isActive = source.id === activeSourceId;
+    const { controls } = source;
 
-    if (sourceUrl) {
-      video.src = sourceUrl;
+    // Draw source for visualization (optional, CPU bound but lightweight usually). With a worker
+    // rendering, this loop is otherwise idle, so the preview only redraws when its frame or outlines change
+    const zones = zonesBySource[source.id] ?? [];
+    const preview = [tile.frameClock.presentedFrames, zones, isActive ? pendingZone : null, source.dimensions.height];
+    const previewChanged = !(engine instanceof MotionWorkerClient) ||
+      !lastPreviewRef.current.get(source.id)?.every((value, i) => value === preview[i]);
+    const sourceCtx = previewChanged ? sourceCanvas.getContext('2d') : null;
+    if (sourceCtx) {
+      lastPreviewRef.current.set(source.id, preview);
+      sourceCtx.drawImage(video, 0, 0, source.dimensions.width, source.dimensions.height);
+      drawZoneOutlines(sourceCtx, zones, isActive ? pendingZone : null);
     }
 
-    // Cleanup previous listener
-    video.onloadedmetadata = null;
-    video.oncanplay = null;
+    // The tile inits its engine once the video size is known
+    if (!engine.isReady()) return;
 
-    let hasInitialized = false;
-    const initPlayback = () => {
-      if (hasInitialized || !video) return;
-      hasInitialized = true;
+    // A jump in the file (seek, loop wrap, sync correction) would flag the whole frame as motion
+    if (source.kind === 'file') {
+      const lastTime = lastFrameTimesRef.current.get(source.id);
+      lastFrameTimesRef.current.set(source.id, video.currentTime);
+      if (resetOnSeek && lastTime !== undefined && Math.abs(video.currentTime - lastTime) > SEEK_JUMP) {
+        engine.resetBackground();
+      }
+    }
+
+    // The sidebar still shows the active effect's uniforms, so the preview follows them
+    engine.render(video, isActive && isEditingEffect ? {
+      ...controls,
+      effect: EDITOR_PREVIEW_EFFECT,
+      effectParams: { ...controls.effectParams, [EDITOR_PREVIEW_EFFECT]: controls.effectParams[controls.effect] },
+    } : controls);
 
-      const vWidth = video.videoWidth || 640;
-      const vHeight = video.videoHeight || 360;
-      const aspectRatio = vWidth / vHeight;
-      const displayWidth = 640;
-      // Keep display size manageable for UI, but internal resolution can be higher
-      setDimensions({ width: displayWidth, height: displayWidth / aspectRatio });
-
-      // Init Engine with VIDEO dimensions for max quality, or DISPLAY dimensions?
-      // For "insane speed", let's use full video resolution if possible, or a high capped one.
-      // Let's us the display dimensions for now to match canvas size.
-      // Or better: Use the video's native resolution for processing!
-      // But we need to fit in the canvas.
-      // Let's stick to dimensions state.
-
-      if (engine) {
-        engine.init(displayWidth, displayWidth / aspectRatio); // Init/Resize
+    const monitor = frameMonitorsRef.current.get(source.id);
+    if (monitor) {
+      const { frameClock } = tile;
+      const now = performance.now();
+      monitor.sample(now, { presentedFrames: frameClock.presentedFrames, droppedFrames: frameClock.droppedFrames });
+      if (engine instanceof MotionWorkerClient) {
+        // A worker renders on its own clock; count its frames rather than this loop's
+        engine.takeRenderedFrames().forEach(({ time }) => monitor.rendered(time));
+      } else if (lastPresentedRef.current.get(source.id) !== frameClock.presentedFrames) {
+        // This loop runs every display frame; only a newly presented frame is a new render
+        lastPresentedRef.current.set(source.id, frameClock.presentedFrames);
+        monitor.rendered(now);
       }
+    }
 
-      video.play().catch(e => {
-        if (e.name !== 'AbortError') {
-          console.error("Error playing video:", e);
-        }
-      });
-    };
+    const overlayCtx = tile.overlayCanvas.getContext('2d');
+    if (overlayCtx) {
+      drawBlobOverlay(overlayCtx, controls.blobTracking ? engine.getBlobs() : []);
+    }
 
-    video.onloadedmetadata = initPlayback;
-    video.oncanplay = initPlayback;
-    if (video.readyState >= 2) initPlayback();
+    // The event log follows the selected source
+    if (isActive && eventSettings.enabled) {
+      handleMotionEvents(engine, sourceCanvas);
+    }
+  };
 
-    return () => {
-      if (video) {
-        video.onloadedmetadata = null;
-        video.oncanplay = null;
+  const draw = useCallback(() => {
+    enforceLoopRange();
+    if (syncPlayback) syncFileSources();
+
+    for (const source of sources) {
+      const tile = tilesRef.current.get(source.id);
+      if (!tile) continue;
+      // One failing source must not stop the others
+      try {
+        renderSource(source, tile);
+      } catch (e) {
+        console.error(`Render error (${source.label}):`, e);
       }
-      if (sourceUrl) URL.revokeObjectURL(sourceUrl);
-    };
-  }, [sourceUrl, isWebcam]); // engineRef is stable
+    }
+
+    animationFrameId.current = requestAnimationFrame(draw);
+  }, [sources, activeSourceId, zonesBySource, pendingZone, eventSettings, isEditingEffect, syncPlayback, loopRange, resetOnSeek]);
 
-  // Resize Engine if dimensions change
+  // Clip buffer follows the selected motion canvas while events are logged
   useEffect(() => {
-    if (engineRef.current && dimensions.width > 0) {
-      engineRef.current.resize(dimensions.width, dimensions.height);
+    const canvas = activeTile()?.motionCanvas;
+    if (!eventSettings.enabled) {
+      closeOpenEvents();
+      return;
     }
-  }, [dimensions]);
+    if (!canvas || !isClipBufferSupported()) return;
 
+    const clipBuffer = new ClipBuffer(canvas, eventSettings.preRoll);
+    clipBufferRef.current = clipBuffer;
+    return () => {
+      clipBuffer.close();
+      clipBufferRef.current = null;
+      closeOpenEvents();
+    };
+  }, [eventSettings.enabled, activeSourceId, activeSource?.dimensions.width, activeSource?.dimensions.height, tilesVersion]);
+
+  useEffect(() => {
+    clipBufferRef.current?.setPreRoll(eventSettings.preRoll);
+  }, [eventSettings.preRoll]);
+
+  // Playback controls show the first file when synced, otherwise the selected one
+  const playbackSourceId = syncPlayback ? fileSources[0]?.id : fileSources.find((s) => s.id === activeSourceId)?.id;
+  useEffect(() => {
+    const video = playbackSourceId === undefined ? undefined : tilesRef.current.get(playbackSourceId)?.video;
+    if (!video) return;
+    const update = () => setPlayback({
+      time: video.currentTime,
+      duration: Number.isFinite(video.duration) ? video.duration : 0,
+      paused: video.paused,
+      rate: video.playbackRate,
+    });
+    const types = ['timeupdate', 'seeked', 'play', 'pause', 'durationchange', 'ratechange'];
+    update();
+    types.forEach((type) => video.addEventListener(type, update));
+    return () => types.forEach((type) => video.removeEventListener(type, update));
+  }, [playbackSourceId, tilesVersion]);
 
   // Rendering Loop
   useEffect(() => {
@@ -258,7 +1401,7 @@ const App = () => {
       cancelAnimationFrame(animationFrameId.current);
     }
 
-    if (sourceUrl || isWebcam) {
+    if (sources.length) {
       animationFrameId.current = requestAnimationFrame(draw);
     }
 
@@ -267,7 +1410,13 @@ const App = () => {
         cancelAnimationFrame(animationFrameId.current);
       }
     };
-  }, [draw, sourceUrl, isWebcam]);
+  }, [draw]);
+
+  const activeEffect = effects.find((effect) => effect.name === controls.effect);
+  const hasFloatTargets = renderTargetFormat !== 'rgba8'; // Optical flow and MOG need signed / unbounded values
+  const onWebGPU = activeTile()?.engine instanceof WebGPUMotionEngine; // No snapshots or heatmap export, see WebGPUMotionEngine
+  const activeTrack = activeSource?.stream?.getVideoTracks()[0];
+  const captureInfo = activeTrack && getCaptureInfo(activeTrack);
 
   return html`
     <div class="sidebar">
@@ -275,10 +1424,129 @@ const App = () => {
       <fieldset>
         <legend>Source</legend>
         <div class="button-group">
-          <label for="video-upload" class="btn">Upload Video</label>
-          <input id="video-upload" type="file" accept="video/*" onChange=${handleFileUpload} />
-          <button class="btn secondary" onClick=${startWebcam}>Use Webcam (HD)</button>
+          <label for="video-upload" class="btn">Add Video</label>
+          <input id="video-upload" type="file" accept="video/*" multiple onChange=${handleFileUpload} />
+          <button class="btn secondary" onClick=${addWebcam}>Add Webcam</button>
+        </div>
+        ${activeSource && html`<p class="editor-hint">Editing: ${activeSource.label}</p>`}
+      </fieldset>
+
+      <fieldset>
+        <legend>Camera</legend>
+        <div class="control-group">
+          <label for="deviceId">Device</label>
+          <select id="deviceId" value=${cameraSettings.deviceId} onChange=${handleCameraSettingChange}>
+            <option value="">Default camera</option>
+            ${cameras.map((c) => html`<option value=${c.deviceId}>${c.label}</option>`)}
+          </select>
+        </div>
+        <div class="control-group">
+          <label for="cameraResolution">Resolution</label>
+          <select id="cameraResolution" value=${`${cameraSettings.width}x${cameraSettings.height}`} onChange=${handleCameraSettingChange}>
+            ${CAMERA_RESOLUTIONS.map((r) => html`<option value=${`${r.width}x${r.height}`}>${r.width}×${r.height}</option>`)}
+          </select>
+        </div>
+        <div class="control-group">
+          <label for="frameRate">Frame Rate</label>
+          <select id="frameRate" value=${cameraSettings.frameRate} onChange=${handleCameraSettingChange}>
+            ${CAMERA_FRAME_RATES.map((fps) => html`<option value=${fps}>${fps} fps</option>`)}
+          </select>
+        </div>
+        <div class="toggle-switch">
+          <span class="toggle-label">Lock Exposure</span>
+          <label class="switch">
+            <input id="lockExposure" type="checkbox" checked=${cameraSettings.lockExposure} onChange=${handleCameraSettingChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        <div class="toggle-switch">
+          <span class="toggle-label">Lock White Balance</span>
+          <label class="switch">
+            <input id="lockWhiteBalance" type="checkbox" checked=${cameraSettings.lockWhiteBalance} onChange=${handleCameraSettingChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        ${captureInfo && html`
+          <p class="editor-hint">
+            Capturing ${captureInfo.width}×${captureInfo.height} @ ${Math.round(captureInfo.frameRate)} fps
+            · exposure ${captureInfo.canLockExposure ? (captureInfo.exposureLocked ? 'locked' : 'auto') : 'not adjustable'}
+            · white balance ${captureInfo.canLockWhiteBalance ? (captureInfo.whiteBalanceLocked ? 'locked' : 'auto') : 'not adjustable'}
+          </p>
+        `}
+      </fieldset>
+
+      ${fileSources.length > 0 && html`
+        <fieldset>
+          <legend>Playback</legend>
+          <div class="control-group">
+            <label for="seek">${formatPlaybackTime(playback.time)} / ${formatPlaybackTime(playback.duration)}</label>
+            <input id="seek" type="range" min="0" max=${playback.duration} step="0.01" value=${playback.time} onInput=${seekPlayback} />
+          </div>
+          <div class="button-group transport">
+            <button class="btn secondary" onClick=${() => stepFrame(-1)} title="Previous frame">◀◀</button>
+            <button class="btn" onClick=${togglePlayback}>${playback.paused ? 'Play' : 'Pause'}</button>
+            <button class="btn secondary" onClick=${() => stepFrame(1)} title="Next frame">▶▶</button>
+          </div>
+          <div class="control-group">
+            <label for="playbackRate">Speed</label>
+            <select id="playbackRate" value=${playback.rate} onChange=${handlePlaybackRateChange}>
+              ${PLAYBACK_RATES.map((rate) => html`<option value=${rate}>${rate}×</option>`)}
+            </select>
+          </div>
+          <div class="control-group">
+            <label>
+              Loop: ${loopRange.start === null ? 'start' : formatPlaybackTime(loopRange.start)}
+              – ${loopRange.end === null ? 'end' : formatPlaybackTime(loopRange.end)}
+            </label>
+            <div class="button-group transport">
+              <button class="btn secondary" onClick=${() => setLoopPoint('start')}>Set In</button>
+              <button class="btn secondary" onClick=${() => setLoopPoint('end')}>Set Out</button>
+              <button class="btn secondary" onClick=${() => setLoopRange({ start: null, end: null })}
+                disabled=${loopRange.start === null && loopRange.end === null}>Clear</button>
+            </div>
+          </div>
+          <div class="toggle-switch">
+            <span class="toggle-label">Reset Background on Seek</span>
+            <label class="switch">
+              <input type="checkbox" checked=${resetOnSeek} onChange=${(e: Event) => setResetOnSeek((e.target as HTMLInputElement).checked)} />
+              <span class="slider"></span>
+            </label>
+          </div>
+          ${fileSources.length > 1 && html`
+            <div class="toggle-switch">
+              <span class="toggle-label">Sync Files</span>
+              <label class="switch">
+                <input type="checkbox" checked=${syncPlayback} onChange=${(e: Event) => setSyncPlayback((e.target as HTMLInputElement).checked)} />
+                <span class="slider"></span>
+              </label>
+            </div>
+          `}
+        </fieldset>
+      `}
+
+      <fieldset>
+        <legend>Presets</legend>
+        <div class="control-group">
+          <select id="preset" value=${selectedPreset} onChange=${handlePresetSelect}>
+            <option value="" disabled>Custom</option>
+            <optgroup label="Built-in">
+              ${BUILTIN_PRESETS.map((p) => html`<option value=${`builtin:${p.name}`}>${p.name}</option>`)}
+            </optgroup>
+            ${userPresets.length > 0 && html`
+              <optgroup label="Saved">
+                ${userPresets.map((p) => html`<option value=${`user:${p.name}`}>${p.name}</option>`)}
+              </optgroup>
+            `}
+          </select>
+        </div>
+        <div class="button-group">
+          <button class="btn" onClick=${savePreset}>Save</button>
+          <button class="btn secondary" onClick=${deletePreset} disabled=${!selectedPreset.startsWith('user:')}>Delete</button>
+          <label for="preset-import" class="btn secondary">Import</label>
+          <input id="preset-import" type="file" accept="application/json,.json" onChange=${importPreset} />
+          <button class="btn secondary" onClick=${exportPreset}>Export</button>
         </div>
+        <button class="btn secondary" onClick=${sharePreset}>Copy Share Link</button>
       </fieldset>
 
       <fieldset>
@@ -288,8 +1556,20 @@ const App = () => {
             <select id="detectionMode" value=${controls.detectionMode} onChange=${handleControlChange}>
                 <option value="color">Color (Robust)</option>
                 <option value="luminance">Luminance (Fast)</option>
+                <option value="opticalFlow" disabled=${!hasFloatTargets}>Optical Flow (Direction)${hasFloatTargets ? '' : ' — needs float targets'}</option>
+                <option value="frameDelay">Frame Delay (Time Offset)</option>
             </select>
         </div>
+        ${(controls.detectionMode === 'frameDelay' || activeEffect?.inputs?.includes('delayed')) && html`
+          <div class="control-group">
+            <label for="frameOffset">Frame Offset: ${controls.frameOffset}</label>
+            <input id="frameOffset" type="range" min="1" max=${MAX_FRAME_OFFSET} step="1" value=${controls.frameOffset} onInput=${handleControlChange} />
+          </div>
+          <div class="control-group">
+            <label for="frameOffsetTaps">Blended Offsets: ${controls.frameOffsetTaps}</label>
+            <input id="frameOffsetTaps" type="range" min="1" max="4" step="1" value=${controls.frameOffsetTaps} onInput=${handleControlChange} />
+          </div>
+        `}
       </fieldset>
 
       <fieldset>
@@ -307,19 +1587,121 @@ const App = () => {
             value=${controls.detectionThreshold} 
             onInput=${handleControlChange} />
         </div>
+        <div class="control-group">
+          <label for="backgroundModel">Background Model</label>
+          <select id="backgroundModel" value=${controls.backgroundModel} onChange=${handleControlChange}>
+            <option value="single">Single Gaussian (Fast)</option>
+            <option value="mog" disabled=${!hasFloatTargets}>Mixture of Gaussians (Water, Flags)${hasFloatTargets ? '' : ' — needs float targets'}</option>
+          </select>
+        </div>
+        <div class="toggle-switch">
+          <span class="toggle-label">Suppress Shadows</span>
+          <label class="switch">
+            <input id="shadowDetection" type="checkbox" checked=${controls.shadowDetection} onChange=${handleControlChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        <div class="toggle-switch">
+          <span class="toggle-label">Compensate Lighting Changes</span>
+          <label class="switch">
+            <input id="illuminationCompensation" type="checkbox" checked=${controls.illuminationCompensation} onChange=${handleControlChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
         <div class="control-group">
           <label for="adaptationRate">Adaptation Speed: ${Math.round(controls.adaptationRate * 1000)}</label>
           <input id="adaptationRate" type="range" min="0.001" max="0.5" step="0.001" value=${controls.adaptationRate} onInput=${handleControlChange} />
         </div>
-        <!-- Resolution is now typically fixed to canvas size for GPU, but we could add scaling if needed. Removed for simplicity as GPU is fast. -->
+        <div class="toggle-switch">
+          <span class="toggle-label">Freeze Background</span>
+          <label class="switch">
+            <input type="checkbox" checked=${!!activeSource?.backgroundFrozen} disabled=${!activeSource} onChange=${toggleBackgroundFrozen} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        <div class="control-group">
+          <label>Background Snapshot${controls.backgroundModel === 'mog' ? ' (single Gaussian only)' : ''}</label>
+          <div class="button-group">
+            <button class="btn secondary" onClick=${() => activeTile()?.engine.initBackgroundFromFrame()} disabled=${!activeSource}
+              title="Use the current frame as the background">From Frame</button>
+            <button class="btn secondary" onClick=${() => activeTile()?.engine.clearBackground()} disabled=${!activeSource}
+              title="Start over from an empty model">Reset</button>
+            <button class="btn secondary" onClick=${() => exportBackground('png')} disabled=${!activeSource || onWebGPU}>Save PNG</button>
+            <button class="btn secondary" onClick=${() => exportBackground('float')} disabled=${!activeSource || onWebGPU}
+              title="Exact mean and variance, for loading back">Save Float</button>
+          </div>
+          <label for="background-upload" class="btn secondary ${activeSource && !onWebGPU ? '' : 'disabled'}">Load Background</label>
+          <input id="background-upload" type="file" accept="image/*,.bin" disabled=${!activeSource || onWebGPU} onChange=${importBackground} />
+          ${onWebGPU && html`<p class="editor-hint">Snapshots need the WebGL 2 backend.</p>`}
+        </div>
+        <div class="control-group">
+          <label for="processingResolution">Processing Resolution: ${Math.round((resolutionDraft ?? controls.processingResolution) * 100)}%</label>
+          <input id="processingResolution" type="range" min=${MIN_PROCESSING_RESOLUTION} max="1" step="0.05"
+            value=${resolutionDraft ?? controls.processingResolution}
+            onInput=${(e: Event) => setResolutionDraft(Number((e.target as HTMLInputElement).value))}
+            onChange=${(e: Event) => { setResolutionDraft(null); handleControlChange(e); }} />
+        </div>
+        <div class="control-group">
+          <label for="noiseReduction">Noise Reduction: ${controls.noiseReduction > 0 ? `σ ${controls.noiseReduction.toFixed(1)}` : 'Off'}</label>
+          <input id="noiseReduction" type="range" min="0" max=${MAX_NOISE_REDUCTION} step="0.5" value=${controls.noiseReduction} onInput=${handleControlChange} />
+        </div>
         <div class="control-group">
           <label for="morphology">Cleanup Filter (GPU)</label>
           <select id="morphology" value=${controls.morphology} onChange=${handleControlChange}>
             <option value="none">None</option>
             <option value="open">Clean Noise</option>
             <option value="close">Fill Gaps</option>
+            <option value="fillHoles">Fill Holes</option>
+            <option value="gradient">Outline (Gradient)</option>
+            <option value="topHat">Small Motion Only (Top-Hat)</option>
           </select>
         </div>
+        ${controls.morphology !== 'none' && controls.morphology !== 'fillHoles' && html`
+          <div class="control-group">
+            <label for="morphologyShape">Kernel Shape</label>
+            <select id="morphologyShape" value=${controls.morphologyShape} onChange=${handleControlChange}>
+              <option value="square">Square</option>
+              <option value="disk">Disk</option>
+              <option value="cross">Cross</option>
+            </select>
+          </div>
+          <div class="control-group">
+            <label for="morphologyRadius">Kernel Radius: ${controls.morphologyRadius}px</label>
+            <input id="morphologyRadius" type="range" min="1" max=${MAX_MORPH_RADIUS} step="1" value=${controls.morphologyRadius} onInput=${handleControlChange} />
+          </div>
+          <div class="control-group">
+            <label for="morphologyIterations">Iterations: ${controls.morphologyIterations}</label>
+            <input id="morphologyIterations" type="range" min="1" max=${MAX_MORPH_ITERATIONS} step="1" value=${controls.morphologyIterations} onInput=${handleControlChange} />
+          </div>
+        `}
+      </fieldset>
+
+      <fieldset>
+        <legend>Zones</legend>
+        ${pendingZone ? html`
+          <div class="control-group">
+            <label>Click on Source to add points (${pendingZone.points.length} placed)</label>
+            <div class="button-group">
+              <button class="btn" onClick=${finishZone} disabled=${pendingZone.points.length < 3}>Finish Zone</button>
+              <button class="btn secondary" onClick=${() => setPendingZone(null)}>Cancel</button>
+            </div>
+          </div>
+        ` : html`
+          <div class="button-group">
+            <button class="btn" onClick=${() => setPendingZone({ kind: 'include', points: [] })}>Add Include</button>
+            <button class="btn secondary" onClick=${() => setPendingZone({ kind: 'exclude', points: [] })}>Add Exclude</button>
+          </div>
+        `}
+        ${zones.length > 0 && html`
+          <button class="btn secondary" onClick=${() => updateZones([])}>Clear ${zones.length} Zone${zones.length > 1 ? 's' : ''}</button>
+        `}
+        <div class="toggle-switch">
+          <span class="toggle-label">Freeze Background Outside Zones</span>
+          <label class="switch">
+            <input id="freezeOutsideZones" type="checkbox" checked=${controls.freezeOutsideZones} onChange=${handleControlChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
       </fieldset>
 
       <fieldset>
@@ -327,13 +1709,33 @@ const App = () => {
         <div class="control-group">
           <label for="effect">Style</label>
           <select id="effect" value=${controls.effect} onChange=${handleControlChange}>
-            <option value="classic">Classic</option>
-            <option value="colorBurn">Color Burn</option>
-            <option value="electricTrails">Electric Trails</option>
-            <option value="heatmap">Motion Heatmap</option>
-            <option value="chromatic">Chromatic Aberration</option>
+            ${effects.map((effect) => html`<option value=${effect.name}>${effect.label}</option>`)}
           </select>
         </div>
+        ${activeEffect?.uniforms.map((uniform) => renderEffectControl(activeEffect, uniform))}
+        ${(activeEffect?.persistence || effectDraft?.persistence) && html`
+          <div class="control-group">
+            <label for="persistence">Trail Persistence: ${controls.persistence.toFixed(2)}</label>
+            <input id="persistence" type="range" min="0" max="0.99" step="0.01" value=${controls.persistence} onInput=${handleControlChange} />
+          </div>
+          <div class="control-group">
+            <label for="accumulationMode">Trail Accumulation</label>
+            <select id="accumulationMode" value=${controls.accumulationMode} onChange=${handleControlChange}>
+              <option value="max">Max (brightest wins)</option>
+              <option value="additive">Additive (overlaps build up)</option>
+            </select>
+          </div>
+        `}
+        <div class="control-group">
+          <label>Long-Exposure Heatmap</label>
+          <div class="button-group">
+            <button class="btn secondary" onClick=${() => activeTile()?.engine.resetExposure()} disabled=${!activeSource}>Reset</button>
+            <button class="btn secondary" onClick=${exportExposure} disabled=${!activeSource || onWebGPU}>Export PNG</button>
+          </div>
+        </div>
+        <button class="btn secondary" onClick=${isEditingEffect ? closeEffectEditor : openEffectEditor} disabled=${!effects.length}>
+          ${isEditingEffect ? 'Close GLSL Editor' : 'Edit GLSL'}
+        </button>
         <div class="toggle-switch">
           <span class="toggle-label">Invert Colors</span>
           <label class="switch">
@@ -343,35 +1745,202 @@ const App = () => {
         </div>
       </fieldset>
       
+      <fieldset>
+        <legend>Tracking</legend>
+        <div class="toggle-switch">
+          <span class="toggle-label">Track Blobs</span>
+          <label class="switch">
+            <input id="blobTracking" type="checkbox" checked=${controls.blobTracking} onChange=${handleControlChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        <div class="control-group">
+          <label for="blobMinArea">Min Blob Size: ${(controls.blobMinArea * 100).toFixed(1)}%</label>
+          <input id="blobMinArea" type="range" min="0.0005" max="0.05" step="0.0005" value=${controls.blobMinArea} onInput=${handleControlChange} />
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend>Events</legend>
+        <div class="toggle-switch">
+          <span class="toggle-label">Log Motion Events</span>
+          <label class="switch">
+            <input id="enabled" type="checkbox" checked=${eventSettings.enabled} onChange=${handleEventSettingChange} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        <div class="control-group">
+          <label for="startThreshold">Start at: ${(eventSettings.startThreshold * 100).toFixed(1)}% moving</label>
+          <input id="startThreshold" type="range" min="0.001" max="0.5" step="0.001" value=${eventSettings.startThreshold} onInput=${handleEventSettingChange} />
+        </div>
+        <div class="control-group">
+          <label for="stopThreshold">Stop below: ${(eventSettings.stopThreshold * 100).toFixed(1)}% moving</label>
+          <input id="stopThreshold" type="range" min="0.001" max="0.5" step="0.001" value=${eventSettings.stopThreshold} onInput=${handleEventSettingChange} />
+        </div>
+        <div class="control-group">
+          <label for="minDuration">Min Duration: ${(eventSettings.minDuration / 1000).toFixed(1)}s</label>
+          <input id="minDuration" type="range" min="0" max="5000" step="100" value=${eventSettings.minDuration} onInput=${handleEventSettingChange} />
+        </div>
+        <div class="control-group">
+          <label for="preRoll">Clip Pre-roll: ${(eventSettings.preRoll / 1000).toFixed(1)}s</label>
+          <input id="preRoll" type="range" min="0" max="10000" step="500" value=${eventSettings.preRoll} onInput=${handleEventSettingChange} />
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend>Performance</legend>
+        <div class="toggle-switch">
+          <span class="toggle-label">Performance Overlay</span>
+          <label class="switch">
+            <input type="checkbox" checked=${profiling} onChange=${toggleProfiling} />
+            <span class="slider"></span>
+          </label>
+        </div>
+        <button class="btn secondary" onClick=${exportBenchmark} disabled=${!profiling || !sources.length}>Export Benchmark (JSON)</button>
+        ${isWorkerRenderingSupported() && html`
+          <div class="toggle-switch">
+            <span class="toggle-label">Run in Worker (OffscreenCanvas)</span>
+            <label class="switch">
+              <input type="checkbox" checked=${workerRendering} onChange=${toggleWorkerRendering} />
+              <span class="slider"></span>
+            </label>
+          </div>
+          <p class="editor-hint">Moves each source's GL pipeline off the main thread. Switching restarts the sources.</p>
+        `}
+        ${isWebGPUSupported() && html`
+          <div class="toggle-switch">
+            <span class="toggle-label">Use WebGPU</span>
+            <label class="switch">
+              <input type="checkbox" checked=${preferWebGPU} disabled=${workerRendering} onChange=${togglePreferWebGPU} />
+              <span class="slider"></span>
+            </label>
+          </div>
+          <p class="editor-hint">Compute-shader backend for sources on the main thread. A source switches to WebGL 2 while it uses optical flow, frame delay, the mixture model or a trail or custom effect, which restarts its background model.</p>
+        `}
+      </fieldset>
+
       <fieldset>
         <legend>Output</legend>
-        <button class="btn ${isRecording ? 'recording' : ''}" onClick=${isRecording ? stopRecording : startRecording}>
+        <button class="btn ${isRecording ? 'recording' : ''}" onClick=${isRecording ? stopRecording : startRecording} disabled=${!activeSource}>
           ${isRecording ? 'Stop Recording' : 'Start Recording'}
         </button>
+        ${activeSource?.url && isOfflineExportSupported() && (exportProgress === null ? html`
+          <button class="btn secondary" onClick=${processFile}>Process File (Frame-Accurate)</button>
+          ${exportNote && html`<p class="editor-hint">${exportNote}</p>`}
+        ` : html`
+          <div class="control-group">
+            <label>Processing: ${Math.round(exportProgress * 100)}%</label>
+            <progress value=${exportProgress} max="1"></progress>
+            <button class="btn recording" onClick=${cancelProcessFile}>Cancel</button>
+          </div>
+        `)}
       </fieldset>
     </div>
 
     <main>
-      ${!sourceUrl && !isWebcam && html`
+      ${sources.length === 0 && html`
         <div class="message">
           <h1>GPU Motion Extractor</h1>
-          <p>Powered by WebGL 2.0. Upload a video or use webcam to see "Insane Speed".</p>
+          <p>Powered by WebGL 2.0. Add videos or webcams to see "Insane Speed".</p>
           <p style="font-size: 0.8em; opacity: 0.7; margin-top: 10px;">Hardware: ${gpuInfo}</p>
         </div>
       `}
-      <div class="canvas-container" style=${{ display: sourceUrl || isWebcam ? 'flex' : 'none' }}>
-        <div class="canvas-wrapper">
-          <h2>Source</h2>
-          <canvas ref=${sourceCanvasRef} width=${dimensions.width} height=${dimensions.height}></canvas>
-        </div>
-        <div class="canvas-wrapper">
-          <h2>Motion (GL)</h2>
-          <canvas ref=${motionCanvasRef} width=${dimensions.width} height=${dimensions.height}></canvas>
-        </div>
+      <div class="source-grid">
+        ${sources.map((source) => html`
+          <${SourceTile}
+            key=${`${source.id}:${workerRendering ? 'worker' : 'main'}`}
+            source=${source}
+            active=${source.id === activeSourceId}
+            drawing=${source.id === activeSourceId && !!pendingZone}
+            customEffects=${customEffects}
+            inWorker=${workerRendering}
+            preferWebGPU=${tileUsesWebGPU(source)}
+            perf=${perfBySource[source.id] ?? null}
+            onReady=${handleTileReady}
+            onResize=${handleTileResize}
+            onSelect=${selectSource}
+            onRemove=${removeSource}
+            onSourceClick=${handleSourceClick} />
+        `)}
       </div>
     </main>
 
-    <video ref=${videoRef} class="hidden" loop muted playsinline></video>
+    ${effectDraft && html`
+      <aside class="editor-panel">
+        <div class="events-header">
+          <span>GLSL Effect Editor</span>
+          <input type="text" class="text-input" value=${effectDraft.label} placeholder="Effect name"
+            onInput=${(e: Event) => setEffectDraft({ ...effectDraft, label: (e.target as HTMLInputElement).value })} />
+          <div class="toggle-switch">
+            <span class="toggle-label">Persistence (trails)</span>
+            <label class="switch">
+              <input type="checkbox" checked=${!!effectDraft.persistence}
+                onChange=${(e: Event) => setEffectDraft({ ...effectDraft, persistence: (e.target as HTMLInputElement).checked })} />
+              <span class="slider"></span>
+            </label>
+          </div>
+          <div class="events-actions">
+            <button class="btn" onClick=${saveEffectDraft}>Save</button>
+            <button class="btn secondary" onClick=${deleteEffectDraft} disabled=${!effectDraft.name}>Delete</button>
+            <button class="btn secondary" onClick=${closeEffectEditor}>Close</button>
+          </div>
+        </div>
+        <p class="editor-hint">
+          Define <code>vec3 effect(vec4 video, float mask)</code>. In scope: <code>u_video</code>, <code>u_mask</code>,
+          <code>u_resolution</code>, <code>v_texCoord</code> and the effect's uniforms.
+        </p>
+        <div class="code-editor">
+          <div class="code-gutter" ref=${editorGutterRef}>
+            ${effectDraft.source.split('\n').map((_, i) => {
+              const diagnostic = draftDiagnostics.find((d) => d.line === i + 1);
+              return html`<div class=${diagnostic?.severity ?? ''} title=${diagnostic?.message}>${i + 1}</div>`;
+            })}
+          </div>
+          <textarea ref=${editorTextRef} spellcheck=${false} value=${effectDraft.source}
+            onInput=${(e: Event) => setEffectDraft({ ...effectDraft, source: (e.target as HTMLTextAreaElement).value })}
+            onKeyDown=${handleEditorKeyDown}
+            onScroll=${(e: Event) => { editorGutterRef.current!.scrollTop = (e.target as HTMLTextAreaElement).scrollTop; }}></textarea>
+        </div>
+        <ul class="diagnostics-list">
+          ${draftDiagnostics.length === 0 && html`<li class="ok">Compiled</li>`}
+          ${draftDiagnostics.map((d) => html`
+            <li class=${d.severity} onClick=${() => d.line !== null && jumpToLine(d.line)}>
+              ${d.line !== null ? `Line ${d.line}: ` : ''}${d.message}
+            </li>
+          `)}
+        </ul>
+      </aside>
+    `}
+
+    ${(eventSettings.enabled || events.length > 0) && html`
+      <aside class="events-panel">
+        <div class="events-header">
+          <span>Events (${events.length})</span>
+          <div class="events-actions">
+            <button class="btn secondary" onClick=${() => exportEventLog('json')} disabled=${!events.length}>JSON</button>
+            <button class="btn secondary" onClick=${() => exportEventLog('csv')} disabled=${!events.length}>CSV</button>
+            <button class="btn secondary" onClick=${() => setEvents([])} disabled=${!events.length}>Clear</button>
+          </div>
+        </div>
+        <ul class="events-list">
+          ${events.map((event) => html`
+            <li key=${event.id} class="event-item ${event.endTime === null ? 'active' : ''}">
+              ${event.thumbnail && html`<img src=${event.thumbnail} alt="Event #${event.id}" />`}
+              <div class="event-details">
+                <strong>#${event.id} · ${formatTime(event.startTime)}</strong>
+                <span>
+                  ${event.endTime === null ? 'In progress' : `${((event.endTime - event.startTime) / 1000).toFixed(1)}s`}
+                  · peak ${(event.peakIntensity * 100).toFixed(1)}%
+                </span>
+                ${event.clip && html`
+                  <button class="btn" onClick=${() => downloadBlob(event.clip!, `motion-event-${event.id}.webm`)}>Download Clip</button>
+                `}
+              </div>
+            </li>
+          `)}
+        </ul>
+      </aside>
+    `}
   `;
 };
 
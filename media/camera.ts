@@ -0,0 +1,134 @@
+// ─────────────────────────────────────────────────────────────
+// Camera capture — device listing, capture constraints and
+// exposure / white-balance locks where the camera supports them.
+// ─────────────────────────────────────────────────────────────
+
+export interface CameraSettings {
+    deviceId: string; // '' picks the browser default
+    width: number;
+    height: number;
+    frameRate: number;
+    lockExposure: boolean;
+    lockWhiteBalance: boolean;
+}
+
+export interface CameraDevice {
+    deviceId: string;
+    label: string;
+}
+
+/** What the camera actually delivered, which may differ from what was asked for. */
+export interface CaptureInfo {
+    width: number;
+    height: number;
+    frameRate: number;
+    exposureLocked: boolean;
+    whiteBalanceLocked: boolean;
+    canLockExposure: boolean;
+    canLockWhiteBalance: boolean;
+}
+
+// Image capture constraints are not in the TS DOM lib yet
+type ControlMode = 'none' | 'manual' | 'single-shot' | 'continuous';
+
+interface ImageCaptureCapabilities extends MediaTrackCapabilities {
+    exposureMode?: ControlMode[];
+    whiteBalanceMode?: ControlMode[];
+}
+
+interface ImageCaptureSettings extends MediaTrackSettings {
+    exposureMode?: ControlMode;
+    whiteBalanceMode?: ControlMode;
+}
+
+export const CAMERA_RESOLUTIONS = [
+    { width: 640, height: 480 },
+    { width: 1280, height: 720 },
+    { width: 1920, height: 1080 },
+    { width: 3840, height: 2160 },
+];
+
+export const CAMERA_FRAME_RATES = [15, 24, 30, 60];
+
+export const DEFAULT_CAMERA_SETTINGS: CameraSettings = {
+    deviceId: '',
+    width: 1920, // Request HD for GPU power!
+    height: 1080,
+    frameRate: 30,
+    // Auto exposure brightens / darkens the whole frame and reads as motion everywhere
+    lockExposure: true,
+    lockWhiteBalance: false,
+};
+
+/** Video inputs; labels stay empty until the page has been granted camera access once. */
+export const listCameras = async (): Promise<CameraDevice[]> => {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+        .filter((d) => d.kind === 'videoinput' && d.deviceId)
+        .map((d, i) => ({ deviceId: d.deviceId, label: d.label || `Camera ${i + 1}` }));
+};
+
+const buildVideoConstraints = (settings: CameraSettings): MediaTrackConstraints => ({
+    width: { ideal: settings.width },
+    height: { ideal: settings.height },
+    frameRate: { ideal: settings.frameRate },
+    ...(settings.deviceId && { deviceId: { exact: settings.deviceId } }),
+});
+
+const supportsMode = (modes: ControlMode[] | undefined) => !!modes?.includes('manual') && modes.includes('continuous');
+
+/**
+ * Locks exposure / white balance at their current values, or hands them back
+ * to the camera. Cameras that do not expose the mode are left alone.
+ */
+export const applyCaptureLocks = async (track: MediaStreamTrack, settings: CameraSettings) => {
+    const capabilities: ImageCaptureCapabilities = track.getCapabilities?.() ?? {};
+    const advanced: Record<string, ControlMode> = {};
+    if (supportsMode(capabilities.exposureMode)) {
+        advanced.exposureMode = settings.lockExposure ? 'manual' : 'continuous';
+    }
+    if (supportsMode(capabilities.whiteBalanceMode)) {
+        advanced.whiteBalanceMode = settings.lockWhiteBalance ? 'manual' : 'continuous';
+    }
+    if (!Object.keys(advanced).length) return;
+
+    try {
+        await track.applyConstraints({ advanced: [advanced as MediaTrackConstraintSet] });
+    } catch (e) {
+        console.warn('Camera rejected exposure / white balance lock:', e);
+    }
+};
+
+/**
+ * Applies size, frame rate and locks to a live track. applyConstraints replaces
+ * every constraint set before, so the locks go on again after the size.
+ */
+export const applyCaptureSettings = async (track: MediaStreamTrack, settings: CameraSettings) => {
+    try {
+        await track.applyConstraints(buildVideoConstraints({ ...settings, deviceId: '' }));
+    } catch (e) {
+        console.warn('Camera rejected resolution / frame rate:', e);
+    }
+    await applyCaptureLocks(track, settings);
+};
+
+export const openCamera = async (settings: CameraSettings): Promise<MediaStream> => {
+    const stream = await navigator.mediaDevices.getUserMedia({ video: buildVideoConstraints(settings) });
+    const [track] = stream.getVideoTracks();
+    if (track) await applyCaptureLocks(track, settings);
+    return stream;
+};
+
+export const getCaptureInfo = (track: MediaStreamTrack): CaptureInfo => {
+    const settings: ImageCaptureSettings = track.getSettings();
+    const capabilities: ImageCaptureCapabilities = track.getCapabilities?.() ?? {};
+    return {
+        width: settings.width ?? 0,
+        height: settings.height ?? 0,
+        frameRate: settings.frameRate ?? 0,
+        exposureLocked: settings.exposureMode === 'manual',
+        whiteBalanceLocked: settings.whiteBalanceMode === 'manual',
+        canLockExposure: supportsMode(capabilities.exposureMode),
+        canLockWhiteBalance: supportsMode(capabilities.whiteBalanceMode),
+    };
+};
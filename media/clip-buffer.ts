@@ -0,0 +1,111 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+
+// ─────────────────────────────────────────────────────────────
+// Clip buffer — continuously encodes a canvas and keeps enough
+// encoded history (from a keyframe) to cut clips with pre-roll.
+// ─────────────────────────────────────────────────────────────
+
+interface BufferedChunk {
+    chunk: EncodedVideoChunk;
+    time: number; // Epoch ms
+}
+
+const VP9_CODEC = 'vp09.00.10.08';
+const KEYFRAME_INTERVAL = 30; // Frames; bounds how far before the pre-roll a clip may start
+const MAX_ENCODE_QUEUE = 2;   // Frames are dropped rather than queued behind a slow encoder
+
+export const isClipBufferSupported = () => typeof VideoEncoder !== 'undefined';
+
+export class ClipBuffer {
+    private encoder: VideoEncoder;
+    private chunks: BufferedChunk[] = [];
+    private decoderMeta: EncodedVideoChunkMetadata | undefined;
+    private pins = new Map<number, number>(); // Owner id → earliest time still needed
+    private frameCount = 0;
+    private width: number;
+    private height: number;
+
+    constructor(private canvas: HTMLCanvasElement, private preRoll: number) {
+        // VP9 wants even dimensions
+        this.width = canvas.width & ~1;
+        this.height = canvas.height & ~1;
+
+        this.encoder = new VideoEncoder({
+            output: (chunk, meta) => {
+                if (meta?.decoderConfig) this.decoderMeta = meta;
+                this.chunks.push({ chunk, time: chunk.timestamp / 1000 });
+            },
+            error: (e) => console.error('Clip encoder error:', e),
+        });
+        this.encoder.configure({ codec: VP9_CODEC, width: this.width, height: this.height, bitrate: 3000000 });
+    }
+
+    /** Pre-roll in ms kept ahead of any clip. */
+    public setPreRoll(preRoll: number) {
+        this.preRoll = preRoll;
+    }
+
+    public addFrame(time: number) {
+        if (this.encoder.state !== 'configured' || this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) return;
+
+        const frame = new VideoFrame(this.canvas, {
+            timestamp: Math.round(time * 1000),
+            visibleRect: { x: 0, y: 0, width: this.width, height: this.height },
+        });
+        this.encoder.encode(frame, { keyFrame: this.frameCount++ % KEYFRAME_INTERVAL === 0 });
+        frame.close();
+
+        this.prune(time);
+    }
+
+    /** Keeps frames from `from - preRoll` on until `unpin(id)`. */
+    public pin(id: number, from: number) {
+        this.pins.set(id, from - this.preRoll);
+    }
+
+    public unpin(id: number) {
+        this.pins.delete(id);
+    }
+
+    /** Muxes the buffered frames covering [from - preRoll, to] into a WebM. */
+    public async exportClip(from: number, to: number): Promise<Blob> {
+        await this.encoder.flush();
+
+        const start = this.keyframeIndexBefore(from - this.preRoll);
+        const selected = this.chunks.slice(start).filter((c) => c.time <= to);
+        if (!selected.length) {
+            throw new Error('No buffered frames for this clip');
+        }
+
+        const muxer = new Muxer({
+            target: new ArrayBufferTarget(),
+            video: { codec: 'V_VP9', width: this.width, height: this.height },
+            firstTimestampBehavior: 'offset',
+        });
+        selected.forEach((c, i) => muxer.addVideoChunk(c.chunk, i === 0 ? this.decoderMeta : undefined));
+        muxer.finalize();
+
+        return new Blob([muxer.target.buffer], { type: 'video/webm' });
+    }
+
+    public close() {
+        if (this.encoder.state !== 'closed') this.encoder.close();
+        this.chunks = [];
+        this.pins.clear();
+    }
+
+    // Last keyframe at or before `time` (or the first chunk)
+    private keyframeIndexBefore(time: number) {
+        let index = 0;
+        for (let i = 0; i < this.chunks.length && this.chunks[i].time <= time; i++) {
+            if (this.chunks[i].chunk.type === 'key') index = i;
+        }
+        return index;
+    }
+
+    private prune(now: number) {
+        const keepFrom = Math.min(now - this.preRoll, ...this.pins.values());
+        const start = this.keyframeIndexBefore(keepFrom);
+        if (start > 0) this.chunks.splice(0, start);
+    }
+}
@@ -0,0 +1,67 @@
+// ─────────────────────────────────────────────────────────────
+// Frame clock — what a video element reports about the frames
+// it presents, which browsers only tell requestVideoFrameCallback.
+// ─────────────────────────────────────────────────────────────
+
+const DURATION_WINDOW = 30; // Frame gaps the duration is taken from
+const MAX_FRAME_DURATION = 1; // s; a longer gap between two consecutive frames is a seek or a stall
+
+export const isFrameClockSupported = () => 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+/**
+ * Follows the frames a video element presents for as long as it lives.
+ * Where requestVideoFrameCallback is missing the counts stay at zero and
+ * the times at null.
+ */
+export class VideoFrameClock {
+    private presented = 0;
+    private lastMediaTime: number | null = null;
+    private gaps: number[] = []; // Media time between consecutive presented frames, newest last
+    private callbackId: number | null = null;
+
+    constructor(private video: HTMLVideoElement) {
+        if (isFrameClockSupported()) this.callbackId = video.requestVideoFrameCallback(this.onFrame);
+    }
+
+    /** Frames the element has handed to the compositor, cumulative. */
+    public get presentedFrames(): number {
+        return this.presented;
+    }
+
+    /** Media time (s) of the frame on screen. */
+    public get mediaTime(): number | null {
+        return this.lastMediaTime;
+    }
+
+    /**
+     * Shortest recent gap between two consecutive frames, which is the frame
+     * duration as long as some frames weren't skipped; browsers don't expose
+     * the frame rate itself. Null until two frames have been seen.
+     */
+    public get frameDuration(): number | null {
+        return this.gaps.length ? Math.min(...this.gaps) : null;
+    }
+
+    /** Frames the decoder dropped before they could be presented, cumulative. */
+    public get droppedFrames(): number {
+        return this.video.getVideoPlaybackQuality?.().droppedVideoFrames ?? 0;
+    }
+
+    public dispose() {
+        if (this.callbackId !== null) this.video.cancelVideoFrameCallback(this.callbackId);
+        this.callbackId = null;
+    }
+
+    private onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+        const gap = this.lastMediaTime === null ? 0 : metadata.mediaTime - this.lastMediaTime;
+        // Faster playback skips frames on purpose, so its gaps are whole multiples
+        const consecutive = metadata.presentedFrames === this.presented + 1 && this.video.playbackRate <= 1;
+        if (consecutive && gap > 0 && gap < MAX_FRAME_DURATION) {
+            this.gaps.push(gap);
+            if (this.gaps.length > DURATION_WINDOW) this.gaps.shift();
+        }
+        this.presented = metadata.presentedFrames;
+        this.lastMediaTime = metadata.mediaTime;
+        this.callbackId = this.video.requestVideoFrameCallback(this.onFrame);
+    };
+}
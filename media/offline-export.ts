@@ -0,0 +1,300 @@
+import { Muxer, ArrayBufferTarget } from 'webm-muxer';
+import { MotionEngine, MotionControls } from '../gl/motion-engine';
+import { MotionEffect } from '../gl/effects';
+import { Zone, rasterizeZones } from '../gl/zone-mask';
+
+// ─────────────────────────────────────────────────────────────
+// Offline export — seeks a paused copy of the file from frame to
+// frame, renders each once through its own MotionEngine and muxes
+// the result, plus the file's audio, into a WebM that keeps the
+// source frame timestamps.
+// ─────────────────────────────────────────────────────────────
+
+export interface OfflineExportOptions {
+    /** Read on every frame so sidebar changes still apply mid-export. */
+    getControls: () => MotionControls;
+    /** Detection zones, read on every frame like the controls. */
+    getZones?: () => Zone[];
+    /** Registered on top of the built-ins, e.g. custom effects from the editor. */
+    effects?: MotionEffect[];
+    /** Defaults to the video's native size. */
+    width?: number;
+    height?: number;
+    bitrate?: number;
+    /** Re-encode the file's audio as Opus; on by default. */
+    audio?: boolean;
+    onProgress?: (progress: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface OfflineExportResult {
+    blob: Blob;
+    frameCount: number;
+    /** Frames a seek jumped over, judged from the shortest frame duration seen. */
+    skippedFrames: number;
+    /** False when the file has no audio or it couldn't be decoded or encoded. */
+    hasAudio: boolean;
+}
+
+const VP9_CODEC = 'vp09.00.10.08';
+const MAX_ENCODE_QUEUE = 4;
+const AUDIO_SAMPLE_RATE = 48000; // Opus runs at 48 kHz
+const AUDIO_CHUNK_FRAMES = 4800; // 100 ms of samples per AudioData
+// Seek step until two frames have shown the frame duration, then half the shortest seen
+const INITIAL_SEEK_STEP = 1 / 240;
+// A seek that lands on the frame already shown may present nothing; wait this long after 'seeked'
+const SEEK_SETTLE_MS = 100;
+
+export const isOfflineExportSupported = () =>
+    typeof VideoEncoder !== 'undefined' && 'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+const abortError = () => new DOMException('Export cancelled', 'AbortError');
+
+/** Media time of the frame presented once the seek to `time` completes, or null if none was. */
+const seekTo = (video: HTMLVideoElement, time: number, signal?: AbortSignal) => new Promise<number | null>((resolve, reject) => {
+    let timer = 0;
+    const cleanUp = () => {
+        clearTimeout(timer);
+        video.cancelVideoFrameCallback(callbackId);
+        video.onseeked = null;
+        video.onerror = null;
+        signal?.removeEventListener('abort', onAbort);
+    };
+    const finish = (mediaTime: number | null) => {
+        cleanUp();
+        resolve(mediaTime);
+    };
+    const onAbort = () => {
+        cleanUp();
+        reject(abortError());
+    };
+    const callbackId = video.requestVideoFrameCallback((_now, metadata) => finish(metadata.mediaTime));
+    video.onseeked = () => { timer = window.setTimeout(() => finish(null), SEEK_SETTLE_MS); };
+    video.onerror = () => {
+        cleanUp();
+        reject(new Error('Video decode error during export'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+    video.currentTime = time;
+});
+
+// MediaRecorder files often leave the duration out; seeking past the end makes the element find it
+const resolveDuration = (video: HTMLVideoElement) => new Promise<void>((resolve, reject) => {
+    if (Number.isFinite(video.duration)) return resolve();
+    video.ondurationchange = () => {
+        if (!Number.isFinite(video.duration)) return;
+        video.ondurationchange = null;
+        resolve();
+    };
+    video.onerror = () => reject(new Error('Could not read the video duration for export'));
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+});
+
+// Whole audio track at AUDIO_SAMPLE_RATE, null when there is none to decode
+const decodeAudio = async (url: string, signal?: AbortSignal): Promise<AudioBuffer | null> => {
+    const context = new OfflineAudioContext(1, 1, AUDIO_SAMPLE_RATE);
+    try {
+        const response = await fetch(url, { signal });
+        return await context.decodeAudioData(await response.arrayBuffer());
+    } catch (e) {
+        if ((e as Error).name === 'AbortError') throw e;
+        return null;
+    }
+};
+
+// Opus chunks for the whole buffer, fed straight to the muxer
+const encodeAudio = async (buffer: AudioBuffer, muxer: Muxer<ArrayBufferTarget>) => {
+    let encodeError: Error | null = null;
+    const encoder = new AudioEncoder({
+        output: (chunk, meta) => muxer.addAudioChunk(chunk, meta),
+        error: (e) => { encodeError = e; },
+    });
+    encoder.configure({ codec: 'opus', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: buffer.numberOfChannels, bitrate: 128000 });
+
+    try {
+        for (let start = 0; start < buffer.length; start += AUDIO_CHUNK_FRAMES) {
+            const frames = Math.min(AUDIO_CHUNK_FRAMES, buffer.length - start);
+            const planes = new Float32Array(frames * buffer.numberOfChannels);
+            for (let c = 0; c < buffer.numberOfChannels; c++) {
+                planes.set(buffer.getChannelData(c).subarray(start, start + frames), c * frames);
+            }
+            const data = new AudioData({
+                format: 'f32-planar',
+                sampleRate: AUDIO_SAMPLE_RATE,
+                numberOfFrames: frames,
+                numberOfChannels: buffer.numberOfChannels,
+                timestamp: Math.round((start / AUDIO_SAMPLE_RATE) * 1e6),
+                data: planes,
+            });
+            encoder.encode(data);
+            data.close();
+        }
+        await encoder.flush();
+        if (encodeError) throw encodeError;
+    } finally {
+        if (encoder.state !== 'closed') encoder.close();
+    }
+};
+
+export async function exportVideoOffline(url: string, options: OfflineExportOptions): Promise<OfflineExportResult> {
+    if (!isOfflineExportSupported()) {
+        throw new Error('Offline export needs WebCodecs and requestVideoFrameCallback');
+    }
+    const { signal } = options;
+
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    let canvas: HTMLCanvasElement | null = null;
+    let encoder: VideoEncoder | null = null;
+
+    try {
+        video.src = url;
+        await new Promise<void>((resolve, reject) => {
+            video.onloadeddata = () => resolve();
+            video.onerror = () => reject(new Error('Could not load video for export'));
+        });
+
+        // VP9 wants even dimensions
+        const width = (options.width ?? video.videoWidth) & ~1;
+        const height = (options.height ?? video.videoHeight) & ~1;
+
+        const config: VideoEncoderConfig = { codec: VP9_CODEC, width, height, bitrate: options.bitrate ?? 5000000 };
+        const support = await VideoEncoder.isConfigSupported(config);
+        if (!support.supported) {
+            throw new Error(`VP9 encoding at ${width}x${height} is not supported`);
+        }
+
+        // Audio is best effort: the video still exports without it
+        const audio = options.audio !== false && typeof AudioEncoder !== 'undefined' ? await decodeAudio(url, signal) : null;
+        const audioSupported = !!audio && (await AudioEncoder.isConfigSupported({
+            codec: 'opus', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: audio.numberOfChannels,
+        })).supported === true;
+
+        canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = height;
+        const engine = new MotionEngine(canvas);
+        options.effects?.forEach((effect) => engine.registerEffect(effect));
+        engine.init(width, height);
+        // Seed the model from the first frame, as a live tile does, instead of the zero-filled one
+        engine.resetBackground();
+
+        const muxer = new Muxer({
+            target: new ArrayBufferTarget(),
+            video: { codec: 'V_VP9', width, height },
+            audio: audioSupported ? { codec: 'A_OPUS', sampleRate: AUDIO_SAMPLE_RATE, numberOfChannels: audio!.numberOfChannels } : undefined,
+            firstTimestampBehavior: 'offset',
+        });
+
+        // An encoder that errors closes and drops its queue, so waits for 'dequeue' also end on this
+        let encodeError: Error | null = null;
+        let onEncodeError: (() => void) | null = null;
+        const videoEncoder = new VideoEncoder({
+            output: (chunk, meta) => muxer.addVideoChunk(chunk, meta),
+            error: (e) => {
+                encodeError = e;
+                onEncodeError?.();
+            },
+        });
+        encoder = videoEncoder;
+        videoEncoder.configure(config);
+
+        // Resolves once the queue shrinks, rejects on an encode error or abort
+        const waitForDequeue = () => new Promise<void>((resolve, reject) => {
+            const cleanUp = () => {
+                videoEncoder.removeEventListener('dequeue', onDequeue);
+                signal?.removeEventListener('abort', onAbort);
+                onEncodeError = null;
+            };
+            const onDequeue = () => {
+                cleanUp();
+                resolve();
+            };
+            const onAbort = () => {
+                cleanUp();
+                reject(abortError());
+            };
+            onEncodeError = () => {
+                cleanUp();
+                reject(encodeError);
+            };
+            videoEncoder.addEventListener('dequeue', onDequeue);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+
+        if (audioSupported) await encodeAudio(audio!, muxer);
+
+        let frameCount = 0;
+        let skippedFrames = 0;
+
+        // A seek shows the frame whose span holds the target, so seeks half a frame apart
+        // see every frame at least as long as the shortest seen. The end of the file shows the last frame.
+        await resolveDuration(video);
+        const duration = video.duration;
+        let shortestFrame: number | null = null;
+        let lastTime: number | null = null;
+        let zones: Zone[] | undefined;
+        for (let target = 0; ;) {
+            if (signal?.aborted) throw abortError();
+            const presented = await seekTo(video, target, signal);
+            // The element may show the first frame before any seek, so nothing new means it's still that one
+            const mediaTime: number | null = presented ?? (lastTime === null ? target : null);
+            const step = shortestFrame === null ? INITIAL_SEEK_STEP : shortestFrame / 2;
+            if (mediaTime === null || (lastTime !== null && mediaTime <= lastTime)) {
+                if (target >= duration) break;
+                target = Math.min(target + step, duration);
+                continue;
+            }
+
+            if (lastTime !== null) {
+                const gap = mediaTime - lastTime;
+                shortestFrame = Math.min(shortestFrame ?? gap, gap);
+                skippedFrames += Math.max(0, Math.round(gap / shortestFrame) - 1);
+            }
+            lastTime = mediaTime;
+            target = Math.min(mediaTime + (shortestFrame === null ? INITIAL_SEEK_STEP : shortestFrame / 2), duration);
+
+            const nextZones = options.getZones?.();
+            if (nextZones !== zones) {
+                zones = nextZones;
+                engine.setZoneMask(rasterizeZones(zones ?? [], width, height));
+            }
+            engine.render(video, options.getControls());
+
+            const frame = new VideoFrame(canvas, { timestamp: Math.round(mediaTime * 1e6) });
+            videoEncoder.encode(frame, { keyFrame: frameCount % 120 === 0 });
+            frame.close();
+            frameCount++;
+
+            while (videoEncoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+                if (encodeError) throw encodeError;
+                if (signal?.aborted) throw abortError();
+                await waitForDequeue();
+            }
+            if (encodeError) throw encodeError;
+
+            options.onProgress?.(duration ? mediaTime / duration : 0);
+        }
+
+        await videoEncoder.flush();
+        if (encodeError) throw encodeError;
+        muxer.finalize();
+        options.onProgress?.(1);
+
+        return {
+            blob: new Blob([muxer.target.buffer], { type: 'video/webm' }),
+            frameCount,
+            skippedFrames,
+            hasAudio: audioSupported,
+        };
+    } finally {
+        video.removeAttribute('src');
+        video.load();
+        if (encoder && encoder.state !== 'closed') encoder.close();
+        // Free the GL context now instead of waiting for GC; browsers cap live contexts
+        canvas?.getContext('webgl2')?.getExtension('WEBGL_lose_context')?.loseContext();
+    }
+}
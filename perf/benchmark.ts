@@ -0,0 +1,127 @@
+// ─────────────────────────────────────────────────────────────
+// Benchmark — end-to-end frame rate and dropped frames per
+// source, and a JSON report for comparing machines.
+// ─────────────────────────────────────────────────────────────
+
+import { MotionControls, RenderTargetFormat } from '../gl/motion-engine';
+import { PassTimings } from '../gl/pass-timer';
+
+export interface FrameRateStats {
+    fps: number;            // Distinct source frames the engine rendered per second, over the last second
+    sourceFps: number;      // Frames the video element presented per second, over the last second
+    renderedFrames: number; // Since the last reset
+    droppedFrames: number;  // Dropped by the decoder, or presented but never rendered
+}
+
+/** Cumulative counters of a video element, as a VideoFrameClock reports them. */
+export interface PresentedFrameCounts {
+    presentedFrames: number; // requestVideoFrameCallback's presentedFrames
+    droppedFrames: number;   // getVideoPlaybackQuality().droppedVideoFrames
+}
+
+const FPS_WINDOW = 1000; // ms
+
+/**
+ * Compares what the video element presented and what its decoder dropped
+ * with the frames that reached the engine, from the first sample on.
+ * Pauses present nothing, so they don't count.
+ */
+export class FrameMonitor {
+    private renderTimes: number[] = [];
+    private samples: { time: number; presentedFrames: number }[] = [];
+    private baseline: PresentedFrameCounts | null = null;
+    private latest: PresentedFrameCounts | null = null;
+    private renderedFrames = 0;
+
+    /** Reads the element's counters; call every loop. */
+    public sample(now: number, counts: PresentedFrameCounts) {
+        this.baseline ??= counts;
+        this.latest = counts;
+        this.samples.push({ time: now, presentedFrames: counts.presentedFrames });
+        while (this.samples.length > 1 && this.samples[0].time <= now - FPS_WINDOW) this.samples.shift();
+    }
+
+    /** Counts one distinct source frame the engine rendered at `now` (performance.now()). */
+    public rendered(now: number) {
+        this.renderTimes.push(now);
+        while (this.renderTimes[0] <= now - FPS_WINDOW) this.renderTimes.shift();
+        this.renderedFrames++;
+    }
+
+    public getStats(): FrameRateStats {
+        const first = this.samples[0];
+        const last = this.samples[this.samples.length - 1];
+        const span = first && last ? last.time - first.time : 0;
+        const { baseline, latest } = this;
+        const presented = baseline && latest ? latest.presentedFrames - baseline.presentedFrames : 0;
+        const decoderDropped = baseline && latest ? latest.droppedFrames - baseline.droppedFrames : 0;
+        return {
+            fps: this.renderTimes.length * 1000 / FPS_WINDOW,
+            sourceFps: span > 0 ? (last.presentedFrames - first.presentedFrames) * 1000 / span : 0,
+            renderedFrames: this.renderedFrames,
+            // A frame still in flight to a worker counts as dropped until it lands
+            droppedFrames: Math.max(0, decoderDropped) + Math.max(0, presented - this.renderedFrames),
+        };
+    }
+
+    public reset() {
+        this.renderTimes = [];
+        this.samples = [];
+        this.baseline = null;
+        this.latest = null;
+        this.renderedFrames = 0;
+    }
+}
+
+export interface SourceBenchmark {
+    label: string;
+    kind: 'file' | 'webcam';
+    width: number;  // Engine (canvas) size
+    height: number;
+    controls: MotionControls;
+    frameRate: FrameRateStats;
+    textureMemoryBytes: number;
+    timings: PassTimings | null;
+}
+
+export interface BenchmarkEnvironment {
+    gpu: string;
+    renderTargetFormat: RenderTargetFormat;
+}
+
+const round = (value: number, digits = 3) => Number(value.toFixed(digits));
+
+export const benchmarkToJson = (environment: BenchmarkEnvironment, sources: SourceBenchmark[], durationMs: number) =>
+    JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        durationSeconds: round(durationMs / 1000, 1),
+        environment: {
+            ...environment,
+            userAgent: navigator.userAgent,
+            hardwareConcurrency: navigator.hardwareConcurrency,
+            devicePixelRatio: window.devicePixelRatio,
+        },
+        sources: sources.map(({ controls, frameRate, timings, ...source }) => ({
+            ...source,
+            // The settings that drive the cost of a frame
+            settings: {
+                detectionMode: controls.detectionMode,
+                backgroundModel: controls.backgroundModel,
+                processingResolution: controls.processingResolution,
+                noiseReduction: controls.noiseReduction,
+                morphology: controls.morphology,
+                morphologyRadius: controls.morphologyRadius,
+                morphologyIterations: controls.morphologyIterations,
+                effect: controls.effect,
+                blobTracking: controls.blobTracking,
+            },
+            frameRate: { ...frameRate, fps: round(frameRate.fps, 1) },
+            timings: timings && {
+                source: timings.source,
+                frames: timings.frames,
+                stagesMs: Object.fromEntries(Object.entries(timings.stages)
+                    .map(([stage, t]) => [stage, { mean: round(t.mean), p95: round(t.p95) }])),
+                totalMs: { mean: round(timings.total.mean), p95: round(timings.total.p95) },
+            },
+        })),
+    }, null, 2);
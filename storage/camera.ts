@@ -0,0 +1,34 @@
+import { CameraSettings, DEFAULT_CAMERA_SETTINGS } from '../media/camera';
+
+// The last camera setup, so a reload reopens the same device the same way
+const STORAGE_KEY = 'motion-extract:camera';
+
+export const loadCameraSettings = (): CameraSettings => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+        const settings = { ...DEFAULT_CAMERA_SETTINGS };
+        if (parsed && typeof parsed === 'object') {
+            if (typeof parsed.deviceId === 'string') settings.deviceId = parsed.deviceId;
+            if (typeof parsed.width === 'number' && typeof parsed.height === 'number') {
+                settings.width = parsed.width;
+                settings.height = parsed.height;
+            }
+            if (typeof parsed.frameRate === 'number') settings.frameRate = parsed.frameRate;
+            if (typeof parsed.lockExposure === 'boolean') settings.lockExposure = parsed.lockExposure;
+            if (typeof parsed.lockWhiteBalance === 'boolean') settings.lockWhiteBalance = parsed.lockWhiteBalance;
+        }
+        return settings;
+    } catch (e) {
+        console.warn('Ignoring unreadable camera settings:', e);
+        return { ...DEFAULT_CAMERA_SETTINGS };
+    }
+};
+
+// Settings still apply for the session when storage is full or blocked
+export const saveCameraSettings = (settings: CameraSettings) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+    } catch (e) {
+        console.warn('Could not store camera settings:', e);
+    }
+};
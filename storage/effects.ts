@@ -0,0 +1,60 @@
+import { MotionEffect, EffectUniform, isEffectUniformValue } from '../gl/effects';
+
+// Custom effects written in the GLSL editor, kept next to the built-ins
+const STORAGE_KEY = 'motion-extract:effects';
+/** Prefix for custom effect names so they can never shadow a built-in. */
+export const CUSTOM_EFFECT_PREFIX = 'custom:';
+
+const isEffectUniform = (u: unknown): u is EffectUniform => {
+    const uniform = u as EffectUniform;
+    if (!uniform || typeof uniform.name !== 'string' || typeof uniform.label !== 'string') return false;
+    switch (uniform.type) {
+        case 'float':
+        case 'int':
+            return [uniform.min, uniform.max, uniform.default].every((n) => typeof n === 'number');
+        case 'bool':
+            return typeof uniform.default === 'boolean';
+        case 'color':
+            return Array.isArray(uniform.default) && isEffectUniformValue(uniform.default);
+        default:
+            return false;
+    }
+};
+
+const isCustomEffect = (e: unknown): e is MotionEffect => {
+    const effect = e as MotionEffect;
+    return !!effect
+        && typeof effect.name === 'string' && effect.name.startsWith(CUSTOM_EFFECT_PREFIX)
+        && typeof effect.label === 'string'
+        && typeof effect.source === 'string'
+        && Array.isArray(effect.uniforms) && effect.uniforms.every(isEffectUniform)
+        && (effect.persistence === undefined || typeof effect.persistence === 'boolean')
+        && (effect.opaque === undefined || typeof effect.opaque === 'boolean')
+        && (effect.inputs === undefined
+            || (Array.isArray(effect.inputs) && effect.inputs.every((i) => i === 'flow' || i === 'delayed')));
+};
+
+export const loadCustomEffects = (): MotionEffect[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        return Array.isArray(parsed) ? parsed.filter(isCustomEffect) : [];
+    } catch (e) {
+        console.warn('Ignoring unreadable stored effects:', e);
+        return [];
+    }
+};
+
+// Effects stay registered for the session when storage is full or blocked
+export const saveCustomEffects = (effects: MotionEffect[]) => {
+    try {
+        if (effects.length) {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(effects));
+        } else {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    } catch (e) {
+        console.warn('Could not store custom effects:', e);
+    }
+};
+
+export const isCustomEffectName = (name: string) => name.startsWith(CUSTOM_EFFECT_PREFIX);
@@ -0,0 +1,288 @@
+import { MotionControls, MAX_FRAME_OFFSET, MAX_NOISE_REDUCTION, MIN_PROCESSING_RESOLUTION } from '../gl/motion-engine';
+import { MAX_MORPH_RADIUS, MAX_MORPH_ITERATIONS } from '../gl/morphology';
+import { isEffectUniformValue } from '../gl/effects';
+
+// ─────────────────────────────────────────────────────────────
+// Presets — named MotionControls snapshots. Files, localStorage
+// entries and share links all use the same versioned envelope, so
+// every path goes through the same validation and migration.
+// ─────────────────────────────────────────────────────────────
+
+export interface Preset {
+    name: string;
+    controls: MotionControls;
+}
+
+const FORMAT = 'motion-extract-preset';
+export const PRESET_VERSION = 5;
+const STORAGE_KEY = 'motion-extract:presets';
+const HASH_PREFIX = '#preset=';
+
+export const DEFAULT_CONTROLS: MotionControls = {
+    detectionMode: 'color',
+    detectionThreshold: 15.0,
+    processingResolution: 1.0, // GPU can handle 100% easily
+    noiseReduction: 0,
+    adaptationRate: 0.05,
+    morphology: 'open',
+    morphologyShape: 'square',
+    morphologyRadius: 1,
+    morphologyIterations: 1,
+    effect: 'classic',
+    effectParams: {},
+    invert: false,
+    persistence: 0.85,
+    accumulationMode: 'max',
+    blobTracking: false,
+    blobMinArea: 0.002,
+    freezeOutsideZones: false,
+    frameOffset: 8,
+    frameOffsetTaps: 1,
+    backgroundModel: 'single',
+    shadowDetection: false,
+    illuminationCompensation: false,
+};
+
+/** Starting threshold per detection mode; the scales differ (color distance vs px/frame × 10). */
+export const DEFAULT_MODE_THRESHOLDS: Record<MotionControls['detectionMode'], number> = {
+    color: 15.0,
+    luminance: 2.5,
+    opticalFlow: 5.0, // 0.5 px/frame
+    frameDelay: 15.0,
+};
+
+export const BUILTIN_PRESETS: Preset[] = [
+    { name: 'Default', controls: DEFAULT_CONTROLS },
+    {
+        name: 'Security Camera',
+        controls: {
+            ...DEFAULT_CONTROLS,
+            detectionThreshold: 20.0,
+            adaptationRate: 0.01,
+            morphologyShape: 'disk',
+            morphologyRadius: 2,
+            backgroundModel: 'mog',
+            shadowDetection: true,
+            illuminationCompensation: true,
+            blobTracking: true,
+        },
+    },
+    {
+        name: 'Light Painting',
+        controls: {
+            ...DEFAULT_CONTROLS,
+            detectionMode: 'luminance',
+            detectionThreshold: 2.5,
+            morphology: 'none',
+            effect: 'electricTrails',
+            persistence: 0.97,
+        },
+    },
+    {
+        name: 'Dance Trails',
+        controls: {
+            ...DEFAULT_CONTROLS,
+            adaptationRate: 0.1,
+            morphology: 'close',
+            effect: 'colorBurn',
+            persistence: 0.92,
+        },
+    },
+    {
+        name: 'Traffic Flow',
+        controls: {
+            ...DEFAULT_CONTROLS,
+            detectionMode: 'opticalFlow',
+            detectionThreshold: 5.0,
+            effect: 'flow',
+            blobTracking: true,
+        },
+    },
+    {
+        name: 'Time Echo',
+        controls: {
+            ...DEFAULT_CONTROLS,
+            detectionMode: 'frameDelay',
+            morphology: 'none',
+            effect: 'frameDelay',
+            frameOffset: 12,
+            frameOffsetTaps: 3,
+        },
+    },
+];
+
+type FieldSchema<T> =
+    [T] extends [boolean] ? { type: 'boolean' }
+    : [T] extends [number] ? { type: 'number'; min: number; max: number }
+    : string extends T ? { type: 'string' }
+    : [T] extends [string] ? { type: 'enum'; values: readonly T[] }
+    : { type: 'object'; expected: string; check: (value: unknown) => boolean };
+
+const isRecordOf = (value: unknown, check: (entry: unknown) => boolean) =>
+    !!value && typeof value === 'object' && !Array.isArray(value) && Object.values(value).every(check);
+
+// Keyed by MotionControls so adding a control without a schema entry fails to compile
+const CONTROL_SCHEMA: { [K in keyof MotionControls]-?: FieldSchema<MotionControls[K]> } = {
+    detectionMode: { type: 'enum', values: ['color', 'luminance', 'opticalFlow', 'frameDelay'] },
+    detectionThreshold: { type: 'number', min: 0, max: 100 },
+    processingResolution: { type: 'number', min: MIN_PROCESSING_RESOLUTION, max: 1 },
+    noiseReduction: { type: 'number', min: 0, max: MAX_NOISE_REDUCTION },
+    adaptationRate: { type: 'number', min: 0, max: 1 },
+    morphology: { type: 'enum', values: ['none', 'open', 'close', 'gradient', 'topHat', 'fillHoles'] },
+    morphologyShape: { type: 'enum', values: ['square', 'disk', 'cross'] },
+    morphologyRadius: { type: 'number', min: 1, max: MAX_MORPH_RADIUS },
+    morphologyIterations: { type: 'number', min: 1, max: MAX_MORPH_ITERATIONS },
+    effect: { type: 'string' }, // Effects are registered at runtime; unknown names fall back in the engine
+    effectParams: {
+        type: 'object',
+        expected: 'an object of per-effect uniform values',
+        check: (value) => isRecordOf(value, (params) => isRecordOf(params, isEffectUniformValue)),
+    },
+    invert: { type: 'boolean' },
+    persistence: { type: 'number', min: 0, max: 1 },
+    accumulationMode: { type: 'enum', values: ['additive', 'max'] },
+    blobTracking: { type: 'boolean' },
+    blobMinArea: { type: 'number', min: 0, max: 1 },
+    freezeOutsideZones: { type: 'boolean' },
+    frameOffset: { type: 'number', min: 1, max: MAX_FRAME_OFFSET },
+    frameOffsetTaps: { type: 'number', min: 1, max: 4 },
+    backgroundModel: { type: 'enum', values: ['single', 'mog'] },
+    shadowDetection: { type: 'boolean' },
+    illuminationCompensation: { type: 'boolean' },
+};
+
+type RawControls = Record<string, unknown>;
+
+/**
+ * MIGRATIONS[v] upgrades controls saved at version v to v + 1.
+ * v1 noise reduction ran up to 10; as a pre-blur σ it stops at MAX_NOISE_REDUCTION.
+ * v2 only had the fixed 3×3 square morphology kernel.
+ * v3 effects had no tunable uniforms.
+ * v4 trails were alpha-blended over the previous canvas, closest to max accumulation.
+ */
+const MIGRATIONS: Record<number, (controls: RawControls) => RawControls> = {
+    1: (controls) => (typeof controls.noiseReduction === 'number'
+        ? { ...controls, noiseReduction: Math.min(controls.noiseReduction, MAX_NOISE_REDUCTION) }
+        : controls),
+    2: (controls) => ({
+        morphologyShape: 'square',
+        morphologyRadius: 1,
+        morphologyIterations: 1,
+        ...controls,
+    }),
+    3: (controls) => ({
+        effectParams: {},
+        ...controls,
+    }),
+    4: (controls) => ({
+        accumulationMode: 'max',
+        ...controls,
+    }),
+};
+
+const validateControls = (raw: RawControls): MotionControls => {
+    const controls: RawControls = {};
+    for (const [key, schema] of Object.entries(CONTROL_SCHEMA) as [string, FieldSchema<unknown>][]) {
+        const value = raw[key];
+        const field = schema as {
+            type: string;
+            min?: number;
+            max?: number;
+            values?: readonly unknown[];
+            expected?: string;
+            check?: (value: unknown) => boolean;
+        };
+        const valid = field.type === 'boolean' ? typeof value === 'boolean'
+            : field.type === 'number' ? typeof value === 'number' && Number.isFinite(value) && value >= field.min! && value <= field.max!
+                : field.type === 'string' ? typeof value === 'string' && value.length > 0
+                    : field.type === 'enum' ? field.values!.includes(value)
+                        : field.check!(value);
+        if (!valid) {
+            const expected = field.type === 'number' ? `a number in [${field.min}, ${field.max}]`
+                : field.type === 'enum' ? `one of ${field.values!.join(', ')}`
+                    : field.type === 'object' ? field.expected!
+                        : `a ${field.type}`;
+            throw new Error(`Invalid preset: "${key}" must be ${expected} (got ${JSON.stringify(value)})`);
+        }
+        controls[key] = value;
+    }
+    return controls as unknown as MotionControls;
+};
+
+/** Validates an untrusted preset envelope, migrating older versions. Throws with a readable message. */
+export function parsePreset(data: unknown): Preset {
+    const envelope = data as { format?: unknown; version?: unknown; name?: unknown; controls?: unknown };
+    if (!envelope || typeof envelope !== 'object' || envelope.format !== FORMAT) {
+        throw new Error('Not a motion-extract preset');
+    }
+    const { version, name } = envelope;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+        throw new Error(`Invalid preset version: ${JSON.stringify(version)}`);
+    }
+    if (version > PRESET_VERSION) {
+        throw new Error(`Preset version ${version} is newer than this app supports (${PRESET_VERSION})`);
+    }
+    if (typeof name !== 'string' || !name.trim()) {
+        throw new Error('Invalid preset: missing name');
+    }
+    if (!envelope.controls || typeof envelope.controls !== 'object') {
+        throw new Error('Invalid preset: missing controls');
+    }
+
+    let controls = envelope.controls as RawControls;
+    for (let v = version; v < PRESET_VERSION; v++) {
+        controls = MIGRATIONS[v](controls);
+    }
+    return { name: name.trim(), controls: validateControls(controls) };
+}
+
+export const serializePreset = (preset: Preset) => ({
+    format: FORMAT,
+    version: PRESET_VERSION,
+    name: preset.name,
+    controls: preset.controls,
+});
+
+export const presetToJson = (preset: Preset) => JSON.stringify(serializePreset(preset), null, 2);
+
+export const presetFromJson = (json: string) => parsePreset(JSON.parse(json));
+
+export const loadUserPresets = (): Preset[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+        if (!Array.isArray(parsed)) return [];
+        return parsed.flatMap((entry) => {
+            try {
+                return [parsePreset(entry)];
+            } catch (e) {
+                console.warn('Ignoring unreadable stored preset:', e);
+                return [];
+            }
+        });
+    } catch (e) {
+        console.warn('Ignoring unreadable stored presets:', e);
+        return [];
+    }
+};
+
+// Presets still apply for the session when storage is full or blocked
+export const saveUserPresets = (presets: Preset[]) => {
+    try {
+        if (presets.length) {
+            localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.map(serializePreset)));
+        } else {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    } catch (e) {
+        console.warn('Could not store presets:', e);
+    }
+};
+
+export const presetToHash = (preset: Preset) =>
+    HASH_PREFIX + encodeURIComponent(JSON.stringify(serializePreset(preset)));
+
+/** Returns null when the hash carries no preset; throws when it carries a bad one. */
+export const presetFromHash = (hash: string): Preset | null =>
+    hash.startsWith(HASH_PREFIX)
+        ? presetFromJson(decodeURIComponent(hash.slice(HASH_PREFIX.length)))
+        : null;
@@ -0,0 +1,35 @@
+import { Zone } from '../gl/zone-mask';
+
+// Zones are stored per source so each camera view / clip keeps its own layout
+const KEY_PREFIX = 'motion-extract:zones:';
+
+const isZone = (z: unknown): z is Zone => {
+    const zone = z as Zone;
+    return !!zone
+        && (zone.kind === 'include' || zone.kind === 'exclude')
+        && Array.isArray(zone.points)
+        && zone.points.every((p) => typeof p?.x === 'number' && typeof p?.y === 'number');
+};
+
+export const loadZones = (sourceKey: string): Zone[] => {
+    try {
+        const parsed = JSON.parse(localStorage.getItem(KEY_PREFIX + sourceKey) ?? '[]');
+        return Array.isArray(parsed) ? parsed.filter(isZone) : [];
+    } catch (e) {
+        console.warn('Ignoring unreadable stored zones:', e);
+        return [];
+    }
+};
+
+// Zones still apply for the session when storage is full or blocked
+export const saveZones = (sourceKey: string, zones: Zone[]) => {
+    try {
+        if (zones.length) {
+            localStorage.setItem(KEY_PREFIX + sourceKey, JSON.stringify(zones));
+        } else {
+            localStorage.removeItem(KEY_PREFIX + sourceKey);
+        }
+    } catch (e) {
+        console.warn('Could not store zones:', e);
+    }
+};
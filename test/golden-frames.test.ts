@@ -0,0 +1,92 @@
+import { describe, expect, test } from 'vitest';
+import { MotionControls } from '../gl/motion-engine';
+import { DEFAULT_CONTROLS } from '../storage/presets';
+import { compareFrames, leftHalfZone, movingBracket, movingRing, movingShadow, movingSquare, renderCPU, renderGL, RenderOptions, Scene } from './golden-frames';
+
+// CpuMotionEngine mirrors the shaders, but float rounding (and 8-bit
+// quantization of the canvas) can still land a channel one step off, so
+// frames match when no channel is more than TOLERANCE steps (of 255) apart,
+// save at most MAX_MISMATCH_RATIO of them, which must stay within MAX_DIFF.
+const TOLERANCE = 2;
+const MAX_MISMATCH_RATIO = 0.005;
+const MAX_DIFF = 16;
+
+interface GoldenCase {
+    name: string;
+    scene: Scene;
+    controls: Partial<MotionControls>;
+    options?: RenderOptions;
+    blank?: boolean; // The pipeline is expected to detect nothing
+}
+
+const cases: GoldenCase[] = [
+    { name: 'color detection', scene: movingSquare, controls: {} },
+    { name: 'luminance detection', scene: movingSquare, controls: { detectionMode: 'luminance', detectionThreshold: 2.5 } },
+    { name: 'noise reduction', scene: movingSquare, controls: { noiseReduction: 1.5 } },
+    { name: 'no morphology', scene: movingSquare, controls: { morphology: 'none' } },
+    { name: 'disk closing', scene: movingSquare, controls: { morphology: 'close', morphologyShape: 'disk', morphologyRadius: 2 } },
+    { name: 'gradient', scene: movingSquare, controls: { morphology: 'gradient' } },
+    { name: 'top-hat', scene: movingSquare, controls: { morphology: 'topHat', morphologyRadius: 7 } },
+    { name: 'hole fill', scene: movingRing, controls: { morphology: 'fillHoles' } },
+    { name: 'hole fill', scene: movingBracket, controls: { morphology: 'fillHoles' } },
+    { name: 'shadow suppression', scene: movingShadow, controls: { shadowDetection: true }, blank: true },
+    { name: 'zone', scene: movingSquare, controls: {}, options: { zone: leftHalfZone() } },
+    { name: 'frozen outside zone', scene: movingSquare, controls: { freezeOutsideZones: true }, options: { zone: leftHalfZone() } },
+    { name: 'inverted', scene: movingSquare, controls: { invert: true } },
+    {
+        name: 'background reset',
+        scene: movingSquare,
+        controls: {},
+        options: { before: (index, engine) => index === 12 && engine.resetBackground() },
+    },
+    { name: 'half processing resolution', scene: movingSquare, controls: { processingResolution: 0.5 } },
+    { name: 'downscaled, blurred', scene: movingSquare, controls: { processingResolution: 0.3, noiseReduction: 1 } },
+    { name: 'downscaled heatmap', scene: movingSquare, controls: { processingResolution: 0.3, effect: 'heatmap' } },
+    { name: 'downscaled background', scene: movingSquare, controls: { processingResolution: 0.3, effect: 'backgroundMean' } },
+    { name: 'downscaled zone', scene: movingSquare, controls: { processingResolution: 0.5 }, options: { zone: leftHalfZone() } },
+    { name: 'colorBurn', scene: movingSquare, controls: { effect: 'colorBurn' } },
+    { name: 'heatmap', scene: movingSquare, controls: { effect: 'heatmap' } },
+    { name: 'chromatic', scene: movingSquare, controls: { effect: 'chromatic' } },
+    { name: 'electricTrails', scene: movingSquare, controls: { effect: 'electricTrails' } },
+    { name: 'electricTrails, long persistence', scene: movingSquare, controls: { effect: 'electricTrails', persistence: 0.98 } },
+    { name: 'electricTrails, additive', scene: movingSquare, controls: { effect: 'electricTrails', accumulationMode: 'additive' } },
+    { name: 'backgroundMean', scene: movingSquare, controls: { effect: 'backgroundMean' } },
+    { name: 'backgroundVariance', scene: movingSquare, controls: { effect: 'backgroundVariance' } },
+];
+
+const isBlank = (frame: Uint8ClampedArray) => frame.every((value, i) => i % 4 === 3 || value === 0);
+
+describe('CpuMotionEngine matches MotionEngine', () => {
+    for (const { name, scene, controls, options, blank = false } of cases) {
+        test(`${name} (${scene.name})`, () => {
+            const merged = { ...DEFAULT_CONTROLS, ...controls };
+            const gl = renderGL(scene, merged, options);
+            const cpu = renderCPU(scene, merged, options);
+
+            // A frame that is black on both sides would match without testing anything
+            expect(isBlank(gl)).toBe(blank);
+
+            const { maxDiff, mismatchRatio } = compareFrames(gl, cpu, TOLERANCE);
+            expect(mismatchRatio).toBeLessThanOrEqual(MAX_MISMATCH_RATIO);
+            expect(maxDiff).toBeLessThanOrEqual(MAX_DIFF);
+        });
+    }
+});
+
+describe('hole fill', () => {
+    const controls = { ...DEFAULT_CONTROLS, morphology: 'fillHoles' as const };
+    // Whether the mask shows at (x, y); 19 frames in, the objects have moved by 19 pixels
+    const lit = (frame: Uint8ClampedArray, x: number, y: number) => frame[(y * 64 + x) * 4] > 0;
+
+    test('fills what the frame border cannot reach', () => {
+        const frame = renderGL(movingRing, controls);
+        expect(lit(frame, 32, 31)).toBe(true);
+    });
+
+    test('leaves concave regions and gaps between objects open', () => {
+        const frame = renderGL(movingBracket, controls);
+        expect(lit(frame, 35, 15)).toBe(true);  // Top of the bracket
+        expect(lit(frame, 35, 24)).toBe(false); // Inside the bracket
+        expect(lit(frame, 45, 24)).toBe(false); // Between the bracket and the bar
+    });
+});
@@ -0,0 +1,168 @@
+import { MotionEngine, MotionControls } from '../gl/motion-engine';
+import { CpuMotionEngine, FrameData } from '../gl/cpu-motion-engine';
+import { ZoneMask } from '../gl/zone-mask';
+
+// ─────────────────────────────────────────────────────────────
+// Golden frames — synthetic scenes built from a seeded PRNG, so
+// every run renders the same pixels, and helpers that play one
+// through MotionEngine and CpuMotionEngine side by side.
+// ─────────────────────────────────────────────────────────────
+
+export interface Scene {
+    name: string;
+    width: number;
+    height: number;
+    frames: number;
+    frame: (index: number) => FrameData;
+}
+
+// mulberry32
+const prng = (seed: number) => () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), seed | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+type Shape = (x: number, y: number, index: number) => [number, number, number] | null;
+
+// Smooth colored background with per-frame sensor noise, with `shape` painted on top
+const makeScene = (name: string, frames: number, shape: Shape, noise = 6): Scene => {
+    const width = 64;
+    const height = 48;
+    return {
+        name,
+        width,
+        height,
+        frames,
+        frame: (index) => {
+            const random = prng(index + 1);
+            const data = new Uint8ClampedArray(width * height * 4);
+            for (let y = 0; y < height; y++) {
+                for (let x = 0; x < width; x++) {
+                    const i = (y * width + x) * 4;
+                    const painted = shape(x, y, index);
+                    const base = painted ?? [60 + x * 2, 90 + y * 2, 140 + ((x + y) % 16) * 3];
+                    for (let c = 0; c < 3; c++) data[i + c] = base[c] + (random() - 0.5) * noise;
+                    data[i + 3] = 255;
+                }
+            }
+            return { data, width, height };
+        },
+    };
+};
+
+/** A bright square crossing the frame left to right. */
+export const movingSquare = makeScene('moving square', 24, (x, y, index) => {
+    const left = 4 + index * 2;
+    return x >= left && x < left + 12 && y >= 18 && y < 30 ? [250, 240, 40] : null;
+});
+
+/** A ring with a hole in the middle, drifting down; its hole is what fillHoles closes. */
+export const movingRing = makeScene('moving ring', 20, (x, y, index) => {
+    const r = Math.hypot(x - 32, y - 12 - index);
+    return r >= 5 && r < 11 ? [230, 40, 60] : null;
+});
+
+/**
+ * A bracket open to the right with a taller bar beside it: motion lies on all
+ * four sides of its inside, yet that is reachable from the border, so no hole.
+ */
+export const movingBracket = makeScene('moving bracket', 20, (x, y, index) => {
+    const left = 8 + index;
+    const bracket = x >= left && x < left + 16 && y >= 14 && y < 34 && (x < left + 3 || y < 18 || y >= 30);
+    const bar = x >= left + 20 && x < left + 24 && y >= 8 && y < 40;
+    return bracket || bar ? [40, 220, 90] : null;
+});
+
+/** A dark patch with the background's hue sliding over it, as a shadow would. */
+export const movingShadow = makeScene('moving shadow', 20, (x, y, index) => {
+    const left = 8 + index * 2;
+    if (x < left || x >= left + 14 || y < 10 || y >= 38) return null;
+    return [(60 + x * 2) * 0.7, (90 + y * 2) * 0.7, (140 + ((x + y) % 16) * 3) * 0.7];
+});
+
+/** Left half detects, right half is ignored. */
+export const leftHalfZone = (): ZoneMask => {
+    const width = 8;
+    const height = 6;
+    const data = new Uint8Array(width * height);
+    for (let y = 0; y < height; y++) data.fill(255, y * width, y * width + width / 2);
+    return { width, height, data };
+};
+
+export interface RenderOptions {
+    zone?: ZoneMask;
+    /** Called before the frame at this index is rendered, on both engines. */
+    before?: (index: number, engine: MotionEngine | CpuMotionEngine) => void;
+}
+
+/** Plays `scene` through a MotionEngine; the canvas output of the last frame, rows top-down. */
+export const renderGL = (scene: Scene, controls: MotionControls, options: RenderOptions = {}): Uint8ClampedArray => {
+    const { width, height } = scene;
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const engine = new MotionEngine(canvas);
+    try {
+        engine.init(width, height);
+        engine.initBackgroundFromFrame();
+        if (options.zone) engine.setZoneMask(options.zone);
+        for (let i = 0; i < scene.frames; i++) {
+            options.before?.(i, engine);
+            const { data } = scene.frame(i);
+            const frame = new VideoFrame(data, { format: 'RGBA', codedWidth: width, codedHeight: height, timestamp: i });
+            try {
+                engine.render(frame, controls);
+            } finally {
+                frame.close();
+            }
+        }
+        // Read in the same task as the last render, before the canvas is presented and cleared
+        const gl = canvas.getContext('webgl2')!;
+        const pixels = new Uint8ClampedArray(width * height * 4);
+        gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels);
+        const rows = new Uint8ClampedArray(pixels.length);
+        const rowBytes = width * 4;
+        for (let y = 0; y < height; y++) {
+            rows.set(pixels.subarray((height - 1 - y) * rowBytes, (height - y) * rowBytes), y * rowBytes);
+        }
+        return rows;
+    } finally {
+        engine.dispose();
+    }
+};
+
+/** Plays `scene` through a CpuMotionEngine; the output of the last frame. */
+export const renderCPU = (scene: Scene, controls: MotionControls, options: RenderOptions = {}): Uint8ClampedArray => {
+    const engine = new CpuMotionEngine();
+    engine.init(scene.width, scene.height);
+    engine.initBackgroundFromFrame();
+    if (options.zone) engine.setZoneMask(options.zone);
+    let output: FrameData | null = null;
+    for (let i = 0; i < scene.frames; i++) {
+        options.before?.(i, engine);
+        output = engine.render(scene.frame(i), controls);
+    }
+    return output!.data;
+};
+
+export interface FrameDifference {
+    maxDiff: number;       // Largest channel difference, 0-255
+    mismatchRatio: number; // Fraction of channels further apart than the tolerance
+}
+
+/** Compares RGB only; the canvas alpha is opaque in both. */
+export const compareFrames = (a: Uint8ClampedArray, b: Uint8ClampedArray, tolerance: number): FrameDifference => {
+    let maxDiff = 0;
+    let mismatches = 0;
+    let channels = 0;
+    for (let i = 0; i < a.length; i++) {
+        if (i % 4 === 3) continue;
+        const diff = Math.abs(a[i] - b[i]);
+        maxDiff = Math.max(maxDiff, diff);
+        if (diff > tolerance) mismatches++;
+        channels++;
+    }
+    return { maxDiff, mismatchRatio: mismatches / channels };
+};
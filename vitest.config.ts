@@ -0,0 +1,25 @@
+/// <reference types="@vitest/browser/providers/playwright" />
+
+import { defineConfig } from 'vitest/config';
+
+// The engines need a real WebGL 2 context, so the tests run in headless Chromium,
+// which falls back to SwiftShader (software rendering) where there is no GPU.
+// CHROME_PATH points Playwright at an installed Chromium instead of its own download.
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    browser: {
+      enabled: true,
+      provider: 'playwright',
+      headless: true,
+      screenshotFailures: false,
+      instances: [{
+        browser: 'chromium',
+        launch: {
+          executablePath: process.env.CHROME_PATH || undefined,
+          args: ['--use-angle=swiftshader', '--enable-unsafe-swiftshader'],
+        },
+      }],
+    },
+  },
+});
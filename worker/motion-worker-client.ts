@@ -0,0 +1,287 @@
+import type { MotionControls, MotionStats, RenderTargetFormat } from '../gl/motion-engine';
+import type { MotionPipeline } from '../gl/motion-pipeline';
+import type { TrackedBlob } from '../gl/blob-tracker';
+import type { PassTimings } from '../gl/pass-timer';
+import type { ZoneMask } from '../gl/zone-mask';
+import type { EffectDiagnostic, MotionEffect } from '../gl/effects';
+import { CallMessage, FrameReport, FromWorkerMessage, ToWorkerMessage, WorkerCallName, WorkerCalls } from './protocol';
+
+// ─────────────────────────────────────────────────────────────
+// Worker client — the main-thread side of motion-worker.ts. It
+// takes over a canvas, streams the source's frames to the worker
+// and mirrors the engine's getters from the reports it sends back.
+// ─────────────────────────────────────────────────────────────
+
+// Not in the TS DOM lib (Chromium only)
+declare class MediaStreamTrackProcessor {
+    constructor(init: { track: MediaStreamTrack; maxBufferSize?: number });
+    readonly readable: ReadableStream<VideoFrame>;
+}
+
+export const isWorkerRenderingSupported = () =>
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof VideoFrame !== 'undefined' &&
+    'transferControlToOffscreen' in HTMLCanvasElement.prototype &&
+    'requestVideoFrameCallback' in HTMLVideoElement.prototype;
+
+/** A frame the worker finished, as seen on the main thread. */
+export interface RenderedFrame {
+    time: number;      // performance.now() when the report arrived
+    mediaTime: number; // Of the rendered frame
+}
+
+/**
+ * MotionPipeline backed by a dedicated worker. Webcam frames go from a
+ * MediaStreamTrackProcessor straight to the worker; file frames (and
+ * webcams where the processor is missing) are sent per
+ * requestVideoFrameCallback, skipped while the worker is still busy with
+ * the previous one. Relays the canvas's context loss and restore as
+ * 'contextlost' / 'contextrestored', and dispatches an ErrorEvent if the
+ * engine can't start.
+ */
+export class MotionWorkerClient extends EventTarget implements MotionPipeline {
+    private worker: Worker;
+    private initialized = false;
+    private contextLost = false;
+    private disposed = false;
+    private gpuInfo = '';
+    private renderTargetFormat: RenderTargetFormat = 'rgba32f';
+
+    private controlsJson = ''; // Last controls sent; they only go over when they change
+    private feed: { video: HTMLVideoElement; callbackId: number | null; track: MediaStreamTrack | null } | null = null;
+    private frameInFlight = false;
+
+    private latest: FrameReport = { mediaTime: 0, stats: null, blobs: [], textureMemory: 0, timings: null };
+    private profiling = false;
+    private renderedFrames: RenderedFrame[] = []; // Collected while profiling, see takeRenderedFrames
+
+    private nextCallId = 1;
+    private pendingCalls = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+    /** Transfers `canvas` to the worker; it can't be drawn to from this thread afterwards. */
+    constructor(canvas: HTMLCanvasElement) {
+        super();
+        const offscreen = canvas.transferControlToOffscreen();
+        this.worker = new Worker(new URL('./motion-worker.ts', import.meta.url), { type: 'module' });
+        this.worker.onmessage = (e: MessageEvent<FromWorkerMessage>) => this.handleMessage(e.data);
+        this.worker.onerror = (e) => this.fail(e.message || 'Motion worker failed to load');
+        this.post({ type: 'create', canvas: offscreen }, [offscreen]);
+    }
+
+    public init(width: number, height: number) {
+        this.post({ type: 'init', width, height });
+    }
+
+    public isReady(): boolean {
+        return this.initialized && !this.contextLost;
+    }
+
+    /** GPU name, once the worker has created its engine. */
+    public getGPUInfo(): string {
+        return this.gpuInfo;
+    }
+
+    public getRenderTargetFormat(): RenderTargetFormat {
+        return this.renderTargetFormat;
+    }
+
+    /**
+     * The worker renders on the source's own frame clock, so this only
+     * forwards changed controls and, on the first call, starts the feed.
+     */
+    public render(video: HTMLVideoElement, controls: MotionControls) {
+        const json = JSON.stringify(controls);
+        if (json !== this.controlsJson) {
+            this.controlsJson = json;
+            this.post({ type: 'controls', controls });
+        }
+        if (!this.feed) this.startFeed(video);
+    }
+
+    public getMotionStats(): MotionStats | null {
+        return this.latest.stats;
+    }
+
+    public getBlobs(): TrackedBlob[] {
+        return this.latest.blobs;
+    }
+
+    public setZoneMask(mask: ZoneMask | null) {
+        this.post({ type: 'zoneMask', mask });
+    }
+
+    public resetBackground(warmUpFrames?: number) {
+        this.post({ type: 'resetBackground', warmUpFrames });
+    }
+
+    public initBackgroundFromFrame() {
+        this.post({ type: 'initBackgroundFromFrame' });
+    }
+
+    public clearBackground() {
+        this.post({ type: 'clearBackground' });
+    }
+
+    public setBackgroundFrozen(frozen: boolean) {
+        this.post({ type: 'setBackgroundFrozen', frozen });
+    }
+
+    public exportBackground(format: 'png' | 'float'): Promise<Blob> {
+        return this.call('exportBackground', format);
+    }
+
+    public importBackground(blob: Blob): Promise<void> {
+        return this.call('importBackground', blob);
+    }
+
+    public resetExposure() {
+        this.post({ type: 'resetExposure' });
+    }
+
+    public exportExposurePNG(): Promise<Blob> {
+        return this.call('exportExposurePNG');
+    }
+
+    public compileEffect(effect: MotionEffect): Promise<EffectDiagnostic[]> {
+        return this.call('compileEffect', effect);
+    }
+
+    public unregisterEffect(name: string) {
+        this.post({ type: 'unregisterEffect', name });
+    }
+
+    public setProfiling(enabled: boolean) {
+        if (enabled === this.profiling) return;
+        this.profiling = enabled;
+        this.renderedFrames = [];
+        this.post({ type: 'setProfiling', enabled });
+    }
+
+    public getPassTimings(): PassTimings | null {
+        return this.profiling ? this.latest.timings : null;
+    }
+
+    public getTextureMemory(): number {
+        return this.latest.textureMemory;
+    }
+
+    public isContextLost(): boolean {
+        return this.contextLost;
+    }
+
+    /**
+     * Frames the worker rendered since the last call, for a FrameMonitor; the
+     * render loop can't see them itself. Empty unless profiling.
+     */
+    public takeRenderedFrames(): RenderedFrame[] {
+        const frames = this.renderedFrames;
+        this.renderedFrames = [];
+        return frames;
+    }
+
+    /** Stops the feed and the worker; the engine frees its GL resources first. */
+    public dispose() {
+        if (this.disposed) return;
+        this.disposed = true;
+        this.initialized = false;
+        if (this.feed) {
+            if (this.feed.callbackId !== null) this.feed.video.cancelVideoFrameCallback(this.feed.callbackId);
+            this.feed.track?.stop();
+            this.feed = null;
+        }
+        this.post({ type: 'dispose' }); // The worker closes itself once done
+        this.pendingCalls.forEach(({ reject }) => reject(new Error('Motion worker disposed')));
+        this.pendingCalls.clear();
+    }
+
+    private startFeed(video: HTMLVideoElement) {
+        const stream = video.srcObject instanceof MediaStream ? video.srcObject : null;
+        const track = stream?.getVideoTracks()[0];
+        if (track && typeof MediaStreamTrackProcessor !== 'undefined') {
+            // A clone, so ending the feed leaves the tile's own track running
+            const clone = track.clone();
+            const { readable } = new MediaStreamTrackProcessor({ track: clone, maxBufferSize: 1 });
+            this.feed = { video, callbackId: null, track: clone };
+            this.post({ type: 'track', frames: readable }, [readable]);
+            return;
+        }
+
+        const feed = { video, callbackId: null as number | null, track: null };
+        const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+            if (this.disposed) return;
+            feed.callbackId = video.requestVideoFrameCallback(onFrame);
+            if (this.frameInFlight) return; // Drop rather than queue behind a slow worker
+            let frame: VideoFrame;
+            try {
+                frame = new VideoFrame(video, { timestamp: Math.round(metadata.mediaTime * 1e6) });
+            } catch (e) {
+                console.warn('Could not capture a video frame for the worker:', e);
+                return;
+            }
+            this.frameInFlight = true;
+            this.post({ type: 'frame', frame }, [frame]);
+        };
+        feed.callbackId = video.requestVideoFrameCallback(onFrame);
+        this.feed = feed;
+    }
+
+    private call<K extends WorkerCallName>(method: K, ...args: WorkerCalls[K]['args']): Promise<WorkerCalls[K]['result']> {
+        if (this.disposed) return Promise.reject(new Error('Motion worker disposed'));
+        const id = this.nextCallId++;
+        return new Promise((resolve, reject) => {
+            this.pendingCalls.set(id, { resolve: resolve as (result: unknown) => void, reject });
+            this.post({ type: 'call', id, method, args } as CallMessage);
+        });
+    }
+
+    private post(message: ToWorkerMessage, transfer: Transferable[] = []) {
+        if (this.disposed && message.type !== 'dispose') return;
+        this.worker.postMessage(message, transfer);
+    }
+
+    private fail(message: string) {
+        console.error('Motion worker error:', message);
+        this.dispatchEvent(new ErrorEvent('error', { message }));
+    }
+
+    private handleMessage(message: FromWorkerMessage) {
+        switch (message.type) {
+            case 'created':
+                this.gpuInfo = message.gpuInfo;
+                this.renderTargetFormat = message.renderTargetFormat;
+                break;
+            case 'initialized':
+                this.initialized = true;
+                break;
+            case 'frame': {
+                const { type: _, ...report } = message;
+                this.latest = report;
+                this.frameInFlight = false;
+                if (this.profiling) this.renderedFrames.push({ time: performance.now(), mediaTime: report.mediaTime });
+                break;
+            }
+            case 'contextLost':
+                this.contextLost = true;
+                this.dispatchEvent(new Event('contextlost'));
+                break;
+            case 'contextRestored':
+                this.contextLost = !message.rebuilt;
+                this.dispatchEvent(new Event('contextrestored'));
+                break;
+            case 'error':
+                this.fail(message.message);
+                break;
+            case 'reply': {
+                const pending = this.pendingCalls.get(message.id);
+                if (!pending) break;
+                this.pendingCalls.delete(message.id);
+                if (message.error !== undefined) {
+                    pending.reject(new Error(message.error));
+                } else {
+                    pending.resolve(message.result);
+                }
+                break;
+            }
+        }
+    }
+}
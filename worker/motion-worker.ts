@@ -0,0 +1,163 @@
+import { MotionEngine, MotionControls } from '../gl/motion-engine';
+import { PassTimings } from '../gl/pass-timer';
+import { CallMessage, FromWorkerMessage, ToWorkerMessage, WorkerCallName, WorkerCalls } from './protocol';
+
+// ─────────────────────────────────────────────────────────────
+// Motion worker — runs one MotionEngine on a transferred
+// OffscreenCanvas, fed VideoFrames by MotionWorkerClient, so
+// main-thread work no longer stalls the output.
+// ─────────────────────────────────────────────────────────────
+
+const TIMINGS_INTERVAL_MS = 250; // getPassTimings sorts the whole window, so don't run it every frame
+
+let engine: MotionEngine | null = null;
+let controls: MotionControls | null = null; // Nothing renders until the first controls arrive
+let trackReader: ReadableStreamDefaultReader<VideoFrame> | null = null;
+let profiling = false;
+let timings: PassTimings | null = null;
+let timingsAt = -Infinity;
+
+const post = (message: FromWorkerMessage) => self.postMessage(message);
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+const calls: {
+    [K in WorkerCallName]: (engine: MotionEngine, ...args: WorkerCalls[K]['args']) =>
+        WorkerCalls[K]['result'] | Promise<WorkerCalls[K]['result']>
+} = {
+    compileEffect: (engine, effect) => engine.compileEffect(effect),
+    exportExposurePNG: (engine) => engine.exportExposurePNG(),
+    exportBackground: (engine, format) => engine.exportBackground(format),
+    importBackground: (engine, blob) => engine.importBackground(blob),
+};
+
+// Renders and closes `frame`, then reports; every frame gets a report so the client's backpressure never stalls
+const renderFrame = (frame: VideoFrame) => {
+    const mediaTime = frame.timestamp / 1e6;
+    try {
+        if (engine && controls) engine.render(frame, controls);
+    } catch (e) {
+        console.error('Render error (worker):', e);
+    } finally {
+        frame.close();
+    }
+    if (!engine) return;
+
+    const now = performance.now();
+    if (!profiling) {
+        timings = null;
+    } else if (now - timingsAt >= TIMINGS_INTERVAL_MS) {
+        timings = engine.getPassTimings();
+        timingsAt = now;
+    }
+    post({
+        type: 'frame',
+        mediaTime,
+        stats: engine.getMotionStats(),
+        blobs: controls?.blobTracking ? engine.getBlobs() : [],
+        textureMemory: engine.getTextureMemory(),
+        timings,
+    });
+};
+
+const readTrack = async (frames: ReadableStream<VideoFrame>) => {
+    trackReader?.cancel();
+    const reader = frames.getReader();
+    trackReader = reader;
+    try {
+        for (;;) {
+            const { value, done } = await reader.read();
+            if (done) break;
+            renderFrame(value);
+        }
+    } catch (e) {
+        if (trackReader === reader) console.warn('Camera frames ended:', e);
+    }
+};
+
+const handleCall = async ({ id, method, args }: CallMessage) => {
+    try {
+        if (!engine) throw new Error('MotionEngine not created');
+        const call = calls[method] as (engine: MotionEngine, ...args: unknown[]) => unknown;
+        post({ type: 'reply', id, result: await call(engine, ...args) });
+    } catch (e) {
+        post({ type: 'reply', id, error: errorMessage(e) });
+    }
+};
+
+const create = (canvas: OffscreenCanvas) => {
+    let created: MotionEngine;
+    try {
+        created = new MotionEngine(canvas);
+    } catch (e) {
+        post({ type: 'error', message: errorMessage(e) });
+        return;
+    }
+    engine = created;
+    // The engine's own listeners were added first, so it has handled the event by the time these run
+    canvas.addEventListener('webglcontextlost', () => post({ type: 'contextLost' }));
+    canvas.addEventListener('webglcontextrestored', () => post({ type: 'contextRestored', rebuilt: !created.isContextLost() }));
+    post({ type: 'created', gpuInfo: created.getGPUInfo(), renderTargetFormat: created.getRenderTargetFormat() });
+};
+
+self.onmessage = (e: MessageEvent<ToWorkerMessage>) => {
+    const message = e.data;
+    switch (message.type) {
+        case 'create':
+            create(message.canvas);
+            break;
+        case 'init':
+            try {
+                engine?.init(message.width, message.height);
+                post({ type: 'initialized' });
+            } catch (err) {
+                post({ type: 'error', message: errorMessage(err) });
+            }
+            break;
+        case 'controls':
+            controls = message.controls;
+            break;
+        case 'frame':
+            renderFrame(message.frame);
+            break;
+        case 'track':
+            readTrack(message.frames);
+            break;
+        case 'zoneMask':
+            engine?.setZoneMask(message.mask);
+            break;
+        case 'resetBackground':
+            engine?.resetBackground(message.warmUpFrames);
+            break;
+        case 'initBackgroundFromFrame':
+            engine?.initBackgroundFromFrame();
+            break;
+        case 'clearBackground':
+            engine?.clearBackground();
+            break;
+        case 'setBackgroundFrozen':
+            engine?.setBackgroundFrozen(message.frozen);
+            break;
+        case 'resetExposure':
+            engine?.resetExposure();
+            break;
+        case 'unregisterEffect':
+            engine?.unregisterEffect(message.name);
+            break;
+        case 'setProfiling':
+            profiling = message.enabled;
+            timingsAt = -Infinity;
+            engine?.setProfiling(message.enabled);
+            break;
+        case 'call':
+            handleCall(message);
+            break;
+        case 'dispose':
+            trackReader?.cancel();
+            trackReader = null;
+            engine?.dispose();
+            engine = null;
+            self.close();
+            break;
+    }
+};
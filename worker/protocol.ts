@@ -0,0 +1,61 @@
+import type { MotionControls, MotionStats, RenderTargetFormat } from '../gl/motion-engine';
+import type { TrackedBlob } from '../gl/blob-tracker';
+import type { PassTimings } from '../gl/pass-timer';
+import type { ZoneMask } from '../gl/zone-mask';
+import type { EffectDiagnostic, MotionEffect } from '../gl/effects';
+
+// ─────────────────────────────────────────────────────────────
+// Worker protocol — messages between MotionWorkerClient on the
+// main thread and the MotionEngine in motion-worker.ts.
+// ─────────────────────────────────────────────────────────────
+
+/** Engine calls that answer, keyed by method: arguments and result. */
+export interface WorkerCalls {
+    compileEffect: { args: [effect: MotionEffect]; result: EffectDiagnostic[] };
+    exportExposurePNG: { args: []; result: Blob };
+    exportBackground: { args: [format: 'png' | 'float']; result: Blob };
+    importBackground: { args: [blob: Blob]; result: void };
+}
+
+export type WorkerCallName = keyof WorkerCalls;
+
+export type CallMessage = {
+    [K in WorkerCallName]: { type: 'call'; id: number; method: K; args: WorkerCalls[K]['args'] }
+}[WorkerCallName];
+
+/** Main thread → worker. */
+export type ToWorkerMessage =
+    | { type: 'create'; canvas: OffscreenCanvas } // Transferred; must come first
+    | { type: 'init'; width: number; height: number }
+    | { type: 'controls'; controls: MotionControls } // Used for every frame until the next one
+    | { type: 'frame'; frame: VideoFrame } // Transferred; the worker closes it
+    | { type: 'track'; frames: ReadableStream<VideoFrame> } // Transferred; read until it ends
+    | { type: 'zoneMask'; mask: ZoneMask | null }
+    | { type: 'resetBackground'; warmUpFrames?: number }
+    | { type: 'initBackgroundFromFrame' }
+    | { type: 'clearBackground' }
+    | { type: 'setBackgroundFrozen'; frozen: boolean }
+    | { type: 'resetExposure' }
+    | { type: 'unregisterEffect'; name: string }
+    | { type: 'setProfiling'; enabled: boolean }
+    | { type: 'dispose' }
+    | CallMessage;
+
+/** Sent after every rendered frame. */
+export interface FrameReport {
+    mediaTime: number; // Seconds, from the VideoFrame timestamp
+    stats: MotionStats | null;
+    blobs: TrackedBlob[];
+    textureMemory: number;
+    timings: PassTimings | null; // Only while profiling, refreshed every TIMINGS_INTERVAL_MS
+}
+
+/** Worker → main thread. */
+export type FromWorkerMessage =
+    | { type: 'created'; gpuInfo: string; renderTargetFormat: RenderTargetFormat }
+    | { type: 'initialized' }
+    | ({ type: 'frame' } & FrameReport)
+    | { type: 'contextLost' }
+    | { type: 'contextRestored'; rebuilt: boolean }
+    | { type: 'error'; message: string } // Creating or initializing the engine failed
+    | { type: 'reply'; id: number; result?: unknown; error?: string };